@@ -7,11 +7,20 @@ import expressiveCode from 'astro-expressive-code';
 import remarkGfm from 'remark-gfm';
 import remarkSmartypants from 'remark-smartypants';
 
+import { rehypeHeadingSlugs } from './src/lib/rehype-heading-slugs';
+import { remarkLastModified } from './src/lib/remark-last-modified';
+import { NEWSLETTER_PROVIDERS } from './src/utils/newsletter';
+
 export default defineConfig({
     site: 'https://ambilab.com',
     output: 'server',
     prefetch: true,
 
+    security: {
+        // src/middleware.ts runs the same check, but lets mail providers POST one-click unsubscribes.
+        checkOrigin: false,
+    },
+
     adapter: cloudflare({
         platformProxy: {
             enabled: true,
@@ -20,9 +29,28 @@ export default defineConfig({
 
     env: {
         schema: {
+            // Required when NEWSLETTER_PROVIDER is buttondown (the default).
             BUTTONDOWN_API_KEY: envField.string({
                 context: 'server',
                 access: 'secret',
+                optional: true,
+            }),
+            NEWSLETTER_PROVIDER: envField.enum({
+                context: 'server',
+                access: 'public',
+                values: [...NEWSLETTER_PROVIDERS],
+                optional: true,
+            }),
+            // Signs newsletter confirmation and unsubscribe links; required for subscriptions.
+            NEWSLETTER_TOKEN_SECRET: envField.string({
+                context: 'server',
+                access: 'secret',
+                optional: true,
+            }),
+            PREVIEW_TOKEN_SECRET: envField.string({
+                context: 'server',
+                access: 'secret',
+                optional: true,
             }),
         },
     },
@@ -51,12 +79,14 @@ export default defineConfig({
         }),
 
         mdx({
-            remarkPlugins: [remarkGfm, remarkSmartypants],
+            remarkPlugins: [remarkGfm, remarkSmartypants, remarkLastModified],
+            rehypePlugins: [rehypeHeadingSlugs],
         }),
 
-        // Note: Sitemap is implemented via custom endpoints at /sitemap.xml,
-        // /en/sitemap.xml, and /cs/sitemap.xml to properly handle the bilingual
-        // architecture with domain-based locale detection (ambilab.com / ambilab.cz).
+        // Note: Sitemaps are implemented via custom endpoints: the /sitemap.xml index
+        // (plus /en/sitemap.xml and /cs/sitemap.xml per locale) points at child sitemaps
+        // under /sitemaps/, to properly handle the bilingual architecture with
+        // domain-based locale detection (ambilab.com / ambilab.cz).
     ],
 
     image: {
@@ -67,8 +97,13 @@ export default defineConfig({
 
     vite: {
         plugins: [tailwindcss()],
+        define: {
+            // News OG images are generated for the posts published by now (see src/utils/og-image.ts).
+            'import.meta.env.BUILD_TIME': JSON.stringify(new Date().toISOString()),
+        },
         ssr: {
-            external: ['svgo'],
+            // satori and sharp only render the prerendered /og/* images at build time in Node.
+            external: ['svgo', 'satori', 'sharp'],
         },
     },
 
@@ -1,10 +1,11 @@
 /**
  * Content Validation Script
  *
- * Validates bilingual content synchronization:
- * - Checks that every English post has a Czech translation (and vice versa)
- * - Validates translationSlug references are valid (no orphans)
- * - Reports missing translations and broken links
+ * Validates content synchronization across the locales of src/i18n/config.ts:
+ * - Checks that every entry named in a `translations` map exists
+ * - Checks that each translation names its source back
+ * - Reports entries that no other locale links to
+ * - Checks that news series parts are numbered 1..N without duplicates or gaps
  *
  * Usage:
  *   pnpm validate:content
@@ -19,11 +20,42 @@ const __dirname = dirname(fileURLToPath(import.meta.url));
 const ROOT_DIR = join(__dirname, '..');
 const CONTENT_DIR = join(ROOT_DIR, 'src', 'content');
 
-const COLLECTIONS = ['news', 'pages'];
-const _LOCALES = ['en', 'cs'];
+const I18N_CONFIG_PATH = join(ROOT_DIR, 'src', 'i18n', 'config.ts');
+
+const COLLECTIONS = ['news', 'pages', 'projects'];
+
+/**
+ * Reads the supported locales from the LOCALES array of the i18n config, so
+ * adding a locale needs no change here.
+ */
+function readLocales() {
+    const source = readFileSync(I18N_CONFIG_PATH, 'utf-8');
+    const match = source.match(/export const LOCALES = \[([^\]]*)\]/);
+
+    if (!match) {
+        throw new Error(`Could not find the LOCALES array in ${I18N_CONFIG_PATH}`);
+    }
+
+    return [...match[1].matchAll(/['"]([^'"]+)['"]/g)].map(([, locale]) => locale);
+}
+
+const LOCALES = readLocales();
+
+/**
+ * Removes matching surrounding quotes from a frontmatter value.
+ */
+function unquote(value) {
+    if ((value.startsWith("'") && value.endsWith("'")) || (value.startsWith('"') && value.endsWith('"'))) {
+        return value.slice(1, -1);
+    }
+
+    return value;
+}
 
 /**
  * Extracts frontmatter from an MDX file.
+ *
+ * Supports flat keys plus one level of nested mappings (e.g. `series:` with indented `id:` and `part:`).
  */
 function extractFrontmatter(filePath) {
     // eslint-disable-next-line security/detect-non-literal-fs-filename
@@ -36,19 +68,23 @@ function extractFrontmatter(filePath) {
 
     const frontmatter = {};
     const lines = match[1].split('\n');
+    let parentKey = null;
 
     for (const line of lines) {
         const colonIndex = line.indexOf(':');
         if (colonIndex > 0) {
+            const isNested = /^\s/.test(line);
             const key = line.slice(0, colonIndex).trim();
-            let value = line.slice(colonIndex + 1).trim();
+            const value = unquote(line.slice(colonIndex + 1).trim());
 
-            // Remove quotes
-            if ((value.startsWith("'") && value.endsWith("'")) || (value.startsWith('"') && value.endsWith('"'))) {
-                value = value.slice(1, -1);
+            if (isNested && parentKey) {
+                frontmatter[parentKey][key] = value;
+                continue;
             }
 
-            frontmatter[key] = value;
+            // A key without a value opens a nested mapping.
+            parentKey = value === '' ? key : null;
+            frontmatter[key] = value === '' ? {} : value;
         }
     }
 
@@ -89,97 +125,181 @@ function getContentFiles(collection, locale) {
 }
 
 /**
- * Validates content synchronization.
+ * Validates news series numbering for one locale.
+ *
+ * Parts of each series must be numbered 1..N with no duplicates or gaps.
  */
-function validateContent() {
+function validateSeries(files) {
+    const issues = [];
+    const seriesMap = new Map();
+
+    for (const file of files) {
+        const series = file.frontmatter?.series;
+
+        if (!series || typeof series !== 'object' || !series.id) {
+            continue;
+        }
+
+        const part = Number(series.part);
+
+        if (!Number.isInteger(part) || part < 1) {
+            issues.push({
+                type: 'invalid_series_part',
+                file: file.filePath,
+                message: `Series "${series.id}" has an invalid part number: "${series.part}"`,
+            });
+            continue;
+        }
+
+        const parts = seriesMap.get(series.id) ?? new Map();
+        parts.set(part, [...(parts.get(part) ?? []), file]);
+        seriesMap.set(series.id, parts);
+    }
+
+    for (const [seriesId, parts] of seriesMap) {
+        for (const [part, partFiles] of parts) {
+            if (partFiles.length > 1) {
+                issues.push({
+                    type: 'duplicate_series_part',
+                    file: partFiles.map((f) => f.filePath).join(', '),
+                    message: `Series "${seriesId}" (${files[0].locale}) has duplicate part ${part}`,
+                    suggestion: 'Give every part of a series a unique part number',
+                });
+            }
+        }
+
+        const highest = Math.max(...parts.keys());
+
+        for (let part = 1; part <= highest; part++) {
+            if (!parts.has(part)) {
+                issues.push({
+                    type: 'missing_series_part',
+                    file: [...parts.values()].flat()[0].filePath,
+                    message: `Series "${seriesId}" (${files[0].locale}) is missing part ${part} of ${highest}`,
+                    suggestion: 'Renumber the parts so they run from 1 without gaps',
+                });
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Validates the translations of one collection.
+ *
+ * Every `translations[locale]` must name an existing entry of that locale,
+ * which must name the source back.
+ */
+function validateTranslations(collection, filesByLocale) {
     const issues = [];
     const warnings = [];
+    const referenced = new Set();
 
-    for (const collection of COLLECTIONS) {
-        console.log(`\nValidating ${collection} collection...`);
+    for (const [locale, files] of filesByLocale) {
+        for (const file of files.values()) {
+            const translations = file.frontmatter?.translations;
 
-        const enFiles = getContentFiles(collection, 'en');
-        const csFiles = getContentFiles(collection, 'cs');
+            if (!translations || typeof translations !== 'object') {
+                continue;
+            }
 
-        const enBySlug = new Map(enFiles.map((f) => [f.slug, f]));
-        const csBySlug = new Map(csFiles.map((f) => [f.slug, f]));
+            for (const [targetLocale, targetSlug] of Object.entries(translations)) {
+                const targetFiles = filesByLocale.get(targetLocale);
 
-        // Check English files for translation references
-        for (const enFile of enFiles) {
-            const translationSlug = enFile.frontmatter?.translationSlug;
+                if (!targetFiles || targetLocale === locale) {
+                    issues.push({
+                        type: 'invalid_locale',
+                        file: file.filePath,
+                        message: `"${file.slug}" (${locale}) lists a translation in unsupported locale "${targetLocale}"`,
+                        suggestion: `Use one of: ${LOCALES.filter((l) => l !== locale).join(', ')}`,
+                    });
+                    continue;
+                }
 
-            if (translationSlug) {
-                // Check if translation exists
-                const csFile = csBySlug.get(translationSlug);
+                const target = targetFiles.get(targetSlug);
 
-                if (!csFile) {
+                if (!target) {
                     issues.push({
                         type: 'broken_reference',
-                        file: enFile.filePath,
-                        message: `English file references non-existent Czech translation: "${translationSlug}"`,
-                        suggestion: `Create src/content/${collection}/cs/${translationSlug}.mdx`,
+                        file: file.filePath,
+                        message: `"${file.slug}" (${locale}) references non-existent ${targetLocale} translation "${targetSlug}"`,
+                        suggestion: `Create src/content/${collection}/${targetLocale}/${targetSlug}.mdx`,
                     });
-                } else {
-                    // Check if Czech file references back
-                    const backRef = csFile.frontmatter?.translationSlug;
-
-                    if (backRef && backRef !== enFile.slug) {
-                        issues.push({
-                            type: 'mismatched_reference',
-                            file: csFile.filePath,
-                            message: `Czech translation "${translationSlug}" references different English file: "${backRef}" (expected: "${enFile.slug}")`,
-                        });
-                    } else if (!backRef) {
-                        warnings.push({
-                            type: 'missing_back_reference',
-                            file: csFile.filePath,
-                            message: `Czech file "${translationSlug}" is missing translationSlug back to "${enFile.slug}"`,
-                            suggestion: `Add "translationSlug: '${enFile.slug}'" to frontmatter`,
-                        });
-                    }
+                    continue;
                 }
-            } else {
-                warnings.push({
-                    type: 'no_translation',
-                    file: enFile.filePath,
-                    message: `English file "${enFile.slug}" has no translationSlug defined`,
-                });
-            }
-        }
 
-        // Check Czech files for translation references
-        for (const csFile of csFiles) {
-            const translationSlug = csFile.frontmatter?.translationSlug;
+                referenced.add(target.filePath);
 
-            if (translationSlug) {
-                const enFile = enBySlug.get(translationSlug);
+                const backRef = target.frontmatter?.translations?.[locale];
 
-                if (!enFile) {
+                if (!backRef) {
+                    warnings.push({
+                        type: 'missing_back_reference',
+                        file: target.filePath,
+                        message: `"${targetSlug}" (${targetLocale}) is missing the translation back to "${file.slug}" (${locale})`,
+                        suggestion: `Add "${locale}: '${file.slug}'" under translations in the frontmatter`,
+                    });
+                } else if (backRef !== file.slug) {
                     issues.push({
-                        type: 'broken_reference',
-                        file: csFile.filePath,
-                        message: `Czech file references non-existent English translation: "${translationSlug}"`,
-                        suggestion: `Create src/content/${collection}/en/${translationSlug}.mdx`,
+                        type: 'mismatched_reference',
+                        file: target.filePath,
+                        message: `"${targetSlug}" (${targetLocale}) references "${backRef}" (${locale}) instead of "${file.slug}"`,
                     });
                 }
             }
         }
+    }
 
-        // Check for orphaned files (Czech files without any English reference)
-        for (const csFile of csFiles) {
-            const hasEnglishReference = enFiles.some((enFile) => enFile.frontmatter?.translationSlug === csFile.slug);
+    for (const [locale, files] of filesByLocale) {
+        for (const file of files.values()) {
+            const translations = file.frontmatter?.translations;
+            const hasTranslations =
+                translations && typeof translations === 'object' && Object.keys(translations).length;
 
-            if (!hasEnglishReference && !csFile.frontmatter?.translationSlug) {
+            if (!hasTranslations && !referenced.has(file.filePath)) {
                 warnings.push({
-                    type: 'orphaned_translation',
-                    file: csFile.filePath,
-                    message: `Czech file "${csFile.slug}" is not referenced by any English file`,
+                    type: 'no_translation',
+                    file: file.filePath,
+                    message: `"${file.slug}" (${locale}) has no translations and no other locale links to it`,
                 });
             }
         }
+    }
+
+    return { issues, warnings };
+}
+
+/**
+ * Validates content synchronization.
+ */
+function validateContent() {
+    const issues = [];
+    const warnings = [];
+
+    for (const collection of COLLECTIONS) {
+        console.log(`\nValidating ${collection} collection...`);
+
+        const filesByLocale = new Map(
+            LOCALES.map((locale) => [
+                locale,
+                new Map(getContentFiles(collection, locale).map((file) => [file.slug, file])),
+            ]),
+        );
+        const result = validateTranslations(collection, filesByLocale);
+
+        issues.push(...result.issues);
+        warnings.push(...result.warnings);
+
+        for (const [locale, files] of filesByLocale) {
+            console.log(`  ${locale.toUpperCase()} files: ${files.size}`);
+        }
+    }
+
+    console.log('\nValidating news series...');
 
-        console.log(`  EN files: ${enFiles.length}`);
-        console.log(`  CS files: ${csFiles.length}`);
+    for (const locale of LOCALES) {
+        issues.push(...validateSeries(getContentFiles('news', locale)));
     }
 
     return { issues, warnings };
@@ -4,8 +4,33 @@ export const COMPONENT_CONFIG = {
         animationDuration: 200,
     },
 
+    newsIndex: {
+        postsPerPage: 10,
+    },
+
+    relatedPosts: {
+        limit: 3,
+    },
+
+    tableOfContents: {
+        minHeadings: 3,
+        maxDepth: 3,
+        scrollSpyOffset: 120,
+    },
+
+    search: {
+        minQueryLength: 2,
+        maxQueryLength: 100,
+        resultLimit: 8,
+        debounceDelay: 200,
+    },
+
     cookieBanner: {
         dismissedKey: 'cookie-banner-dismissed',
         autoHideDelay: 0,
     },
+
+    localeSuggestion: {
+        dismissedKey: 'locale-suggestion-dismissed',
+    },
 } as const;
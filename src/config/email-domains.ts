@@ -0,0 +1,118 @@
+/* cspell:disable */
+
+/**
+ * Domains of popular email providers, most used first, for typo suggestions.
+ * A domain listed here is never "corrected", so similar real providers
+ * (email.cz next to gmail.com) belong here too.
+ */
+export const POPULAR_EMAIL_DOMAINS = [
+    'gmail.com',
+    'seznam.cz',
+    'email.cz',
+    'outlook.com',
+    'hotmail.com',
+    'yahoo.com',
+    'icloud.com',
+    'centrum.cz',
+    'post.cz',
+    'atlas.cz',
+    'volny.cz',
+    'tiscali.cz',
+    'quick.cz',
+    'proton.me',
+    'protonmail.com',
+    'live.com',
+    'msn.com',
+    'me.com',
+    'aol.com',
+    'gmx.com',
+    'gmx.net',
+    'mail.com',
+    'email.com',
+    'googlemail.com',
+    'centrum.sk',
+    'azet.sk',
+    'zoznam.sk',
+] as const;
+
+/**
+ * Misspelled top-level domains and their corrections, for addresses at
+ * providers not listed in POPULAR_EMAIL_DOMAINS.
+ */
+export const TLD_TYPOS: Record<string, string> = {
+    con: 'com',
+    cmo: 'com',
+    ocm: 'com',
+    vom: 'com',
+    xom: 'com',
+    comm: 'com',
+    coom: 'com',
+    nte: 'net',
+    ent: 'net',
+    ogr: 'org',
+    orgg: 'org',
+    zc: 'cz',
+    czz: 'cz',
+};
+
+/**
+ * Disposable (throwaway) email domains, rejected by the newsletter. Their
+ * subdomains are rejected too. Extend it when new services show up in the
+ * subscriber list.
+ */
+export const DISPOSABLE_EMAIL_DOMAINS = [
+    '10minutemail.com',
+    '10minutemail.net',
+    '20minutemail.com',
+    '33mail.com',
+    'anonbox.net',
+    'burnermail.io',
+    'discard.email',
+    'dispostable.com',
+    'dropmail.me',
+    'emailondeck.com',
+    'fakeinbox.com',
+    'getairmail.com',
+    'getnada.com',
+    'guerrillamail.biz',
+    'guerrillamail.com',
+    'guerrillamail.de',
+    'guerrillamail.info',
+    'guerrillamail.net',
+    'guerrillamail.org',
+    'guerrillamailblock.com',
+    'harakirimail.com',
+    'incognitomail.org',
+    'jetable.org',
+    'mailcatch.com',
+    'maildrop.cc',
+    'mailinator.com',
+    'mailinator.net',
+    'mailnesia.com',
+    'mailsac.com',
+    'mintemail.com',
+    'mohmal.com',
+    'mytemp.email',
+    'nada.email',
+    'sharklasers.com',
+    'spam4.me',
+    'spambox.us',
+    'spamgourmet.com',
+    'temp-mail.io',
+    'temp-mail.org',
+    'tempail.com',
+    'tempmail.com',
+    'tempmail.net',
+    'tempmailo.com',
+    'tempr.email',
+    'throwawaymail.com',
+    'trashmail.com',
+    'trashmail.de',
+    'trashmail.net',
+    'wegwerfmail.de',
+    'yopmail.com',
+    'yopmail.fr',
+    'yopmail.net',
+] as const;
+
+/* cspell:enable */
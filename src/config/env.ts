@@ -6,6 +6,7 @@
  */
 
 import { createLogger } from '@utils/logger';
+import { NEWSLETTER_PROVIDERS } from '@utils/newsletter';
 import { z } from 'zod';
 
 const logger = createLogger({ prefix: 'EnvValidation' });
@@ -17,10 +18,16 @@ const logger = createLogger({ prefix: 'EnvValidation' });
 const envSchema = z.object({
     /**
      * Buttondown Newsletter API Key
-     * Optional in development, required in production for newsletter functionality
+     * Required when NEWSLETTER_PROVIDER is buttondown (the default)
      */
     BUTTONDOWN_API_KEY: z.string().optional(),
 
+    /**
+     * Newsletter provider: buttondown, or local for an in-memory stand-in
+     * Optional - defaults to buttondown; use local for offline development
+     */
+    NEWSLETTER_PROVIDER: z.enum(NEWSLETTER_PROVIDERS).optional(),
+
     /**
      * Plausible Analytics Script URL for ambilab.com
      * Optional - if not set, analytics will be disabled
@@ -41,6 +48,12 @@ const envSchema = z.object({
         .refine((url) => url.startsWith('https://'), { message: 'Plausible script URL must use HTTPS' })
         .optional(),
 
+    /**
+     * Preview news posts scheduled for a future pubDate
+     * Optional - only honored in development mode
+     */
+    PREVIEW_SCHEDULED_POSTS: z.enum(['true', 'false']).optional(),
+
     /**
      * Node environment
      * Automatically set by Astro/Vite
@@ -90,8 +103,10 @@ export function validateEnv(env?: Record<string, unknown>): ValidatedEnv {
         // Note: DEV/PROD are booleans in Astro but stored as strings here for schema consistency
         const envObject: Record<string, unknown> = {
             BUTTONDOWN_API_KEY: sourceEnv.BUTTONDOWN_API_KEY,
+            NEWSLETTER_PROVIDER: sourceEnv.NEWSLETTER_PROVIDER,
             PUBLIC_PLAUSIBLE_SCRIPT_COM: sourceEnv.PUBLIC_PLAUSIBLE_SCRIPT_COM,
             PUBLIC_PLAUSIBLE_SCRIPT_CZ: sourceEnv.PUBLIC_PLAUSIBLE_SCRIPT_CZ,
+            PREVIEW_SCHEDULED_POSTS: sourceEnv.PREVIEW_SCHEDULED_POSTS,
             NODE_ENV: sourceEnv.NODE_ENV,
             DEV: sourceEnv.DEV ? 'true' : undefined,
             PROD: sourceEnv.PROD ? 'true' : undefined,
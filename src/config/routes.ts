@@ -16,11 +16,51 @@ export const ROUTES = {
         cs: '/novinky',
     },
 
+    newsTags: {
+        en: '/news/tags',
+        cs: '/novinky/stitky',
+    },
+
+    newsPage: {
+        en: '/news/page',
+        cs: '/novinky/strana',
+    },
+
+    newsSeries: {
+        en: '/news/series',
+        cs: '/novinky/serial',
+    },
+
+    newsAuthors: {
+        en: '/news/authors',
+        cs: '/novinky/autori',
+    },
+
     rss: {
         en: '/en/news.xml',
         cs: '/cs/news.xml',
     },
-} as const;
+
+    atom: {
+        en: '/en/news.atom',
+        cs: '/cs/news.atom',
+    },
+
+    jsonFeed: {
+        en: '/en/news.json',
+        cs: '/cs/news.json',
+    },
+
+    newsTagRss: {
+        en: '/en/news/tags',
+        cs: '/cs/novinky/stitky',
+    },
+
+    projectsRss: {
+        en: '/en/projects.xml',
+        cs: '/cs/projects.xml',
+    },
+} as const satisfies Record<string, Record<Locale, string>>;
 
 export const PAGE_SLUGS: Record<keyof typeof ROUTES, Record<Locale, string>> = {
     home: {
@@ -38,10 +78,50 @@ export const PAGE_SLUGS: Record<keyof typeof ROUTES, Record<Locale, string>> = {
         cs: 'novinky',
     },
 
+    newsTags: {
+        en: 'tags',
+        cs: 'stitky',
+    },
+
+    newsPage: {
+        en: 'page',
+        cs: 'strana',
+    },
+
+    newsSeries: {
+        en: 'series',
+        cs: 'serial',
+    },
+
+    newsAuthors: {
+        en: 'authors',
+        cs: 'autori',
+    },
+
     rss: {
         en: 'rss',
         cs: 'rss',
     },
+
+    atom: {
+        en: 'atom',
+        cs: 'atom',
+    },
+
+    jsonFeed: {
+        en: 'json-feed',
+        cs: 'json-feed',
+    },
+
+    newsTagRss: {
+        en: 'tag-rss',
+        cs: 'tag-rss',
+    },
+
+    projectsRss: {
+        en: 'projects-rss',
+        cs: 'projects-rss',
+    },
 };
 
 export function getRoute(route: keyof typeof ROUTES, locale: Locale): string {
@@ -58,7 +138,7 @@ export function isRouteActive(path: string, route: keyof typeof ROUTES): boolean
     return Object.values(ROUTES[route]).some((routePath) => {
         const normalizedRoutePath = normalizePath(routePath);
 
-        if (route === 'news') {
+        if (route === 'news' || route === 'projects') {
             return normalizedPath === normalizedRoutePath || normalizedPath.startsWith(`${normalizedRoutePath}/`);
         }
 
@@ -63,3 +63,15 @@ export function applySecurityHeaders(headers: Headers, config: CSPConfig): void
         headers.set(key, value);
     });
 }
+
+export const NEWSLETTER_PROTECTION = {
+    // Subscription attempts per client IP and per email address.
+    ipRateLimit: { limit: 5, windowSeconds: 10 * 60 },
+    emailRateLimit: { limit: 3, windowSeconds: 60 * 60 },
+
+    // Hidden form field only bots fill in.
+    honeypotField: 'website',
+
+    // Forms submitted faster than this after they appeared are treated as bots.
+    minFillTimeMs: 2000,
+} as const;
@@ -1,5 +1,19 @@
 import { LOCALES } from '@i18n/config';
-import { defineCollection, z } from 'astro:content';
+import { defineCollection, reference, z } from 'astro:content';
+
+// Slugs of the entry's translations, keyed by locale. Each translation must name this entry back.
+const translationsSchema = z.record(z.enum(LOCALES), z.string()).default({});
+
+const authorsCollection = defineCollection({
+    type: 'data',
+    schema: ({ image }) =>
+        z.object({
+            name: z.string(),
+            avatar: image().optional(),
+            url: z.string().url().optional(),
+            bio: z.record(z.enum(LOCALES), z.string()).default({}),
+        }),
+});
 
 const newsCollection = defineCollection({
     type: 'content',
@@ -7,11 +21,23 @@ const newsCollection = defineCollection({
         title: z.string(),
         description: z.string(),
         locale: z.enum(LOCALES),
-        translationSlug: z.string().optional(),
+        translations: translationsSchema,
         pubDate: z.coerce.date(),
         updatedDate: z.coerce.date().optional(),
         tags: z.array(z.string()).default([]),
+        author: reference('authors').optional(),
+
+        // Absolute URL or site path; overrides the generated /og/ image.
+        ogImage: z.string().optional(),
         draft: z.boolean().default(false),
+        toc: z.boolean().default(true),
+        series: z
+            .object({
+                id: z.string().regex(/^[a-z0-9-]+$/, 'Series ID must be a lowercase slug'),
+                part: z.number().int().positive(),
+                title: z.string().optional(),
+            })
+            .optional(),
     }),
 });
 
@@ -22,11 +48,50 @@ const pagesCollection = defineCollection({
         menuTitle: z.string().optional(),
         description: z.string(),
         locale: z.enum(LOCALES),
-        translationSlug: z.string().optional(),
+        translations: translationsSchema,
+
+        // Sitemap lastmod; the file's modification time is used when omitted.
+        updatedDate: z.coerce.date().optional(),
+        ogImage: z.string().optional(),
+        toc: z.boolean().default(true),
     }),
 });
 
+export const PROJECT_STATUSES = ['active', 'maintained', 'paused', 'archived'] as const;
+
+const projectsCollection = defineCollection({
+    type: 'content',
+    schema: ({ image }) =>
+        z.object({
+            title: z.string(),
+            description: z.string(),
+            locale: z.enum(LOCALES),
+            translations: translationsSchema,
+            status: z.enum(PROJECT_STATUSES),
+            techStack: z.array(z.string()).default([]),
+            repoUrl: z.string().url().optional(),
+            demoUrl: z.string().url().optional(),
+            cover: image().optional(),
+            coverAlt: z.string().optional(),
+            pubDate: z.coerce.date(),
+            updatedDate: z.coerce.date().optional(),
+            updates: z
+                .array(
+                    z.object({
+                        date: z.coerce.date(),
+                        title: z.string(),
+                        description: z.string().optional(),
+                    }),
+                )
+                .default([]),
+            draft: z.boolean().default(false),
+            toc: z.boolean().default(true),
+        }),
+});
+
 export const collections = {
+    authors: authorsCollection,
     news: newsCollection,
     pages: pagesCollection,
+    projects: projectsCollection,
 };
@@ -12,6 +12,8 @@ interface ImportMetaEnv {
     readonly PROD: boolean;
     readonly PUBLIC_PLAUSIBLE_SCRIPT_COM?: string;
     readonly PUBLIC_PLAUSIBLE_SCRIPT_CZ?: string;
+    readonly PREVIEW_SCHEDULED_POSTS?: 'true' | 'false';
+    readonly BUILD_TIME?: string;
     readonly NODE_ENV?: 'development' | 'production' | 'test';
 
     // Allow additional env vars at runtime
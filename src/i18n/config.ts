@@ -1,33 +1,45 @@
 import type { Locale, LocaleConfig } from '@type/locale';
 
+/**
+ * Supported locales. Adding one means adding it here, to LOCALE_CONFIGS, to
+ * ROUTES/PAGE_SLUGS in src/config/routes.ts and to the UI translations, plus
+ * its content.
+ */
 export const LOCALES = ['en', 'cs'] as const;
 
 export const DEFAULT_LOCALE: Locale = 'en';
 
-export const DOMAIN_LOCALE_MAP: Record<string, Locale> = {
-    'ambilab.com': 'en',
-    'ambilab.cz': 'cs',
-    localhost: 'en',
-    '127.0.0.1': 'en',
-};
-
 export const LOCALE_CONFIGS: Record<Locale, LocaleConfig> = {
     en: {
         code: 'en',
         name: 'English',
+        domain: 'https://ambilab.com',
+        intl: 'en-US',
     },
 
     cs: {
         code: 'cs',
         name: 'Čeština',
+        domain: 'https://ambilab.cz',
+        intl: 'cs-CZ',
     },
 };
 
-export const LOCALE_TO_INTL: Record<Locale, string> = {
-    en: 'en-US',
-    cs: 'cs-CZ',
+// Canonical origin of each locale; every locale is served from its own domain.
+export const LOCALE_DOMAINS = Object.fromEntries(
+    LOCALES.map((locale) => [locale, LOCALE_CONFIGS[locale].domain]),
+) as Record<Locale, string>;
+
+export const DOMAIN_LOCALE_MAP: Record<string, Locale> = {
+    ...Object.fromEntries(LOCALES.map((locale) => [new URL(LOCALE_CONFIGS[locale].domain).hostname, locale])),
+    localhost: DEFAULT_LOCALE,
+    '127.0.0.1': DEFAULT_LOCALE,
 };
 
+export const LOCALE_TO_INTL = Object.fromEntries(
+    LOCALES.map((locale) => [locale, LOCALE_CONFIGS[locale].intl]),
+) as Record<Locale, string>;
+
 export const isValidLocale = (locale: string): locale is Locale => {
     return LOCALES.includes(locale as Locale);
 };
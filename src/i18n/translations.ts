@@ -35,6 +35,54 @@ export interface Translations {
         subscribing: string;
         success: string;
         error: string;
+        errors: {
+            emailRequired: string;
+            emailInvalid: string;
+            emailDisposable: string;
+            forbidden: string;
+            rateLimited: string;
+            subscribeFailed: string;
+            unavailable: string;
+        };
+        suggestion: string;
+        honeypotLabel: string;
+    };
+
+    newsletterConfirm: {
+        title: string;
+        prompt: string;
+        button: string;
+        confirmed: string;
+        invalid: string;
+        failed: string;
+        goHome: string;
+    };
+
+    newsletterUnsubscribe: {
+        title: string;
+        prompt: string;
+        button: string;
+        unsubscribed: string;
+        invalid: string;
+        failed: string;
+        goHome: string;
+    };
+
+    toc: {
+        title: string;
+        toggle: string;
+    };
+
+    search: {
+        open: string;
+        close: string;
+        label: string;
+        placeholder: string;
+        searching: string;
+        noResults: string;
+        error: string;
+        typeNews: string;
+        typePage: string;
     };
 
     cookie: {
@@ -43,6 +91,14 @@ export interface Translations {
         button: string;
     };
 
+    /** Shown in the suggested language, so it is written as "available in <this language>" */
+    localeSuggestion: {
+        message: string;
+        button: string;
+        dismiss: string;
+        dismissLabel: string;
+    };
+
     news: {
         publishedOn: string;
         updatedOn: string;
@@ -53,6 +109,43 @@ export interface Translations {
         description: string;
         allPosts: string;
         noPosts: string;
+        allTags: string;
+        taggedWith: string;
+        tagsDescription: string;
+        newerPosts: string;
+        olderPosts: string;
+        relatedPosts: string;
+        series: string;
+        seriesDescription: string;
+        part: string;
+        previousPart: string;
+        nextPart: string;
+        page: string;
+        pageOf: string;
+        by: string;
+        postsBy: string;
+        authorDescription: string;
+        authorWebsite: string;
+    };
+
+    projects: {
+        title: string;
+        description: string;
+        allProjects: string;
+        noProjects: string;
+        status: string;
+        statuses: {
+            active: string;
+            maintained: string;
+            paused: string;
+            archived: string;
+        };
+        techStack: string;
+        repository: string;
+        demo: string;
+        startedOn: string;
+        updates: string;
+        updatesFeed: string;
     };
 
     notFound: {
@@ -75,6 +168,8 @@ export interface Translations {
 
     rss: {
         errorMessage: string;
+        feedErrorMessage: string;
+        notFoundMessage: string;
     };
 }
 
@@ -111,8 +206,56 @@ export const translations: Record<Locale, Translations> = {
             description: 'Get the latest updates from Ambilab delivered to your inbox.',
             emailPlaceholder: 'Enter your email',
             subscribing: 'Subscribing...',
-            success: 'Thanks for subscribing!',
+            success: 'Almost there! Check your inbox and confirm your subscription.',
             error: 'Something went wrong. Please try again.',
+            errors: {
+                emailRequired: 'Please enter your email address.',
+                emailInvalid: 'Please enter a valid email address.',
+                emailDisposable: 'Please use a permanent email address, not a disposable one.',
+                forbidden: 'Please reload the page and try again.',
+                rateLimited: 'Too many attempts. Please wait a while and try again.',
+                subscribeFailed: 'We could not subscribe this address. Please try again later.',
+                unavailable: 'The newsletter is unavailable right now. Please try again later.',
+            },
+            suggestion: 'Did you mean',
+            honeypotLabel: 'Leave this field empty',
+        },
+
+        newsletterConfirm: {
+            title: 'Newsletter Subscription',
+            prompt: 'One more step: confirm that you want to receive the Ambilab newsletter.',
+            button: 'Confirm subscription',
+            confirmed: 'Your subscription is confirmed. Thanks for subscribing!',
+            invalid: 'This confirmation link is invalid or has expired. Please subscribe again.',
+            failed: 'We could not confirm your subscription right now. Please try the link again later.',
+            goHome: 'Go Home',
+        },
+
+        newsletterUnsubscribe: {
+            title: 'Unsubscribe',
+            prompt: 'Stop sending the Ambilab newsletter to this address?',
+            button: 'Unsubscribe',
+            unsubscribed: 'You have been unsubscribed. Sorry to see you go!',
+            invalid: 'This unsubscribe link is invalid. Please use the link from one of our emails.',
+            failed: 'We could not unsubscribe you right now. Please try again later.',
+            goHome: 'Go Home',
+        },
+
+        toc: {
+            title: 'On this page',
+            toggle: 'Show or hide the table of contents',
+        },
+
+        search: {
+            open: 'Open search',
+            close: 'Close search',
+            label: 'Search the site',
+            placeholder: 'Search news and pages',
+            searching: 'Searching...',
+            noResults: 'No results found.',
+            error: 'Search is unavailable right now. Please try again.',
+            typeNews: 'News',
+            typePage: 'Page',
         },
 
         cookie: {
@@ -121,6 +264,13 @@ export const translations: Record<Locale, Translations> = {
             button: 'Got it',
         },
 
+        localeSuggestion: {
+            message: 'This page is also available in English.',
+            button: 'Read in English',
+            dismiss: 'No thanks',
+            dismissLabel: 'Dismiss the language suggestion',
+        },
+
         news: {
             publishedOn: 'Published on',
             updatedOn: 'Updated on',
@@ -131,6 +281,43 @@ export const translations: Record<Locale, Translations> = {
             description: 'Latest articles and updates from Ambilab',
             allPosts: 'All posts',
             noPosts: 'No posts available yet.',
+            allTags: 'All tags',
+            taggedWith: 'Posts tagged',
+            tagsDescription: 'Browse Ambilab news by topic',
+            newerPosts: 'Newer posts',
+            olderPosts: 'Older posts',
+            relatedPosts: 'Related posts',
+            series: 'Series',
+            seriesDescription: 'All parts of the series in reading order.',
+            part: 'Part',
+            previousPart: 'Previous part',
+            nextPart: 'Next part',
+            page: 'Page',
+            pageOf: 'of',
+            by: 'By',
+            postsBy: 'Posts by',
+            authorDescription: 'All posts by this author',
+            authorWebsite: 'Website',
+        },
+
+        projects: {
+            title: 'Projects',
+            description: 'Projects built and maintained by Ambilab',
+            allProjects: 'All projects',
+            noProjects: 'No projects available yet.',
+            status: 'Status',
+            statuses: {
+                active: 'Active',
+                maintained: 'Maintained',
+                paused: 'Paused',
+                archived: 'Archived',
+            },
+            techStack: 'Tech stack',
+            repository: 'Source code',
+            demo: 'Demo',
+            startedOn: 'Started on',
+            updates: 'Updates',
+            updatesFeed: 'Project updates',
         },
 
         notFound: {
@@ -153,6 +340,8 @@ export const translations: Record<Locale, Translations> = {
 
         rss: {
             errorMessage: 'Failed to generate RSS feed. Please try again later.',
+            feedErrorMessage: 'Failed to generate the news feed. Please try again later.',
+            notFoundMessage: 'This feed does not exist.',
         },
     },
     cs: {
@@ -187,8 +376,56 @@ export const translations: Record<Locale, Translations> = {
             description: 'Získejte nejnovější aktualizace z Ambilab přímo do své e-mailové schránky.',
             emailPlaceholder: 'Zadejte svůj e-mail',
             subscribing: 'Odesílám...',
-            success: 'Děkujeme za odběr!',
+            success: 'Už jen krok! Zkontrolujte svou e-mailovou schránku a potvrďte odběr.',
             error: 'Něco se pokazilo. Zkuste to prosím znovu.',
+            errors: {
+                emailRequired: 'Zadejte prosím svůj e-mail.',
+                emailInvalid: 'Zadejte prosím platnou e-mailovou adresu.',
+                emailDisposable: 'Použijte prosím trvalou e-mailovou adresu, ne jednorázovou.',
+                forbidden: 'Obnovte prosím stránku a zkuste to znovu.',
+                rateLimited: 'Příliš mnoho pokusů. Chvíli počkejte a zkuste to znovu.',
+                subscribeFailed: 'Tuto adresu se nepodařilo přihlásit k odběru. Zkuste to prosím později.',
+                unavailable: 'Newsletter je teď nedostupný. Zkuste to prosím později.',
+            },
+            suggestion: 'Mysleli jste',
+            honeypotLabel: 'Toto pole nechte prázdné',
+        },
+
+        newsletterConfirm: {
+            title: 'Odběr newsletteru',
+            prompt: 'Ještě jeden krok: potvrďte, že chcete dostávat newsletter Ambilab.',
+            button: 'Potvrdit odběr',
+            confirmed: 'Váš odběr je potvrzen. Děkujeme!',
+            invalid: 'Tento potvrzovací odkaz je neplatný nebo vypršel. Přihlaste se prosím k odběru znovu.',
+            failed: 'Odběr se teď nepodařilo potvrdit. Zkuste prosím odkaz otevřít později.',
+            goHome: 'Zpět domů',
+        },
+
+        newsletterUnsubscribe: {
+            title: 'Odhlášení odběru',
+            prompt: 'Přestat posílat newsletter Ambilab na tuto adresu?',
+            button: 'Odhlásit odběr',
+            unsubscribed: 'Odběr byl zrušen. Mrzí nás, že odcházíte!',
+            invalid: 'Tento odhlašovací odkaz je neplatný. Použijte prosím odkaz z některého z našich e-mailů.',
+            failed: 'Odběr se teď nepodařilo zrušit. Zkuste to prosím později.',
+            goHome: 'Zpět domů',
+        },
+
+        toc: {
+            title: 'Na této stránce',
+            toggle: 'Zobrazit nebo skrýt obsah',
+        },
+
+        search: {
+            open: 'Otevřít vyhledávání',
+            close: 'Zavřít vyhledávání',
+            label: 'Hledat na webu',
+            placeholder: 'Hledat v novinkách a stránkách',
+            searching: 'Hledám...',
+            noResults: 'Nic jsme nenašli.',
+            error: 'Vyhledávání je teď nedostupné. Zkuste to prosím znovu.',
+            typeNews: 'Novinka',
+            typePage: 'Stránka',
         },
 
         cookie: {
@@ -197,6 +434,13 @@ export const translations: Record<Locale, Translations> = {
             button: 'Rozumím',
         },
 
+        localeSuggestion: {
+            message: 'Tato stránka je k dispozici také v češtině.',
+            button: 'Číst česky',
+            dismiss: 'Ne, díky',
+            dismissLabel: 'Zavřít nabídku jazyka',
+        },
+
         news: {
             publishedOn: 'Publikováno',
             updatedOn: 'Aktualizováno',
@@ -207,6 +451,43 @@ export const translations: Record<Locale, Translations> = {
             description: 'Nejnovější články a aktuality z Ambilabu',
             allPosts: 'Všechny příspěvky',
             noPosts: 'Zatím nejsou k dispozici žádné příspěvky.',
+            allTags: 'Všechny štítky',
+            taggedWith: 'Příspěvky se štítkem',
+            tagsDescription: 'Procházejte novinky z Ambilabu podle témat',
+            newerPosts: 'Novější příspěvky',
+            olderPosts: 'Starší příspěvky',
+            relatedPosts: 'Související příspěvky',
+            series: 'Seriál',
+            seriesDescription: 'Všechny díly seriálu v pořadí čtení.',
+            part: 'Díl',
+            previousPart: 'Předchozí díl',
+            nextPart: 'Další díl',
+            page: 'Strana',
+            pageOf: 'z',
+            by: 'Autor',
+            postsBy: 'Příspěvky autora',
+            authorDescription: 'Všechny příspěvky tohoto autora',
+            authorWebsite: 'Web',
+        },
+
+        projects: {
+            title: 'Projekty',
+            description: 'Projekty, které Ambilab vytváří a udržuje',
+            allProjects: 'Všechny projekty',
+            noProjects: 'Zatím nejsou k dispozici žádné projekty.',
+            status: 'Stav',
+            statuses: {
+                active: 'Aktivní',
+                maintained: 'Udržovaný',
+                paused: 'Pozastavený',
+                archived: 'Archivovaný',
+            },
+            techStack: 'Technologie',
+            repository: 'Zdrojový kód',
+            demo: 'Demo',
+            startedOn: 'Zahájeno',
+            updates: 'Aktualizace',
+            updatesFeed: 'Aktualizace projektů',
         },
 
         notFound: {
@@ -229,6 +510,8 @@ export const translations: Record<Locale, Translations> = {
 
         rss: {
             errorMessage: 'Nepodařilo se vygenerovat RSS kanál. Zkuste to prosím později.',
+            feedErrorMessage: 'Nepodařilo se vygenerovat kanál novinek. Zkuste to prosím později.',
+            notFoundMessage: 'Tento kanál neexistuje.',
         },
     },
 };
@@ -1,8 +1,13 @@
 import type { Locale } from '@type/locale';
 
-import { DEFAULT_LOCALE, DOMAIN_LOCALE_MAP, isValidLocale } from './config';
+import { DEFAULT_LOCALE, DOMAIN_LOCALE_MAP, isValidLocale, LOCALE_DOMAINS, LOCALES } from './config';
 
-export const getTranslationLocale = (locale: Locale): Locale => (locale === 'en' ? 'cs' : 'en');
+/**
+ * Lists the locales a page can be translated into, in LOCALES order.
+ */
+export const getTranslationLocales = (locale: Locale): Locale[] => LOCALES.filter((other) => other !== locale);
+
+export const getLocaleDomain = (locale: Locale): string => LOCALE_DOMAINS[locale];
 
 export const detectLocaleFromHostname = (hostname: string): Locale => {
     const key = hostname.toLowerCase().replace(/^www\./, '');
@@ -0,0 +1,71 @@
+/**
+ * Newsletter Configuration
+ *
+ * Reads the newsletter provider and token secret from the environment for the
+ * subscribe, confirm and unsubscribe routes (see src/utils/newsletter-handler.ts),
+ * and picks the store of the subscription rate limits.
+ */
+
+import { ConfigurationError } from '@utils/errors';
+import { createNewsletterProvider } from '@utils/newsletter';
+import type { NewsletterDependencies } from '@utils/newsletter-handler';
+import {
+    createKvRateLimitStore,
+    createMemoryRateLimitStore,
+    type RateLimitKvNamespace,
+    type RateLimitStore,
+} from '@utils/rate-limit';
+import type { APIContext } from 'astro';
+import { getSecret, NEWSLETTER_PROVIDER } from 'astro:env/server';
+
+/**
+ * Name of the optional KV namespace binding shared by all worker isolates.
+ */
+const RATE_LIMIT_BINDING = 'NEWSLETTER_RATE_LIMIT';
+
+// Used without the binding (and so in development), where limits hold per isolate.
+const memoryRateLimitStore = createMemoryRateLimitStore();
+
+function isKvNamespace(value: unknown): value is RateLimitKvNamespace {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        typeof (value as Partial<RateLimitKvNamespace>).get === 'function' &&
+        typeof (value as Partial<RateLimitKvNamespace>).put === 'function'
+    );
+}
+
+/**
+ * Gets the configured newsletter provider and token secret.
+ *
+ * @returns The newsletter dependencies
+ * @throws ConfigurationError when the provider or NEWSLETTER_TOKEN_SECRET is not configured
+ */
+export function getNewsletterDependencies(): NewsletterDependencies {
+    const tokenSecret = getSecret('NEWSLETTER_TOKEN_SECRET');
+
+    if (!tokenSecret) {
+        throw new ConfigurationError('NEWSLETTER_TOKEN_SECRET is not configured', 'NEWSLETTER_TOKEN_SECRET');
+    }
+
+    return {
+        provider: createNewsletterProvider({
+            provider: NEWSLETTER_PROVIDER,
+            buttondownApiKey: getSecret('BUTTONDOWN_API_KEY'),
+        }),
+        tokenSecret,
+    };
+}
+
+/**
+ * Gets the store of the subscription rate limits: the NEWSLETTER_RATE_LIMIT
+ * KV namespace when it is bound (see wrangler.jsonc), otherwise memory.
+ *
+ * @param context - Request context carrying the Cloudflare runtime
+ * @returns The rate limit store
+ */
+export function getNewsletterRateLimitStore({ locals }: APIContext): RateLimitStore {
+    const namespace = locals.runtime?.env[RATE_LIMIT_BINDING];
+
+    return isKvNamespace(namespace) ? createKvRateLimitStore(namespace) : memoryRateLimitStore;
+}
@@ -0,0 +1,42 @@
+/**
+ * Open Graph Image Renderer
+ *
+ * Renders the layout from src/utils/og-image.ts to PNG without a browser:
+ * satori lays out the tree and converts the text to SVG paths using the site's
+ * mono font, and sharp converts the SVG to PNG. Only used by the prerendered
+ * /og/* endpoint, so this runs in Node at build time and never in the worker.
+ */
+
+import { readFile } from 'node:fs/promises';
+
+import {
+    buildOgImageTree,
+    OG_IMAGE_FONT_FAMILY,
+    OG_IMAGE_HEIGHT,
+    OG_IMAGE_WIDTH,
+    type OgImageContent,
+} from '@utils/og-image';
+import satori from 'satori';
+import sharp from 'sharp';
+
+let fontData: Promise<Buffer> | undefined;
+
+/**
+ * Renders an OG image to PNG.
+ *
+ * @param content - Texts shown on the image
+ * @returns PNG bytes, OG_IMAGE_WIDTH x OG_IMAGE_HEIGHT
+ */
+export async function renderOgImage(content: OgImageContent): Promise<Uint8Array<ArrayBuffer>> {
+    // Relative to the project root the build runs in; satori reads OTF/TTF/WOFF but not WOFF2.
+    fontData ??= readFile('public/fonts/DepartureMono-Regular.otf');
+
+    // satori accepts React-like element objects; the tree has exactly that shape.
+    const svg = await satori(buildOgImageTree(content), {
+        width: OG_IMAGE_WIDTH,
+        height: OG_IMAGE_HEIGHT,
+        fonts: [{ name: OG_IMAGE_FONT_FAMILY, data: await fontData, weight: 400, style: 'normal' }],
+    });
+
+    return new Uint8Array(await sharp(Buffer.from(svg)).png().toBuffer());
+}
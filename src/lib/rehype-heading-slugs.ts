@@ -0,0 +1,70 @@
+/**
+ * Rehype Heading Slugs
+ *
+ * Assigns heading IDs with the shared slugger from src/utils/slug.ts before
+ * Astro's own heading pass runs. Astro keeps IDs that are already set, so the
+ * `headings` returned by `entry.render()` (and the table of contents built from
+ * them) use the same transliterated anchors as HeadingLinks on the client.
+ */
+
+import { createSlugger } from '../utils/slug';
+
+interface HastNode {
+    type: string;
+    tagName?: string;
+    value?: unknown;
+    properties?: Record<string, unknown>;
+    children?: HastNode[];
+}
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+// Text-bearing nodes, including MDX expressions such as {frontmatter.title}.
+const TEXT_NODE_TYPES = new Set(['text', 'mdxTextExpression']);
+
+function getText(node: HastNode): string {
+    if (TEXT_NODE_TYPES.has(node.type) && typeof node.value === 'string') {
+        return node.value;
+    }
+
+    return (node.children ?? []).map(getText).join('');
+}
+
+function walk(node: HastNode, visit: (node: HastNode) => void): void {
+    visit(node);
+
+    for (const child of node.children ?? []) {
+        walk(child, visit);
+    }
+}
+
+/**
+ * Rehype plugin that sets `id` on every heading that doesn't have one yet.
+ *
+ * Explicit IDs written in MDX are kept and reserved, so generated slugs never
+ * collide with them.
+ */
+export function rehypeHeadingSlugs() {
+    return (tree: HastNode): void => {
+        const slugger = createSlugger();
+        const headings: HastNode[] = [];
+
+        walk(tree, (node) => {
+            if (node.type === 'element' && node.tagName && HEADING_TAGS.has(node.tagName)) {
+                headings.push(node);
+
+                const id = node.properties?.id;
+
+                if (typeof id === 'string' && id) {
+                    slugger.reserve(id);
+                }
+            }
+        });
+
+        for (const heading of headings) {
+            if (typeof heading.properties?.id !== 'string' || !heading.properties.id) {
+                heading.properties = { ...heading.properties, id: slugger.slug(getText(heading)) };
+            }
+        }
+    };
+}
@@ -0,0 +1,37 @@
+/**
+ * Remark Last Modified
+ *
+ * Records the modification time of each MDX source file as
+ * `lastModified` in the remark plugin frontmatter. The worker has no file
+ * system, so the time is captured when the content is compiled; the sitemap
+ * reads it from the `frontmatter` export of the compiled pages for entries
+ * without an explicit `updatedDate`.
+ */
+
+import { statSync } from 'node:fs';
+
+interface MdxFile {
+    path?: string;
+    data: {
+        astro?: { frontmatter?: Record<string, unknown> };
+    };
+}
+
+/**
+ * Remark plugin that sets `lastModified` (an ISO 8601 string) from the file's mtime.
+ *
+ * Files without a path on disk are left alone.
+ */
+export function remarkLastModified() {
+    return (_tree: unknown, file: MdxFile): void => {
+        const frontmatter = file.data.astro?.frontmatter;
+
+        if (!file.path || !frontmatter) {
+            return;
+        }
+
+        // The path comes from the content compiler, not from a request.
+        // eslint-disable-next-line security/detect-non-literal-fs-filename
+        frontmatter.lastModified = statSync(file.path).mtime.toISOString();
+    };
+}
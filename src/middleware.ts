@@ -2,7 +2,9 @@ import { applySecurityHeaders, generateNonce } from '@config/security';
 import { DEFAULT_LOCALE } from '@i18n/config';
 import { detectLocaleFromHostname, getLocaleFromCookie } from '@i18n/utils';
 import type { Locale } from '@type/locale';
+import { negotiateLocale } from '@utils/accept-language';
 import { createLogger } from '@utils/logger';
+import { NEWSLETTER_ONE_CLICK_UNSUBSCRIBE_PATH } from '@utils/newsletter-handler';
 import { defineMiddleware } from 'astro:middleware';
 
 const logger = createLogger({ prefix: 'Middleware' });
@@ -13,6 +15,31 @@ const ERROR_STATUS_MAP: Record<string, number> = {
     '/503': 503,
 };
 
+// Astro's checkOrigin is off (see astro.config.ts) in favour of isForbiddenCrossSiteForm.
+const FORM_CONTENT_TYPES = ['application/x-www-form-urlencoded', 'multipart/form-data', 'text/plain'];
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// Mail providers send RFC 8058 one-click unsubscribes from their own servers, without our Origin.
+const CROSS_SITE_FORM_PATHS = new Set([NEWSLETTER_ONE_CLICK_UNSUBSCRIBE_PATH]);
+
+/**
+ * Astro's checkOrigin: form submissions (and bodies without a content type)
+ * from other sites are rejected, except on CROSS_SITE_FORM_PATHS.
+ */
+function isForbiddenCrossSiteForm(request: Request, url: URL): boolean {
+    if (SAFE_METHODS.has(request.method) || CROSS_SITE_FORM_PATHS.has(url.pathname.replace(/\/$/, ''))) {
+        return false;
+    }
+
+    if (request.headers.get('Origin') === url.origin) {
+        return false;
+    }
+
+    const contentType = request.headers.get('Content-Type')?.toLowerCase();
+
+    return !contentType || FORM_CONTENT_TYPES.some((type) => contentType.includes(type));
+}
+
 function resolveLocale(request: Request): Locale {
     const cookieHeader = request.headers.get('Cookie') || '';
     const locale = getLocaleFromCookie(cookieHeader);
@@ -26,9 +53,23 @@ function resolveLocale(request: Request): Locale {
     return detectLocaleFromHostname(url.hostname) || DEFAULT_LOCALE;
 }
 
-function createErrorResponse(pathname: string): Response {
-    const status = ERROR_STATUS_MAP[pathname] ?? 500;
-    const response = new Response('Error', { status });
+/**
+ * Locale the browser prefers over the served one, to suggest its translation.
+ *
+ * Visitors who picked a locale (and so have the cookie) get no suggestion.
+ */
+function resolveSuggestedLocale(request: Request, locale: Locale): Locale | undefined {
+    if (getLocaleFromCookie(request.headers.get('Cookie') || '')) {
+        return undefined;
+    }
+
+    const preferredLocale = negotiateLocale(request.headers.get('Accept-Language'));
+
+    return preferredLocale === locale ? undefined : preferredLocale;
+}
+
+function createSecuredResponse(body: string, status: number): Response {
+    const response = new Response(body, { status });
 
     applySecurityHeaders(response.headers, {
         isDev: import.meta.env.DEV,
@@ -37,19 +78,46 @@ function createErrorResponse(pathname: string): Response {
     return response;
 }
 
+function createErrorResponse(pathname: string): Response {
+    const status = ERROR_STATUS_MAP[pathname] ?? 500;
+
+    return createSecuredResponse('Error', status);
+}
+
 function isErrorPage(pathname: string): boolean {
     return pathname in ERROR_STATUS_MAP;
 }
 
 export const onRequest = defineMiddleware(async (context, next) => {
+    // Prerendered routes (/og/* images, search indexes) are static files: no request headers, no per-request locale.
+    if (context.isPrerendered) {
+        return next();
+    }
+
+    if (isForbiddenCrossSiteForm(context.request, context.url)) {
+        return createSecuredResponse(`Cross-site ${context.request.method} form submissions are forbidden`, 403);
+    }
+
     try {
         const nonce = generateNonce();
 
         context.locals.nonce = nonce;
         context.locals.locale = resolveLocale(context.request);
 
+        // Only suggested, never redirected to: crawlers need every URL to serve the same locale.
+        const suggestedLocale = resolveSuggestedLocale(context.request, context.locals.locale);
+
+        if (suggestedLocale) {
+            context.locals.suggestedLocale = suggestedLocale;
+        }
+
         const response = await next();
 
+        // Pages differ by Accept-Language (the suggestion banner), so caches must key on it.
+        if (response.headers.get('Content-Type')?.startsWith('text/html')) {
+            response.headers.append('Vary', 'Accept-Language');
+        }
+
         // CSP uses unsafe-inline for scripts since Astro hydration doesn't support nonces.
         // Nonce is still available in context.locals for inline scripts in templates.
         applySecurityHeaders(response.headers, {
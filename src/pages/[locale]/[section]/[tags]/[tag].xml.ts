@@ -0,0 +1,22 @@
+import { getRoute } from '@config/routes';
+import { isValidLocale, LOCALE_CONFIGS } from '@i18n/config';
+import { generateRssFeed } from '@utils/rss';
+import type { APIContext } from 'astro';
+
+/**
+ * RSS feed of one news tag, e.g. /en/news/tags/announcement.xml.
+ *
+ * The section and tags segments are localized, so they must match the
+ * locale's newsTagRss route (/cs/novinky/stitky/… for Czech).
+ */
+export async function GET(context: APIContext) {
+    const { locale = '', section, tags, tag = '' } = context.params;
+
+    if (!isValidLocale(locale) || `/${locale}/${section}/${tags}` !== getRoute('newsTagRss', locale)) {
+        return new Response(null, { status: 404 });
+    }
+
+    const { name, intl } = LOCALE_CONFIGS[locale];
+
+    return generateRssFeed(context, locale, name, intl, { tag });
+}
@@ -0,0 +1,18 @@
+import { isValidLocale, LOCALE_CONFIGS } from '@i18n/config';
+import { generateAtomFeed } from '@utils/feed';
+import type { APIContext } from 'astro';
+
+/**
+ * News Atom feed of a locale, e.g. /en/news.atom.
+ */
+export async function GET(context: APIContext) {
+    const { locale = '' } = context.params;
+
+    if (!isValidLocale(locale)) {
+        return new Response(null, { status: 404 });
+    }
+
+    const { name, intl } = LOCALE_CONFIGS[locale];
+
+    return generateAtomFeed(context, locale, name, intl);
+}
@@ -0,0 +1,18 @@
+import { isValidLocale, LOCALE_CONFIGS } from '@i18n/config';
+import { generateJsonFeed } from '@utils/feed';
+import type { APIContext } from 'astro';
+
+/**
+ * News JSON Feed of a locale, e.g. /en/news.json.
+ */
+export async function GET(context: APIContext) {
+    const { locale = '' } = context.params;
+
+    if (!isValidLocale(locale)) {
+        return new Response(null, { status: 404 });
+    }
+
+    const { name, intl } = LOCALE_CONFIGS[locale];
+
+    return generateJsonFeed(context, locale, name, intl);
+}
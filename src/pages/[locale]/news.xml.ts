@@ -0,0 +1,18 @@
+import { isValidLocale, LOCALE_CONFIGS } from '@i18n/config';
+import { generateRssFeed } from '@utils/rss';
+import type { APIContext } from 'astro';
+
+/**
+ * News RSS feed of a locale, e.g. /en/news.xml.
+ */
+export async function GET(context: APIContext) {
+    const { locale = '' } = context.params;
+
+    if (!isValidLocale(locale)) {
+        return new Response(null, { status: 404 });
+    }
+
+    const { name, intl } = LOCALE_CONFIGS[locale];
+
+    return generateRssFeed(context, locale, name, intl);
+}
@@ -0,0 +1,42 @@
+import { isValidLocale } from '@i18n/config';
+import { generateSitemapIndexEntries } from '@utils/sitemap';
+import { serializeSitemapIndex } from '@utils/sitemap-serializers';
+import type { APIRoute } from 'astro';
+
+/**
+ * Locale sitemap index endpoint, e.g. /en/sitemap.xml.
+ *
+ * Lists only the child sitemaps of the locale's content, served from its own domain.
+ */
+export const GET: APIRoute = async ({ params }) => {
+    const { locale = '' } = params;
+
+    if (!isValidLocale(locale)) {
+        return new Response(null, { status: 404 });
+    }
+
+    try {
+        const xml = serializeSitemapIndex(await generateSitemapIndexEntries([locale]));
+
+        return new Response(xml, {
+            status: 200,
+            headers: {
+                'Content-Type': 'application/xml; charset=utf-8',
+                'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
+            },
+        });
+    } catch (error) {
+        console.error(`Failed to generate ${locale} sitemap:`, error);
+
+        return new Response(
+            `<?xml version="1.0" encoding="UTF-8"?>
+<error>Failed to generate sitemap</error>`,
+            {
+                status: 500,
+                headers: {
+                    'Content-Type': 'application/xml; charset=utf-8',
+                },
+            },
+        );
+    }
+};
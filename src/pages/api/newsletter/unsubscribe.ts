@@ -0,0 +1,5 @@
+import { getNewsletterDependencies } from '@lib/newsletter';
+import { createNewsletterUnsubscribeHandler } from '@utils/newsletter-handler';
+import type { APIRoute } from 'astro';
+
+export const POST: APIRoute = createNewsletterUnsubscribeHandler(getNewsletterDependencies);
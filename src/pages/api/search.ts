@@ -0,0 +1,46 @@
+import { COMPONENT_CONFIG } from '@config/components';
+import { DEFAULT_LOCALE } from '@i18n/config';
+import { createErrorResponse, ValidationError } from '@utils/errors';
+import { createLogger } from '@utils/logger';
+import { searchIndex } from '@utils/search';
+import { getSearchIndex } from '@utils/search-index';
+import type { APIRoute } from 'astro';
+
+const logger = createLogger({ prefix: 'Search API' });
+
+const { minQueryLength, maxQueryLength, resultLimit } = COMPONENT_CONFIG.search;
+
+const jsonResponse = (data: unknown, status: number) =>
+    Response.json(data, {
+        status,
+        headers: { 'Cache-Control': 'no-store' },
+    });
+
+export const GET: APIRoute = async ({ url, locals }) => {
+    // The raw query is kept for searching: a trailing space turns off prefix matching.
+    const rawQuery = url.searchParams.get('q') ?? '';
+    const query = rawQuery.trim();
+
+    if (query.length > maxQueryLength) {
+        return createErrorResponse(
+            new ValidationError(`Query must be at most ${maxQueryLength} characters`, 'q', 'QUERY_TOO_LONG'),
+        );
+    }
+
+    if (query.length < minQueryLength) {
+        return jsonResponse({ query, results: [] }, 200);
+    }
+
+    try {
+        const locale = locals.locale ?? DEFAULT_LOCALE;
+        const assets = locals.runtime?.env.ASSETS;
+        const index = await getSearchIndex(locale, assets && ((path) => assets.fetch(new URL(path, url).href)));
+        const results = searchIndex(index, rawQuery, { limit: resultLimit });
+
+        return jsonResponse({ query, results }, 200);
+    } catch (error) {
+        logger.error('Search API error', error);
+
+        return createErrorResponse(error);
+    }
+};
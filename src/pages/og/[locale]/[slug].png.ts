@@ -0,0 +1,32 @@
+import { LOCALES } from '@i18n/config';
+import { getLocaleDomain } from '@i18n/utils';
+import { renderOgImage } from '@lib/og-image';
+import { loadLocaleContent, normalizeSlug } from '@utils/content-loader';
+import type { APIRoute, GetStaticPaths, InferGetStaticPropsType } from 'astro';
+
+/**
+ * Open Graph images of pages, generated at build time.
+ */
+export const prerender = true;
+
+export const getStaticPaths = (async () => {
+    const paths = await Promise.all(
+        LOCALES.map(async (locale) => {
+            const { pages } = await loadLocaleContent(locale);
+
+            return pages.map((page) => ({
+                params: { locale, slug: normalizeSlug(page.id) },
+                props: { title: page.data.title, domain: new URL(getLocaleDomain(locale)).hostname },
+            }));
+        }),
+    );
+
+    return paths.flat();
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute<InferGetStaticPropsType<typeof getStaticPaths>> = async ({ props }) => {
+    const { title, domain } = props;
+    const png = await renderOgImage({ title, label: undefined, date: undefined, domain });
+
+    return new Response(png, { headers: { 'Content-Type': 'image/png' } });
+};
@@ -0,0 +1,43 @@
+import { LOCALES } from '@i18n/config';
+import { getTranslation } from '@i18n/translations';
+import { getLocaleDomain } from '@i18n/utils';
+import { renderOgImage } from '@lib/og-image';
+import { loadLocaleContent, normalizeSlug } from '@utils/content-loader';
+import { formatDate } from '@utils/formatDate';
+import { OG_IMAGE_BUILD_TIME } from '@utils/og-image';
+import type { APIRoute, GetStaticPaths, InferGetStaticPropsType } from 'astro';
+
+/**
+ * Open Graph images of published news posts, generated at build time.
+ *
+ * Drafts and scheduled posts get no image, so nothing of an embargoed post is
+ * public. A scheduled post that goes live after the build uses the default
+ * image until the next build (see hasGeneratedNewsOgImage).
+ */
+export const prerender = true;
+
+export const getStaticPaths = (async () => {
+    const paths = await Promise.all(
+        LOCALES.map(async (locale) => {
+            const { newsPosts } = await loadLocaleContent(locale, { clock: () => OG_IMAGE_BUILD_TIME });
+
+            return newsPosts.map((post) => ({
+                params: { locale, slug: normalizeSlug(post.id) },
+                props: {
+                    title: post.data.title,
+                    label: getTranslation(locale).news.title,
+                    date: formatDate(post.data.pubDate, locale),
+                    domain: new URL(getLocaleDomain(locale)).hostname,
+                },
+            }));
+        }),
+    );
+
+    return paths.flat();
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute<InferGetStaticPropsType<typeof getStaticPaths>> = async ({ props }) => {
+    const png = await renderOgImage(props);
+
+    return new Response(png, { headers: { 'Content-Type': 'image/png' } });
+};
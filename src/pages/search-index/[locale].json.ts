@@ -0,0 +1,18 @@
+import { LOCALES } from '@i18n/config';
+import { serializeSearchIndex } from '@utils/search';
+import { buildLocaleSearchIndex } from '@utils/search-index';
+import type { APIRoute, GetStaticPaths, InferGetStaticPropsType } from 'astro';
+
+/**
+ * Search index of each locale, generated at build time and read by /api/search.
+ */
+export const prerender = true;
+
+export const getStaticPaths = (() =>
+    LOCALES.map((locale) => ({ params: { locale }, props: { locale } }))) satisfies GetStaticPaths;
+
+export const GET: APIRoute<InferGetStaticPropsType<typeof getStaticPaths>> = async ({ props }) => {
+    const index = await buildLocaleSearchIndex(props.locale);
+
+    return Response.json(serializeSearchIndex(index));
+};
@@ -1,40 +1,19 @@
-import { generateAllSitemapEntries } from '@utils/sitemap';
+import { LOCALES } from '@i18n/config';
+import { generateSitemapIndexEntries } from '@utils/sitemap';
+import { serializeSitemapIndex } from '@utils/sitemap-serializers';
 import type { APIRoute } from 'astro';
 
 /**
- * Main sitemap endpoint that includes all pages from both locales.
+ * Main sitemap index covering both locales.
  *
- * This generates a comprehensive sitemap.xml that includes:
- * - All pages (English and Czech)
- * - All news posts (English and Czech)
- * - News index pages
- *
- * The sitemap uses the appropriate domain for each locale:
- * - English content: https://ambilab.com
- * - Czech content: https://ambilab.cz
+ * Lists the child sitemaps (pages, news, tags and Google News) of every
+ * locale. Each child sitemap lives on the appropriate domain for its locale:
+ * - English content: https://ambilab.com/sitemaps/en/*.xml
+ * - Czech content: https://ambilab.cz/sitemaps/cs/*.xml
  */
 export const GET: APIRoute = async () => {
     try {
-        const entries = await generateAllSitemapEntries();
-
-        // Sort entries by URL for consistent output
-        entries.sort((a, b) => a.url.localeCompare(b.url));
-
-        // Generate XML
-        const xml = `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-${entries
-    .map((entry) => {
-        const lastmod = entry.lastmod ? `\n    <lastmod>${entry.lastmod.toISOString()}</lastmod>` : '';
-        const changefreq = entry.changefreq ? `\n    <changefreq>${entry.changefreq}</changefreq>` : '';
-        const priority = entry.priority !== undefined ? `\n    <priority>${entry.priority.toFixed(1)}</priority>` : '';
-
-        return `  <url>
-    <loc>${entry.url}</loc>${lastmod}${changefreq}${priority}
-  </url>`;
-    })
-    .join('\n')}
-</urlset>`;
+        const xml = serializeSitemapIndex(await generateSitemapIndexEntries(LOCALES));
 
         return new Response(xml, {
             status: 200,
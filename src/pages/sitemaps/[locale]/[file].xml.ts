@@ -0,0 +1,49 @@
+import { isValidLocale } from '@i18n/config';
+import { generateChildSitemapEntries } from '@utils/sitemap';
+import { parseChildSitemapFile, serializeSitemapUrlset } from '@utils/sitemap-serializers';
+import type { APIRoute } from 'astro';
+
+/**
+ * Child sitemap endpoint listed by the sitemap indexes.
+ *
+ * Serves one type of content of one locale, e.g. /sitemaps/en/news.xml or the
+ * Google News sitemap of recent posts at /sitemaps/en/google-news.xml.
+ * Types past 50,000 URLs continue in numbered chunks (/sitemaps/en/news-2.xml).
+ */
+export const GET: APIRoute = async ({ params }) => {
+    const { locale = '', file = '' } = params;
+    const childFile = parseChildSitemapFile(file);
+
+    if (!isValidLocale(locale) || !childFile) {
+        return new Response(null, { status: 404 });
+    }
+
+    try {
+        const entries = await generateChildSitemapEntries(locale, childFile);
+
+        if (!entries) {
+            return new Response(null, { status: 404 });
+        }
+
+        return new Response(serializeSitemapUrlset(entries), {
+            status: 200,
+            headers: {
+                'Content-Type': 'application/xml; charset=utf-8',
+                'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
+            },
+        });
+    } catch (error) {
+        console.error(`Failed to generate sitemap ${locale}/${file}:`, error);
+
+        return new Response(
+            `<?xml version="1.0" encoding="UTF-8"?>
+<error>Failed to generate sitemap</error>`,
+            {
+                status: 500,
+                headers: {
+                    'Content-Type': 'application/xml; charset=utf-8',
+                },
+            },
+        );
+    }
+};
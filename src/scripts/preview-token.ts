@@ -0,0 +1,99 @@
+#!/usr/bin/env tsx
+
+/**
+ * Draft Preview Token CLI
+ *
+ * Signs and verifies preview tokens for sharing unpublished news posts.
+ * Reads the secret from the PREVIEW_TOKEN_SECRET environment variable.
+ *
+ * Usage:
+ *   pnpm preview:token sign <locale> <slug> [ttlHours]
+ *   pnpm preview:token verify <token>
+ */
+
+import { getRoute } from '../config/routes';
+import { LOCALES } from '../i18n/config';
+import type { Locale } from '../types/locale';
+import {
+    createPreviewTokenPayload,
+    DEFAULT_PREVIEW_TOKEN_TTL_SECONDS,
+    signPreviewToken,
+    verifyPreviewToken,
+} from '../utils/preview-token';
+
+const USAGE = `Usage:
+  pnpm preview:token sign <locale> <slug> [ttlHours]
+  pnpm preview:token verify <token>`;
+
+function isLocale(value: string | undefined): value is Locale {
+    return (LOCALES as readonly (string | undefined)[]).includes(value);
+}
+
+async function sign(secret: string, args: string[]): Promise<number> {
+    const [locale, slug, ttlHours] = args;
+
+    if (!isLocale(locale) || !slug) {
+        console.error(`❌ Expected a locale (${LOCALES.join(', ')}) and a post slug`);
+        console.error(USAGE);
+        return 1;
+    }
+
+    const ttlSeconds = ttlHours ? Number(ttlHours) * 60 * 60 : DEFAULT_PREVIEW_TOKEN_TTL_SECONDS;
+    const payload = createPreviewTokenPayload(locale, slug, ttlSeconds);
+    const token = await signPreviewToken(payload, secret);
+
+    console.log(`Token:   ${token}`);
+    console.log(`Path:    ${getRoute('news', locale)}/${slug}?preview=${token}`);
+    console.log(`Expires: ${new Date(payload.exp * 1000).toISOString()}`);
+    return 0;
+}
+
+async function verify(secret: string, args: string[]): Promise<number> {
+    const [token] = args;
+
+    if (!token) {
+        console.error('❌ Expected a token to verify');
+        console.error(USAGE);
+        return 1;
+    }
+
+    const payload = await verifyPreviewToken(token, secret);
+
+    if (!payload) {
+        console.error('❌ Token is invalid or expired');
+        return 1;
+    }
+
+    console.log(`✅ Token is valid for ${payload.locale}/${payload.slug}`);
+    console.log(`Expires: ${new Date(payload.exp * 1000).toISOString()}`);
+    return 0;
+}
+
+async function main(): Promise<number> {
+    const [command, ...args] = process.argv.slice(2);
+    const secret = process.env.PREVIEW_TOKEN_SECRET;
+
+    if (!secret) {
+        console.error('❌ PREVIEW_TOKEN_SECRET is not set');
+        return 1;
+    }
+
+    if (command === 'sign') {
+        return sign(secret, args);
+    }
+
+    if (command === 'verify') {
+        return verify(secret, args);
+    }
+
+    console.error(USAGE);
+    return 1;
+}
+
+main()
+    .then((code) => process.exit(code))
+    .catch((error: unknown) => {
+        console.error('❌ Preview token command failed:');
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+    });
@@ -0,0 +1,8 @@
+/**
+ * Test stand-in for Astro's virtual `astro:content` module.
+ *
+ * The real module only exists inside Astro's Vite pipeline. Tests that need
+ * collection data should mock `getCollection` with `vi.mock('astro:content')`.
+ */
+
+export const getCollection = async (): Promise<never[]> => [];
@@ -0,0 +1,87 @@
+/**
+ * Typed collection entries for tests.
+ *
+ * Each factory fills in the schema defaults, so a test only spells out the
+ * data it is about. Entries cannot be rendered.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+
+type AuthorData = CollectionEntry<'authors'>['data'];
+type NewsData = CollectionEntry<'news'>['data'];
+type ProjectData = CollectionEntry<'projects'>['data'];
+
+const render = () => Promise.reject(new Error('Test entries cannot be rendered'));
+
+/**
+ * Creates an author entry.
+ *
+ * @param id - Entry ID such as 'jane-doe'
+ * @param data - Frontmatter overriding the defaults
+ * @returns The author entry
+ */
+export function createAuthorEntry(id: string, data: Partial<AuthorData> = {}): CollectionEntry<'authors'> {
+    return {
+        id,
+        collection: 'authors',
+        data: { name: id, bio: {}, ...data },
+    };
+}
+
+/**
+ * Creates a published, untagged English news entry titled after its ID.
+ *
+ * @param id - Entry ID such as 'en/hello-world.mdx'
+ * @param data - Frontmatter overriding the defaults
+ * @returns The news entry
+ */
+export function createNewsEntry(id: string, data: Partial<NewsData> = {}): CollectionEntry<'news'> {
+    return {
+        id,
+        slug: id.replace(/\.mdx?$/, ''),
+        body: '',
+        collection: 'news',
+        render,
+        data: {
+            title: id,
+            description: '',
+            locale: 'en',
+            translations: {},
+            pubDate: new Date('2025-01-01'),
+            tags: [],
+            draft: false,
+            toc: true,
+            ...data,
+        },
+    };
+}
+
+/**
+ * Creates an active, published English project entry titled after its ID.
+ *
+ * @param id - Entry ID such as 'en/blit-tech.mdx'
+ * @param data - Frontmatter overriding the defaults
+ * @returns The project entry
+ */
+export function createProjectEntry(id: string, data: Partial<ProjectData> = {}): CollectionEntry<'projects'> {
+    return {
+        id,
+        slug: id.replace(/\.mdx?$/, ''),
+        body: '',
+        collection: 'projects',
+        render,
+        data: {
+            title: id,
+            description: '',
+            locale: 'en',
+            translations: {},
+            status: 'active',
+            techStack: [],
+            pubDate: new Date('2025-01-01'),
+            updates: [],
+            draft: false,
+            toc: true,
+            ...data,
+        },
+    };
+}
@@ -2,9 +2,18 @@
  * Astro namespace augmentation for project-specific types.
  */
 
-declare namespace App {
-    interface Locals {
-        locale: 'en' | 'cs';
-        nonce: string;
+import type { Runtime } from '@astrojs/cloudflare';
+import type { Locale } from '@type/locale';
+
+declare global {
+    namespace App {
+        // The Cloudflare runtime (bindings, request metadata); absent in prerendered routes.
+        interface Locals extends Partial<Runtime> {
+            locale: Locale;
+
+            /** Locale the browser prefers over `locale`, when it has no locale cookie */
+            suggestedLocale?: Locale;
+            nonce: string;
+        }
     }
 }
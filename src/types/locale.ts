@@ -1,6 +1,14 @@
-export type Locale = 'en' | 'cs';
+import type { LOCALES } from '@i18n/config';
+
+export type Locale = (typeof LOCALES)[number];
 
 export interface LocaleConfig {
     code: Locale;
     name: string;
+
+    /** Canonical origin; every locale is served from its own domain */
+    domain: string;
+
+    /** BCP 47 language tag used for Intl formatting and metadata, e.g. 'en-US' */
+    intl: string;
 }
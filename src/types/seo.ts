@@ -1,8 +1,39 @@
+import type { Locale } from '@type/locale';
+
+export interface IBreadcrumb {
+    name: string;
+
+    /** Site-relative path */
+    path: string;
+}
+
 export interface ISEOMetadata {
     title: string;
     description: string;
     permalink: string;
     ogImage?: string;
+    /** schema.org type of the article (defaults to BlogPosting) */
+    articleType?: 'Article' | 'BlogPosting';
+
     articlePublishedTime?: Date;
     articleModifiedTime?: Date;
+    articleAuthor?: {
+        name: string;
+        url: string;
+    };
+    articleTags?: string[];
+    prevPath?: string;
+    nextPath?: string;
+    noindex?: boolean;
+
+    /** Trail below the home page, ending with the current page */
+    breadcrumbs?: IBreadcrumb[];
+
+    /** Paths of the same content in the other locales, for hreflang alternates */
+    alternatePaths?: Partial<Record<Locale, string>>;
+
+    alternateFeed?: {
+        href: string;
+        title: string;
+    };
 }
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+
+import { negotiateLocale, parseAcceptLanguage } from './accept-language';
+
+describe('parseAcceptLanguage', () => {
+    it('should order ranges by quality and keep header order for ties', () => {
+        expect(parseAcceptLanguage('de;q=0.5, cs-CZ, en;q=0.8, fr')).toEqual([
+            { range: 'cs-cz', quality: 1 },
+            { range: 'fr', quality: 1 },
+            { range: 'en', quality: 0.8 },
+            { range: 'de', quality: 0.5 },
+        ]);
+    });
+
+    it('should drop unacceptable and malformed ranges', () => {
+        expect(parseAcceptLanguage('cs;q=0, en;q=1.5, de;q=abc, fr;Q=0.3, , it;q=0.123')).toEqual([
+            { range: 'fr', quality: 0.3 },
+            { range: 'it', quality: 0.123 },
+        ]);
+    });
+
+    it('should return no preferences for an empty header', () => {
+        expect(parseAcceptLanguage('')).toEqual([]);
+    });
+});
+
+describe('negotiateLocale', () => {
+    it('should match regional variants by their primary subtag', () => {
+        expect(negotiateLocale('cs-CZ,cs;q=0.9,en;q=0.8')).toBe('cs');
+        expect(negotiateLocale('en-GB')).toBe('en');
+    });
+
+    it('should honour quality values over header order', () => {
+        expect(negotiateLocale('en;q=0.4, cs;q=0.9')).toBe('cs');
+    });
+
+    it('should skip unsupported languages and the wildcard', () => {
+        expect(negotiateLocale('de-DE, *;q=0.9, cs;q=0.5')).toBe('cs');
+        expect(negotiateLocale('de, *')).toBeUndefined();
+    });
+
+    it('should not match languages that only start like a locale', () => {
+        expect(negotiateLocale('ces, eng')).toBeUndefined();
+    });
+
+    it('should return undefined without a header', () => {
+        expect(negotiateLocale(null)).toBeUndefined();
+        expect(negotiateLocale(undefined)).toBeUndefined();
+    });
+});
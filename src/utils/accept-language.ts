@@ -0,0 +1,95 @@
+/**
+ * Accept-Language Negotiation
+ *
+ * Parses the Accept-Language request header (RFC 9110, section 12.5.4) and
+ * picks the supported locale the browser prefers most. The result is only
+ * used to suggest a translation; it never decides which locale is served.
+ */
+
+import { LOCALES } from '@i18n/config';
+import type { Locale } from '@type/locale';
+
+// #region Type Definitions
+
+/**
+ * A language range with its quality value.
+ */
+export interface LanguagePreference {
+    /** Lowercased language range, e.g. 'cs-cz' or '*' */
+    range: string;
+
+    /** Quality value between 0 and 1 */
+    quality: number;
+}
+
+// #endregion
+
+// #region Helper Functions
+
+// Quality value: 0 to 1 with up to three decimals, e.g. '1', '0.8' or '0.125'
+const QUALITY_PATTERN = /^[01]\.?\d{0,3}$/;
+
+function parseQuality(parameters: string[]): number | undefined {
+    const quality = parameters.find((parameter) => parameter.toLowerCase().startsWith('q='));
+
+    if (quality === undefined) {
+        return 1;
+    }
+
+    const value = quality.slice(2);
+    const number = Number(value);
+
+    return QUALITY_PATTERN.test(value) && number <= 1 ? number : undefined;
+}
+
+// #endregion
+
+// #region Main Exports
+
+/**
+ * Parses an Accept-Language header.
+ *
+ * Ranges with a malformed quality value or q=0 ("not acceptable") are dropped.
+ *
+ * @param header - Value of the Accept-Language header
+ * @returns Preferences ordered by quality, ties in header order
+ *
+ * @example
+ * parseAcceptLanguage('en-US,cs;q=0.9')
+ * // [{ range: 'en-us', quality: 1 }, { range: 'cs', quality: 0.9 }]
+ */
+export function parseAcceptLanguage(header: string): LanguagePreference[] {
+    return header
+        .split(',')
+        .flatMap((item) => {
+            const [range = '', ...parameters] = item.split(';').map((part) => part.trim());
+            const quality = parseQuality(parameters);
+
+            return range && quality ? [{ range: range.toLowerCase(), quality }] : [];
+        })
+        .sort((a, b) => b.quality - a.quality);
+}
+
+/**
+ * Picks the supported locale the browser prefers most.
+ *
+ * A range matches a locale by its primary subtag, so 'cs-CZ' matches 'cs'.
+ * The wildcard expresses no preference and is skipped.
+ *
+ * @param header - Value of the Accept-Language header, if sent
+ * @returns The preferred locale, or undefined when no supported locale is accepted
+ */
+export function negotiateLocale(header: string | null | undefined): Locale | undefined {
+    for (const { range } of parseAcceptLanguage(header ?? '')) {
+        const [primary = ''] = range.split('-');
+        const locale = LOCALES.find((candidate) => candidate === primary);
+
+        if (locale) {
+            return locale;
+        }
+    }
+
+    return undefined;
+}
+
+// #endregion
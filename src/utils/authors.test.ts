@@ -0,0 +1,59 @@
+import type { CollectionEntry } from 'astro:content';
+import { describe, expect, it } from 'vitest';
+
+import { createAuthorEntry, createNewsEntry } from '../test/content-entries';
+import { getAuthorInitials, getAuthorLink, getAuthorPosts, getPostAuthor } from './authors';
+
+function createPost(id: string, pubDate: string, authorId?: string): CollectionEntry<'news'> {
+    return createNewsEntry(id, {
+        pubDate: new Date(pubDate),
+        ...(authorId ? { author: { collection: 'authors', id: authorId } } : {}),
+    });
+}
+
+const authorMap = new Map([['jane-doe', createAuthorEntry('jane-doe', { name: 'Jane Doe' })]]);
+
+describe('getAuthorLink', () => {
+    it('should build localized author archive paths', () => {
+        expect(getAuthorLink('jane-doe', 'en')).toBe('/news/authors/jane-doe');
+        expect(getAuthorLink('jane-doe', 'cs')).toBe('/novinky/autori/jane-doe');
+    });
+});
+
+describe('getPostAuthor', () => {
+    it('should resolve the referenced author', () => {
+        expect(getPostAuthor(createPost('cs/post.mdx', '2025-01-01', 'jane-doe'), authorMap, 'cs')).toEqual({
+            id: 'jane-doe',
+            name: 'Jane Doe',
+            url: '/novinky/autori/jane-doe',
+        });
+    });
+
+    it('should fall back to the site author for posts without a known author', () => {
+        const fallback = { id: undefined, name: 'Ambilab', url: 'https://ambilab.com' };
+
+        expect(getPostAuthor(createPost('en/post.mdx', '2025-01-01'), authorMap, 'en')).toEqual(fallback);
+        expect(getPostAuthor(createPost('en/post.mdx', '2025-01-01', 'ghost'), authorMap, 'en')).toEqual(fallback);
+    });
+});
+
+describe('getAuthorPosts', () => {
+    it('should list only the author posts, newest first', () => {
+        const posts = [
+            createPost('en/old.mdx', '2025-01-01', 'jane-doe'),
+            createPost('en/other.mdx', '2025-02-01', 'john-roe'),
+            createPost('en/anonymous.mdx', '2025-02-15'),
+            createPost('en/new.mdx', '2025-03-01', 'jane-doe'),
+        ];
+
+        expect(getAuthorPosts('jane-doe', posts).map((post) => post.id)).toEqual(['en/new.mdx', 'en/old.mdx']);
+    });
+});
+
+describe('getAuthorInitials', () => {
+    it('should use the first letters of up to two words', () => {
+        expect(getAuthorInitials('Jane Doe')).toBe('JD');
+        expect(getAuthorInitials('  jane  mary  doe ')).toBe('JM');
+        expect(getAuthorInitials('Ambilab')).toBe('A');
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * Author Utilities
+ *
+ * Resolves the `author` reference of news posts against the authors data
+ * collection and builds the localized per-author archive links. Authors are
+ * shared by all locales; only their archive route and bio are localized.
+ */
+
+import { getRoute } from '@config/routes';
+import { SITE } from '@config/site';
+import type { Locale } from '@type/locale';
+import type { CollectionEntry } from 'astro:content';
+
+import { sortNewsPostsByDate } from './content-loader';
+
+/**
+ * Author details used in bylines, feeds and structured data.
+ */
+export interface PostAuthor {
+    /** Author ID, or undefined for the site-wide fallback author */
+    id: string | undefined;
+
+    name: string;
+
+    /** Site-relative archive path, or the site URL for the fallback author */
+    url: string;
+}
+
+/**
+ * Builds the archive path for an author in the given locale.
+ *
+ * @param authorId - Author ID (the data file name)
+ * @param locale - The locale of the archive
+ * @returns Path such as '/news/authors/ambilab-team'
+ */
+export function getAuthorLink(authorId: string, locale: Locale): string {
+    return `${getRoute('newsAuthors', locale)}/${authorId}`;
+}
+
+/**
+ * Looks up the author entry referenced by a news post.
+ *
+ * @param post - The news post
+ * @param authorMap - Authors keyed by ID (usually LocaleContent.authorMap)
+ * @returns The author entry, or undefined when the post names no (known) author
+ */
+export function findPostAuthor(
+    post: CollectionEntry<'news'>,
+    authorMap: Map<string, CollectionEntry<'authors'>>,
+): CollectionEntry<'authors'> | undefined {
+    const authorId: string | undefined = post.data.author?.id;
+
+    return authorId ? authorMap.get(authorId) : undefined;
+}
+
+/**
+ * Returns the author details of a post, falling back to the site author.
+ *
+ * @param post - The news post
+ * @param authorMap - Authors keyed by ID (usually LocaleContent.authorMap)
+ * @param locale - The locale used for the archive link
+ * @returns Name and link of the post's author
+ */
+export function getPostAuthor(
+    post: CollectionEntry<'news'>,
+    authorMap: Map<string, CollectionEntry<'authors'>>,
+    locale: Locale,
+): PostAuthor {
+    const author = findPostAuthor(post, authorMap);
+
+    if (!author) {
+        return { id: undefined, name: SITE.AUTHOR, url: SITE.URL };
+    }
+
+    return { id: author.id, name: author.data.name, url: getAuthorLink(author.id, locale) };
+}
+
+/**
+ * Lists the posts written by an author.
+ *
+ * @param authorId - Author ID
+ * @param posts - News posts of a single locale
+ * @returns The author's posts, newest first
+ */
+export function getAuthorPosts(authorId: string, posts: CollectionEntry<'news'>[]): CollectionEntry<'news'>[] {
+    return sortNewsPostsByDate(posts.filter((post) => post.data.author?.id === authorId));
+}
+
+/**
+ * Returns up to two initials for an avatar placeholder.
+ *
+ * @param name - The author's display name
+ * @returns Uppercase initials, e.g. 'AT' for 'Ambilab Team'
+ */
+export function getAuthorInitials(name: string): string {
+    return name
+        .split(/\s+/)
+        .filter(Boolean)
+        .slice(0, 2)
+        .map((word) => word.charAt(0).toUpperCase())
+        .join('');
+}
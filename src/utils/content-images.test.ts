@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+
+import { extractContentImages } from './content-images';
+
+const baseUrl = 'https://ambilab.com/news/hello-world';
+
+describe('extractContentImages', () => {
+    it('should find Markdown images and resolve site-root paths', () => {
+        expect(extractContentImages('Intro\n\n![Board](/images/board.jpg "The board")\n', baseUrl)).toEqual([
+            'https://ambilab.com/images/board.jpg',
+        ]);
+    });
+
+    it('should keep absolute image URLs', () => {
+        expect(extractContentImages('![Logo](https://cdn.example.com/logo.png)', baseUrl)).toEqual([
+            'https://cdn.example.com/logo.png',
+        ]);
+    });
+
+    it('should find img tags written as raw HTML', () => {
+        expect(
+            extractContentImages(
+                '<img src="/images/a.png" alt="A" />\n\n<p><img alt="B" src=\'/images/b.png\'></p>',
+                baseUrl,
+            ),
+        ).toEqual(['https://ambilab.com/images/a.png', 'https://ambilab.com/images/b.png']);
+    });
+
+    it('should skip relative paths and protocol-relative URLs', () => {
+        expect(
+            extractContentImages(
+                '![Local](./diagram.png)\n\n![Other](//cdn.example.com/x.png)\n\n![Data](data:image/png;base64,AAAA)',
+                baseUrl,
+            ),
+        ).toEqual([]);
+    });
+
+    it('should list each image once in order of appearance', () => {
+        expect(extractContentImages('![B](/b.png)\n\n![A](/a.png)\n\n![B again](/b.png)', baseUrl)).toEqual([
+            'https://ambilab.com/b.png',
+            'https://ambilab.com/a.png',
+        ]);
+    });
+
+    it('should ignore images inside code', () => {
+        expect(
+            extractContentImages('```md\n![Example](/example.png)\n```\n\n`![inline](/inline.png)`', baseUrl),
+        ).toEqual([]);
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * Content Images
+ *
+ * Finds the images a post or page body embeds, for the image sitemap.
+ *
+ * The body is parsed as plain Markdown (like feed-content.ts does), so both
+ * Markdown images and `<img>` tags written as raw HTML/JSX are found. Relative
+ * paths point at files Astro fingerprints during the build, whose final URLs
+ * are unknown here, so only absolute URLs and site-root paths are kept.
+ */
+
+import remarkGfm from 'remark-gfm';
+import remarkParse from 'remark-parse';
+import { unified } from 'unified';
+
+interface MarkdownNode {
+    type: string;
+    url?: string;
+    value?: string;
+    children?: MarkdownNode[];
+}
+
+const IMG_SRC_PATTERN = /<img\s[^>]*?src=["']([^"']+)["']/gi;
+
+const processor = unified().use(remarkParse).use(remarkGfm);
+
+function collectSources(node: MarkdownNode, sources: string[]): void {
+    if (node.type === 'image' && node.url) {
+        sources.push(node.url);
+    }
+
+    if (node.type === 'html' && node.value) {
+        for (const match of node.value.matchAll(IMG_SRC_PATTERN)) {
+            if (match[1]) {
+                sources.push(match[1]);
+            }
+        }
+    }
+
+    for (const child of node.children ?? []) {
+        collectSources(child, sources);
+    }
+}
+
+function isResolvable(source: string): boolean {
+    return /^https?:\/\//i.test(source) || (source.startsWith('/') && !source.startsWith('//'));
+}
+
+/**
+ * Lists the images embedded in a Markdown/MDX body.
+ *
+ * @param body - Raw body of the entry (without frontmatter)
+ * @param baseUrl - Absolute URL of the entry, used to resolve site-root paths
+ * @returns Unique absolute image URLs in order of appearance
+ *
+ * @example
+ * extractContentImages('![Board](/images/board.jpg)', 'https://ambilab.com/news/hello')
+ * // ['https://ambilab.com/images/board.jpg']
+ */
+export function extractContentImages(body: string, baseUrl: string): string[] {
+    const sources: string[] = [];
+
+    collectSources(processor.parse(body) as MarkdownNode, sources);
+
+    return [...new Set(sources.filter(isResolvable).map((source) => new URL(source, baseUrl).href))];
+}
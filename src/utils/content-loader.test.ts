@@ -0,0 +1,97 @@
+import type { CollectionEntry } from 'astro:content';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createNewsEntry } from '../test/content-entries';
+import { isNewsPostPublished, loadLocaleContent } from './content-loader';
+
+const collections = vi.hoisted(() => ({
+    news: [] as unknown[],
+    pages: [] as unknown[],
+    projects: [] as unknown[],
+    authors: [] as unknown[],
+}));
+
+vi.mock('astro:content', () => ({
+    getCollection: async (
+        name: 'news' | 'pages' | 'projects' | 'authors',
+        filter: (entry: unknown) => boolean = () => true,
+    ) => collections[name].filter(filter),
+}));
+
+function createPost(id: string, pubDate: string, draft = false): CollectionEntry<'news'> {
+    return createNewsEntry(id, { pubDate: new Date(pubDate), draft });
+}
+
+const now = new Date('2025-06-01T12:00:00Z');
+
+describe('isNewsPostPublished', () => {
+    it('should publish posts dated in the past or exactly now', () => {
+        expect(isNewsPostPublished(createPost('en/past.mdx', '2025-05-01'), now)).toBe(true);
+        expect(isNewsPostPublished(createPost('en/now.mdx', '2025-06-01T12:00:00Z'), now)).toBe(true);
+    });
+
+    it('should embargo posts dated in the future', () => {
+        expect(isNewsPostPublished(createPost('en/future.mdx', '2025-06-02'), now)).toBe(false);
+    });
+
+    it('should include scheduled posts when previewing', () => {
+        expect(isNewsPostPublished(createPost('en/future.mdx', '2025-06-02'), now, { includeScheduled: true })).toBe(
+            true,
+        );
+    });
+
+    it('should hide drafts unless drafts are explicitly included', () => {
+        const draft = createPost('en/draft.mdx', '2025-05-01', true);
+
+        expect(isNewsPostPublished(draft, now)).toBe(false);
+        expect(isNewsPostPublished(draft, now, { includeScheduled: true })).toBe(false);
+        expect(isNewsPostPublished(draft, now, { includeDrafts: true })).toBe(true);
+    });
+});
+
+describe('loadLocaleContent', () => {
+    beforeEach(() => {
+        collections.news = [createPost('en/past.mdx', '2025-05-01'), createPost('en/future.mdx', '2025-07-01')];
+        collections.pages = [];
+        collections.projects = [
+            { id: 'en/engine.mdx', data: { locale: 'en', draft: false } },
+            { id: 'en/secret.mdx', data: { locale: 'en', draft: true } },
+            { id: 'cs/engine.mdx', data: { locale: 'cs', draft: false } },
+        ];
+        collections.authors = [{ id: 'jane-doe', data: { name: 'Jane Doe', bio: {} } }];
+    });
+
+    it('should hide scheduled posts until the injected clock passes their pubDate', async () => {
+        const before = await loadLocaleContent('en', { clock: () => now, includeScheduled: false });
+
+        expect(before.newsPosts.map((post) => post.id)).toEqual(['en/past.mdx']);
+        expect(before.newsPostMap.has('future')).toBe(false);
+
+        const after = await loadLocaleContent('en', {
+            clock: () => new Date('2025-07-01T00:00:00Z'),
+            includeScheduled: false,
+        });
+
+        expect(after.newsPostMap.has('future')).toBe(true);
+    });
+
+    it('should include scheduled posts in preview mode', async () => {
+        const content = await loadLocaleContent('en', { clock: () => now, includeScheduled: true });
+
+        expect(content.newsPosts).toHaveLength(2);
+    });
+
+    it('should load non-draft projects of the locale', async () => {
+        const content = await loadLocaleContent('en', { clock: () => now });
+
+        expect(content.projects.map((project) => project.id)).toEqual(['en/engine.mdx']);
+        expect(content.projectMap.has('engine')).toBe(true);
+        expect(content.projectMap.has('secret')).toBe(false);
+    });
+
+    it('should index authors by ID', async () => {
+        const content = await loadLocaleContent('en', { clock: () => now });
+
+        expect(content.authorMap.get('jane-doe')?.data.name).toBe('Jane Doe');
+    });
+});
@@ -1,7 +1,7 @@
 /**
  * Content Collection Loader
  *
- * Optimized content loading utilities for news posts and pages.
+ * Optimized content loading utilities for news posts, pages, projects, and authors.
  *
  * This module provides O(1) lookup performance via indexed Maps and eliminates
  * duplicate collection fetching by loading all content once in parallel.
@@ -21,21 +21,60 @@ const logger = createLogger({ prefix: 'ContentLoader' });
  */
 export type NormalizedSlug = string;
 
+/**
+ * Source of the current time.
+ * Injected into content loading so scheduled publishing can be tested deterministically.
+ */
+export type Clock = () => Date;
+
+/**
+ * Default clock backed by the system time.
+ */
+const systemClock: Clock = () => new Date();
+
+/**
+ * Which unpublished news posts should be treated as visible.
+ */
+export interface NewsPostVisibility {
+    /** Include posts scheduled in the future */
+    includeScheduled?: boolean;
+
+    /** Include posts marked as drafts */
+    includeDrafts?: boolean;
+}
+
+/**
+ * Options for loading locale content.
+ */
+export interface LoadLocaleContentOptions extends NewsPostVisibility {
+    /** Clock used to decide whether a post's pubDate has passed (defaults to the system clock) */
+    clock?: Clock;
+}
+
 /**
  * Parallel-fetched content collections for a specific locale.
  */
 export interface LocaleContent {
-    /** All news posts (excluding drafts) for the locale */
+    /** All published news posts (excluding drafts and scheduled posts) for the locale */
     newsPosts: CollectionEntry<'news'>[];
 
     /** All pages for the locale */
     pages: CollectionEntry<'pages'>[];
 
+    /** All non-draft projects for the locale */
+    projects: CollectionEntry<'projects'>[];
+
     /** News post lookup map (slug -> entry) for O(1) access */
     newsPostMap: Map<NormalizedSlug, CollectionEntry<'news'>>;
 
     /** Page lookup map (slug -> entry) for O(1) access */
     pageMap: Map<NormalizedSlug, CollectionEntry<'pages'>>;
+
+    /** Project lookup map (slug -> entry) for O(1) access */
+    projectMap: Map<NormalizedSlug, CollectionEntry<'projects'>>;
+
+    /** Author lookup map (author ID -> entry); authors are shared by all locales */
+    authorMap: Map<string, CollectionEntry<'authors'>>;
 }
 
 /**
@@ -61,58 +100,123 @@ export function normalizeSlug(entryId: string): NormalizedSlug {
  * @param entries - Array of content entries to index
  * @returns Map with normalized slugs as keys and entries as values
  */
-function createEntryMap<T extends 'news' | 'pages'>(
-    entries: CollectionEntry<T>[],
-): Map<NormalizedSlug, CollectionEntry<T>> {
+function createEntryMap<Entry extends { id: string }>(entries: Entry[]): Map<NormalizedSlug, Entry> {
     return new Map(entries.map((entry) => [normalizeSlug(entry.id), entry]));
 }
 
+/**
+ * Checks whether future-dated posts should be previewed.
+ *
+ * Only honored in dev mode, so a stray PREVIEW_SCHEDULED_POSTS in production
+ * can never leak embargoed posts.
+ *
+ * @returns True when scheduled posts should be visible
+ */
+function shouldPreviewScheduledPosts(): boolean {
+    return import.meta.env.DEV === true && import.meta.env.PREVIEW_SCHEDULED_POSTS === 'true';
+}
+
+/**
+ * Checks whether a news post is publicly visible at the given time.
+ *
+ * A post is published when it is not a draft and its pubDate is not in the future.
+ *
+ * @param entry - The news post entry to check
+ * @param now - The current time
+ * @param visibility - Unpublished post types to treat as visible (preview modes)
+ * @returns True if the post should be visible
+ *
+ * @example
+ * isNewsPostPublished(post, new Date('2025-01-01')) // false for a post dated 2025-02-01
+ */
+export function isNewsPostPublished(
+    entry: CollectionEntry<'news'>,
+    now: Date,
+    visibility: NewsPostVisibility = {},
+): boolean {
+    if (entry.data.draft && !visibility.includeDrafts) {
+        return false;
+    }
+
+    return visibility.includeScheduled === true || entry.data.pubDate.getTime() <= now.getTime();
+}
+
 /**
  * Fetches all content collections for a locale in parallel.
  *
  * This is the primary optimization: instead of fetching collections
- * multiple times per request, we fetch both news posts and pages once
+ * multiple times per request, we fetch news posts, pages, projects, and authors once
  * in parallel and create indexed Maps for fast lookups.
  *
+ * News posts with a future pubDate are embargoed until their time passes,
+ * so they stay out of every consumer (index, feeds, sitemap, direct URLs).
+ *
  * @param locale - The locale to fetch content for
+ * @param options - Clock and draft/scheduled post preview overrides
  * @returns Object containing all content and indexed lookup Maps
  *
  * @example
  * const content = await loadLocaleContent('en');
  * const post = content.newsPostMap.get('hello-world'); // O(1) lookup
  */
-export async function loadLocaleContent(locale: Locale): Promise<LocaleContent> {
+export async function loadLocaleContent(
+    locale: Locale,
+    options: LoadLocaleContentOptions = {},
+): Promise<LocaleContent> {
     logger.info(`Loading content collections for locale: ${locale}`);
 
     const startTime = performance.now();
+    const now = (options.clock ?? systemClock)();
+    const visibility: NewsPostVisibility = {
+        includeScheduled: options.includeScheduled ?? shouldPreviewScheduledPosts(),
+        includeDrafts: options.includeDrafts ?? false,
+    };
 
     try {
-        // Fetch both collections in parallel (major optimization)
-        const [newsPosts, pages] = await Promise.all([
+        // Fetch all collections in parallel (major optimization)
+        const [newsPosts, pages, projects, authors] = await Promise.all([
             getCollection(
                 'news',
-                (entry: CollectionEntry<'news'>) => !entry.data.draft && entry.data.locale === locale,
+                (entry: CollectionEntry<'news'>) =>
+                    entry.data.locale === locale && isNewsPostPublished(entry, now, visibility),
             ),
             getCollection('pages', (entry: CollectionEntry<'pages'>) => entry.data.locale === locale),
+            getCollection(
+                'projects',
+                (entry: CollectionEntry<'projects'>) =>
+                    entry.data.locale === locale && (!entry.data.draft || visibility.includeDrafts === true),
+            ),
+            getCollection('authors'),
         ]);
 
         // Create indexed Maps for O(1) lookups
         const newsPostMap = createEntryMap(newsPosts);
         const pageMap = createEntryMap(pages);
+        const projectMap = createEntryMap(projects);
+        const authorMap = new Map<string, CollectionEntry<'authors'>>(
+            authors.map((author: CollectionEntry<'authors'>) => [author.id, author]),
+        );
 
         const duration = performance.now() - startTime;
 
-        logger.info(`Loaded ${newsPosts.length} news posts and ${pages.length} pages in ${duration.toFixed(2)}ms`, {
-            locale,
-            newsPostCount: newsPosts.length,
-            pageCount: pages.length,
-        });
+        logger.info(
+            `Loaded ${newsPosts.length} news posts, ${pages.length} pages and ${projects.length} projects in ${duration.toFixed(2)}ms`,
+            {
+                locale,
+                newsPostCount: newsPosts.length,
+                pageCount: pages.length,
+                projectCount: projects.length,
+            },
+        );
 
         return {
             newsPosts,
             pages,
+            projects,
             newsPostMap,
             pageMap,
+            projectMap,
+            authorMap,
         };
     } catch (error) {
         logger.error(`Failed to load content for locale: ${locale}`, error);
@@ -142,6 +246,17 @@ export function findPage(slug: NormalizedSlug, content: LocaleContent): Collecti
     return content.pageMap.get(slug);
 }
 
+/**
+ * Finds a project by slug using O(1) Map lookup.
+ *
+ * @param slug - The normalized slug to search for
+ * @param content - Pre-loaded locale content with indexed maps
+ * @returns The project entry or undefined if not found
+ */
+export function findProject(slug: NormalizedSlug, content: LocaleContent): CollectionEntry<'projects'> | undefined {
+    return content.projectMap.get(slug);
+}
+
 /**
  * Sorts news posts by publication date (newest first).
  *
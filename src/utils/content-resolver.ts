@@ -1,21 +1,89 @@
-import { getRoute } from '@config/routes';
-import { getTranslationLocale } from '@i18n/utils';
+import { COMPONENT_CONFIG } from '@config/components';
+import { getRoute, PAGE_SLUGS } from '@config/routes';
+import { getTranslationLocales } from '@i18n/utils';
 import type { Locale } from '@type/locale';
-import { findNewsPost, findPage, loadLocaleContent, normalizeSlug, sortNewsPostsByDate } from '@utils/content-loader';
+import { findPostAuthor, getAuthorLink, getAuthorPosts } from '@utils/authors';
+import {
+    findNewsPost,
+    findPage,
+    findProject,
+    loadLocaleContent,
+    type LocaleContent,
+    normalizeSlug,
+    sortNewsPostsByDate,
+} from '@utils/content-loader';
+import { findTranslatedEntry, type LocalizedPaths, type TranslatableEntry } from '@utils/hreflang';
 import { createLogger } from '@utils/logger';
+import { collectNewsSeries, getNewsSeriesLink, type NewsSeries } from '@utils/news-series';
+import { collectNewsTags, type NewsTag } from '@utils/news-tags';
+import { getNewsIndexPagePath, paginate } from '@utils/pagination';
+import { sortProjects } from '@utils/projects';
 import type { ParsedRoute } from '@utils/route-parser';
+import { buildTableOfContents, type TableOfContentsItem } from '@utils/table-of-contents';
 import type { CollectionEntry } from 'astro:content';
 
 const logger = createLogger({ prefix: 'ContentResolver' });
 
-type RenderedContent<T extends 'news' | 'pages'> = Awaited<ReturnType<CollectionEntry<T>['render']>>['Content'];
+type RenderedContent<T extends 'news' | 'pages' | 'projects'> = Awaited<
+    ReturnType<CollectionEntry<T>['render']>
+>['Content'];
+
+export interface NewsIndexPagination {
+    currentPage: number;
+    totalPages: number;
+    prevPath: string | undefined;
+    nextPath: string | undefined;
+}
 
 export interface NewsIndexContent {
     type: 'news-index';
     locale: Locale;
     permalink: string;
-    translationPath: string;
+    translationPaths: LocalizedPaths;
+    alternatePaths: LocalizedPaths;
     sortedNewsPosts: CollectionEntry<'news'>[];
+    pagination: NewsIndexPagination;
+    content: Awaited<ReturnType<typeof loadLocaleContent>>;
+}
+
+export interface NewsTagIndexContent {
+    type: 'news-tag-index';
+    locale: Locale;
+    permalink: string;
+    translationPaths: LocalizedPaths;
+    alternatePaths: LocalizedPaths;
+    tags: NewsTag[];
+    content: Awaited<ReturnType<typeof loadLocaleContent>>;
+}
+
+export interface NewsTagContent {
+    type: 'news-tag';
+    locale: Locale;
+    permalink: string;
+    translationPaths: LocalizedPaths;
+    alternatePaths: LocalizedPaths;
+    tag: NewsTag;
+    content: Awaited<ReturnType<typeof loadLocaleContent>>;
+}
+
+export interface NewsSeriesContent {
+    type: 'news-series';
+    locale: Locale;
+    permalink: string;
+    translationPaths: LocalizedPaths;
+    alternatePaths: LocalizedPaths;
+    series: NewsSeries;
+    content: Awaited<ReturnType<typeof loadLocaleContent>>;
+}
+
+export interface NewsAuthorContent {
+    type: 'news-author';
+    locale: Locale;
+    permalink: string;
+    translationPaths: LocalizedPaths;
+    alternatePaths: LocalizedPaths;
+    author: CollectionEntry<'authors'>;
+    posts: CollectionEntry<'news'>[];
     content: Awaited<ReturnType<typeof loadLocaleContent>>;
 }
 
@@ -23,9 +91,38 @@ export interface NewsPostContent {
     type: 'news-post';
     locale: Locale;
     permalink: string;
-    translationPath: string | undefined;
+    translationPaths: LocalizedPaths;
+    alternatePaths: LocalizedPaths;
     entry: CollectionEntry<'news'>;
+    author: CollectionEntry<'authors'> | undefined;
     Content: RenderedContent<'news'>;
+    tableOfContents: TableOfContentsItem[];
+    content: Awaited<ReturnType<typeof loadLocaleContent>>;
+}
+
+export interface ProjectIndexContent {
+    type: 'project-index';
+    locale: Locale;
+    permalink: string;
+    translationPaths: LocalizedPaths;
+    alternatePaths: LocalizedPaths;
+
+    /** Intro page rendered above the list (the pages entry at PAGE_SLUGS.projects) */
+    intro: { entry: CollectionEntry<'pages'>; Content: RenderedContent<'pages'> } | undefined;
+
+    projects: CollectionEntry<'projects'>[];
+    content: Awaited<ReturnType<typeof loadLocaleContent>>;
+}
+
+export interface ProjectContent {
+    type: 'project';
+    locale: Locale;
+    permalink: string;
+    translationPaths: LocalizedPaths;
+    alternatePaths: LocalizedPaths;
+    entry: CollectionEntry<'projects'>;
+    Content: RenderedContent<'projects'>;
+    tableOfContents: TableOfContentsItem[];
     content: Awaited<ReturnType<typeof loadLocaleContent>>;
 }
 
@@ -33,13 +130,29 @@ export interface PageContent {
     type: 'page';
     locale: Locale;
     permalink: string;
-    translationPath: string | undefined;
+    translationPaths: LocalizedPaths;
+    alternatePaths: LocalizedPaths;
     entry: CollectionEntry<'pages'>;
     Content: RenderedContent<'pages'>;
+    tableOfContents: TableOfContentsItem[];
     content: Awaited<ReturnType<typeof loadLocaleContent>>;
 }
 
-export type ResolvedContent = NewsIndexContent | NewsPostContent | PageContent;
+export interface ResolveContentOptions {
+    /** Unlock the requested news post if it is a draft or scheduled (granted by a verified preview token) */
+    preview?: boolean;
+}
+
+export type ResolvedContent =
+    | NewsIndexContent
+    | NewsTagIndexContent
+    | NewsTagContent
+    | NewsSeriesContent
+    | NewsAuthorContent
+    | NewsPostContent
+    | ProjectIndexContent
+    | ProjectContent
+    | PageContent;
 
 function buildPermalink(siteUrl: string, routeType: ParsedRoute['type'], slug: string, locale: Locale): string {
     if (routeType === 'news-index') {
@@ -50,73 +163,356 @@ function buildPermalink(siteUrl: string, routeType: ParsedRoute['type'], slug: s
         return `${siteUrl}${getRoute('news', locale)}/${slug}`;
     }
 
+    if (routeType === 'news-tag-index') {
+        return `${siteUrl}${getRoute('newsTags', locale)}`;
+    }
+
+    if (routeType === 'news-tag') {
+        return `${siteUrl}${getRoute('newsTags', locale)}/${slug}`;
+    }
+
+    if (routeType === 'news-series') {
+        return `${siteUrl}${getNewsSeriesLink(slug, locale)}`;
+    }
+
+    if (routeType === 'news-author') {
+        return `${siteUrl}${getAuthorLink(slug, locale)}`;
+    }
+
+    if (routeType === 'project-index') {
+        return `${siteUrl}${getRoute('projects', locale)}`;
+    }
+
+    if (routeType === 'project') {
+        return `${siteUrl}${getRoute('projects', locale)}/${slug}`;
+    }
+
     return `${siteUrl}/${slug === 'index' ? '' : slug}`;
 }
 
-function buildTranslationPath(
-    routeType: ParsedRoute['type'],
-    slug: string,
-    translationLocale: Locale,
-    entry?: CollectionEntry<'news'> | CollectionEntry<'pages'>,
-): string | undefined {
-    if (routeType === 'news-index') {
-        return getRoute('news', translationLocale);
-    }
+/**
+ * Links of a page to its translations.
+ *
+ * translationPath is where the language switcher goes and may fall back to an
+ * index; alternatePath is only set when the translation exists (and, for
+ * entries, names the page back), as it becomes an hreflang alternate.
+ */
+interface TranslationLinks {
+    translationPath: string | undefined;
+    alternatePath: string | undefined;
+}
+
+async function buildTranslationLinks(
+    locale: Locale,
+    getLinks: (
+        translationLocale: Locale,
+        translationContent: LocaleContent,
+    ) => TranslationLinks | Promise<TranslationLinks>,
+): Promise<{ translationPaths: LocalizedPaths; alternatePaths: LocalizedPaths }> {
+    const translationPaths: LocalizedPaths = {};
+    const alternatePaths: LocalizedPaths = {};
+    const links = await Promise.all(
+        getTranslationLocales(locale).map(async (translationLocale) => ({
+            translationLocale,
+            ...(await getLinks(translationLocale, await loadLocaleContent(translationLocale))),
+        })),
+    );
 
-    if (routeType === 'page' && entry) {
-        if (slug === 'index') {
-            return '/';
+    for (const { translationLocale, translationPath, alternatePath } of links) {
+        if (translationPath !== undefined) {
+            translationPaths[translationLocale] = translationPath;
         }
 
-        if (entry.data.translationSlug) {
-            return `/${entry.data.translationSlug}`;
+        if (alternatePath !== undefined) {
+            alternatePaths[translationLocale] = alternatePath;
         }
     }
 
-    if (routeType === 'news-post' && entry?.data.translationSlug) {
-        return `${getRoute('news', translationLocale)}/${entry.data.translationSlug}`;
+    return { translationPaths, alternatePaths };
+}
+
+function buildEntryPath(routeType: 'news-post' | 'project' | 'page', slug: string, locale: Locale): string {
+    if (routeType === 'news-post') {
+        return `${getRoute('news', locale)}/${slug}`;
+    }
+
+    if (routeType === 'project') {
+        return `${getRoute('projects', locale)}/${slug}`;
     }
 
-    return undefined;
+    return slug === 'index' ? '/' : `/${slug}`;
+}
+
+/**
+ * Links of a news post, project or page to its translations.
+ *
+ * The switcher follows the slug the entry names; the alternate additionally
+ * requires the translation to exist and name the entry back.
+ */
+function buildEntryTranslationLinks(
+    routeType: 'news-post' | 'project' | 'page',
+    entry: CollectionEntry<'news'> | CollectionEntry<'pages'> | CollectionEntry<'projects'>,
+    locale: Locale,
+): Promise<{ translationPaths: LocalizedPaths; alternatePaths: LocalizedPaths }> {
+    const isHome = routeType === 'page' && normalizeSlug(entry.id) === 'index';
+
+    return buildTranslationLinks(locale, (translationLocale, translationContent) => {
+        const translationMap: Map<string, TranslatableEntry> = {
+            'news-post': translationContent.newsPostMap,
+            project: translationContent.projectMap,
+            page: translationContent.pageMap,
+        }[routeType];
+        const translationSlug: string | undefined = entry.data.translations[translationLocale];
+        const translation = findTranslatedEntry(entry, translationLocale, translationMap);
+
+        return {
+            translationPath: isHome
+                ? '/'
+                : translationSlug
+                  ? buildEntryPath(routeType, translationSlug, translationLocale)
+                  : undefined,
+            alternatePath: translation
+                ? buildEntryPath(routeType, normalizeSlug(translation.id), translationLocale)
+                : undefined,
+        };
+    });
 }
 
-async function resolveNewsIndex(locale: Locale, siteUrl: string): Promise<NewsIndexContent> {
+async function resolveNewsIndex(locale: Locale, siteUrl: string, page = 1): Promise<NewsIndexContent | null> {
     const content = await loadLocaleContent(locale);
-    const sortedNewsPosts = sortNewsPostsByDate(content.newsPosts);
-    const permalink = buildPermalink(siteUrl, 'news-index', 'index', locale);
-    const translationLocale = getTranslationLocale(locale);
+    const newsPage = paginate(sortNewsPostsByDate(content.newsPosts), page, COMPONENT_CONFIG.newsIndex.postsPerPage);
+
+    if (!newsPage) {
+        return null;
+    }
+
+    const { currentPage, totalPages } = newsPage;
+    const permalink = `${siteUrl}${getNewsIndexPagePath(currentPage, locale)}`;
+
+    // Page counts differ between locales, so every page links to the first page of the translation.
+    // Only the first pages are alternates of each other, and only when the translation has posts.
+    const links = await buildTranslationLinks(locale, (translationLocale, translationContent) => ({
+        translationPath: getRoute('news', translationLocale),
+        alternatePath:
+            currentPage === 1 && translationContent.newsPosts.length > 0
+                ? getRoute('news', translationLocale)
+                : undefined,
+    }));
 
     return {
         type: 'news-index',
         locale,
         permalink,
-        translationPath: getRoute('news', translationLocale),
-        sortedNewsPosts,
+        ...links,
+        sortedNewsPosts: newsPage.items,
+        pagination: {
+            currentPage,
+            totalPages,
+            prevPath: currentPage > 1 ? getNewsIndexPagePath(currentPage - 1, locale) : undefined,
+            nextPath: currentPage < totalPages ? getNewsIndexPagePath(currentPage + 1, locale) : undefined,
+        },
+        content,
+    };
+}
+
+async function resolveNewsTagIndex(locale: Locale, siteUrl: string): Promise<NewsTagIndexContent> {
+    const content = await loadLocaleContent(locale);
+    const tags = collectNewsTags(content.newsPosts, locale);
+    const permalink = buildPermalink(siteUrl, 'news-tag-index', 'index', locale);
+    const links = await buildTranslationLinks(locale, (translationLocale, translationContent) => ({
+        translationPath: getRoute('newsTags', translationLocale),
+        alternatePath:
+            collectNewsTags(translationContent.newsPosts, translationLocale).length > 0
+                ? getRoute('newsTags', translationLocale)
+                : undefined,
+    }));
+
+    return {
+        type: 'news-tag-index',
+        locale,
+        permalink,
+        ...links,
+        tags,
+        content,
+    };
+}
+
+async function resolveNewsTag(slug: string, locale: Locale, siteUrl: string): Promise<NewsTagContent | null> {
+    const content = await loadLocaleContent(locale);
+    const tag = collectNewsTags(content.newsPosts, locale).find((candidate) => candidate.slug === slug);
+
+    if (!tag) {
+        return null;
+    }
+
+    const permalink = buildPermalink(siteUrl, 'news-tag', tag.slug, locale);
+
+    // Tags are written per locale, so a tag archive links to the tag index of each translation.
+    const links = await buildTranslationLinks(locale, (translationLocale) => ({
+        translationPath: getRoute('newsTags', translationLocale),
+        alternatePath: undefined,
+    }));
+
+    return {
+        type: 'news-tag',
+        locale,
+        permalink,
+        ...links,
+        tag,
         content,
     };
 }
 
-async function resolveNewsPost(slug: string, locale: Locale, siteUrl: string): Promise<NewsPostContent | null> {
+async function resolveNewsSeries(slug: string, locale: Locale, siteUrl: string): Promise<NewsSeriesContent | null> {
     const content = await loadLocaleContent(locale);
-    const entry = findNewsPost(slug, content);
+    const series = collectNewsSeries(content.newsPosts).find((candidate) => candidate.id === slug);
+
+    if (!series) {
+        return null;
+    }
+
+    const permalink = buildPermalink(siteUrl, 'news-series', series.id, locale);
+
+    // Series share IDs across locales; fall back to the news index when a translation is missing.
+    const links = await buildTranslationLinks(locale, (translationLocale, translationContent) => {
+        const hasTranslation = translationContent.newsPosts.some((post) => post.data.series?.id === series.id);
+
+        return {
+            translationPath: hasTranslation
+                ? getNewsSeriesLink(series.id, translationLocale)
+                : getRoute('news', translationLocale),
+            alternatePath: hasTranslation ? getNewsSeriesLink(series.id, translationLocale) : undefined,
+        };
+    });
+
+    return {
+        type: 'news-series',
+        locale,
+        permalink,
+        ...links,
+        series,
+        content,
+    };
+}
+
+async function resolveNewsAuthor(slug: string, locale: Locale, siteUrl: string): Promise<NewsAuthorContent | null> {
+    const content = await loadLocaleContent(locale);
+    const author = content.authorMap.get(slug);
+
+    if (!author) {
+        return null;
+    }
+
+    const permalink = buildPermalink(siteUrl, 'news-author', author.id, locale);
+
+    // Authors are shared by all locales, so the archive always has a translation (possibly empty).
+    // An empty archive is not listed as an alternate, as it is not in the sitemap either.
+    const links = await buildTranslationLinks(locale, (translationLocale, translationContent) => ({
+        translationPath: getAuthorLink(author.id, translationLocale),
+        alternatePath:
+            getAuthorPosts(author.id, translationContent.newsPosts).length > 0
+                ? getAuthorLink(author.id, translationLocale)
+                : undefined,
+    }));
+
+    return {
+        type: 'news-author',
+        locale,
+        permalink,
+        ...links,
+        author,
+        posts: getAuthorPosts(author.id, content.newsPosts),
+        content,
+    };
+}
+
+async function resolveNewsPost(
+    slug: string,
+    locale: Locale,
+    siteUrl: string,
+    preview: boolean,
+): Promise<NewsPostContent | null> {
+    const publishedContent = await loadLocaleContent(locale);
+    const entry =
+        findNewsPost(slug, publishedContent) ??
+        (preview
+            ? findNewsPost(slug, await loadLocaleContent(locale, { includeDrafts: true, includeScheduled: true }))
+            : undefined);
 
     if (!entry) {
         return null;
     }
 
+    // A preview unlocks its own post only: related posts and series navigation
+    // see the published posts plus this one, never other unpublished posts.
+    const content = publishedContent.newsPostMap.has(slug)
+        ? publishedContent
+        : {
+              ...publishedContent,
+              newsPosts: [...publishedContent.newsPosts, entry],
+              newsPostMap: new Map(publishedContent.newsPostMap).set(slug, entry),
+          };
+
     const rendered = await entry.render();
     const entrySlug = normalizeSlug(entry.id);
     const permalink = buildPermalink(siteUrl, 'news-post', entrySlug, locale);
-    const translationLocale = getTranslationLocale(locale);
-    const translationPath = buildTranslationPath('news-post', entrySlug, translationLocale, entry);
+    const links = await buildEntryTranslationLinks('news-post', entry, locale);
 
     return {
         type: 'news-post',
         locale: entry.data.locale,
         permalink,
-        translationPath,
+        ...links,
+        entry,
+        author: findPostAuthor(entry, content.authorMap),
+        Content: rendered.Content,
+        tableOfContents: entry.data.toc ? buildTableOfContents(rendered.headings) : [],
+        content,
+    };
+}
+
+async function resolveProjectIndex(locale: Locale, siteUrl: string): Promise<ProjectIndexContent> {
+    const content = await loadLocaleContent(locale);
+    const introEntry = findPage(PAGE_SLUGS.projects[locale], content);
+    const intro = introEntry ? { entry: introEntry, Content: (await introEntry.render()).Content } : undefined;
+    const permalink = buildPermalink(siteUrl, 'project-index', 'index', locale);
+    const links = await buildTranslationLinks(locale, (translationLocale) => ({
+        translationPath: getRoute('projects', translationLocale),
+        alternatePath: getRoute('projects', translationLocale),
+    }));
+
+    return {
+        type: 'project-index',
+        locale,
+        permalink,
+        ...links,
+        intro,
+        projects: sortProjects(content.projects),
+        content,
+    };
+}
+
+async function resolveProject(slug: string, locale: Locale, siteUrl: string): Promise<ProjectContent | null> {
+    const content = await loadLocaleContent(locale);
+    const entry = findProject(slug, content);
+
+    if (!entry) {
+        return null;
+    }
+
+    const rendered = await entry.render();
+    const entrySlug = normalizeSlug(entry.id);
+    const permalink = buildPermalink(siteUrl, 'project', entrySlug, locale);
+    const links = await buildEntryTranslationLinks('project', entry, locale);
+
+    return {
+        type: 'project',
+        locale: entry.data.locale,
+        permalink,
+        ...links,
         entry,
         Content: rendered.Content,
+        tableOfContents: entry.data.toc ? buildTableOfContents(rendered.headings) : [],
         content,
     };
 }
@@ -132,16 +528,16 @@ async function resolvePage(slug: string, locale: Locale, siteUrl: string): Promi
     const rendered = await entry.render();
     const entrySlug = normalizeSlug(entry.id);
     const permalink = buildPermalink(siteUrl, 'page', entrySlug, locale);
-    const translationLocale = getTranslationLocale(locale);
-    const translationPath = buildTranslationPath('page', entrySlug, translationLocale, entry);
+    const links = await buildEntryTranslationLinks('page', entry, locale);
 
     return {
         type: 'page',
         locale: entry.data.locale,
         permalink,
-        translationPath,
+        ...links,
         entry,
         Content: rendered.Content,
+        tableOfContents: entry.data.toc ? buildTableOfContents(rendered.headings) : [],
         content,
     };
 }
@@ -150,14 +546,44 @@ export async function resolveContent(
     route: ParsedRoute,
     locale: Locale,
     siteUrl: string,
+    options: ResolveContentOptions = {},
 ): Promise<ResolvedContent | null> {
     try {
         if (route.type === 'news-index') {
             return await resolveNewsIndex(locale, siteUrl);
         }
 
+        // Page 1 is served by the plain news route only, so it has a single canonical URL.
+        if (route.type === 'news-page') {
+            return route.page > 1 ? await resolveNewsIndex(locale, siteUrl, route.page) : null;
+        }
+
+        if (route.type === 'news-tag-index') {
+            return await resolveNewsTagIndex(locale, siteUrl);
+        }
+
+        if (route.type === 'news-tag') {
+            return await resolveNewsTag(route.slug, locale, siteUrl);
+        }
+
+        if (route.type === 'news-series') {
+            return await resolveNewsSeries(route.slug, locale, siteUrl);
+        }
+
+        if (route.type === 'news-author') {
+            return await resolveNewsAuthor(route.slug, locale, siteUrl);
+        }
+
         if (route.type === 'news-post') {
-            return await resolveNewsPost(route.slug, locale, siteUrl);
+            return await resolveNewsPost(route.slug, locale, siteUrl, options.preview ?? false);
+        }
+
+        if (route.type === 'project-index') {
+            return await resolveProjectIndex(locale, siteUrl);
+        }
+
+        if (route.type === 'project') {
+            return await resolveProject(route.slug, locale, siteUrl);
         }
 
         return await resolvePage(route.slug, locale, siteUrl);
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+
+import { MAX_EMAIL_LENGTH, suggestEmailCorrection, validateEmailAddress } from './email-validation';
+
+/* cspell:disable */
+
+describe('validateEmailAddress', () => {
+    describe('valid addresses', () => {
+        it('should accept a plain address', () => {
+            expect(validateEmailAddress('reader@example.com')).toEqual({
+                valid: true,
+                email: 'reader@example.com',
+                domain: 'example.com',
+            });
+        });
+
+        it('should accept common local part symbols', () => {
+            for (const email of [
+                'first.last@example.com',
+                'reader+news@example.com',
+                "o'brien@example.com",
+                'a_b-c@example.com',
+            ]) {
+                expect(validateEmailAddress(email)).toMatchObject({ valid: true, email });
+            }
+        });
+
+        it('should accept a quoted local part', () => {
+            expect(validateEmailAddress('"john doe"@example.com')).toMatchObject({ valid: true });
+            expect(validateEmailAddress('"a@b"@example.com')).toMatchObject({ valid: true, domain: 'example.com' });
+            expect(validateEmailAddress('"quote\\"inside"@example.com')).toMatchObject({ valid: true });
+        });
+
+        it('should accept subdomains and long top-level domains', () => {
+            expect(validateEmailAddress('reader@mail.example.co.uk')).toMatchObject({ valid: true });
+            expect(validateEmailAddress('reader@example.photography')).toMatchObject({ valid: true });
+        });
+
+        it('should trim whitespace and lowercase the domain only', () => {
+            expect(validateEmailAddress('  Reader@Example.COM\n')).toEqual({
+                valid: true,
+                email: 'Reader@example.com',
+                domain: 'example.com',
+            });
+        });
+
+        it('should convert internationalized domains to punycode', () => {
+            expect(validateEmailAddress('reader@příklad.cz')).toEqual({
+                valid: true,
+                email: 'reader@xn--pklad-zsa96e.cz',
+                domain: 'xn--pklad-zsa96e.cz',
+            });
+            expect(validateEmailAddress('reader@xn--pklad-zsa96e.cz')).toMatchObject({ valid: true });
+        });
+
+        it('should accept local parts and addresses at the length limits', () => {
+            const domain = `${'a'.repeat(63)}.${'b'.repeat(63)}.${'c'.repeat(57)}.com`;
+            const email = `${'x'.repeat(64)}@${domain}`;
+
+            expect(email).toHaveLength(MAX_EMAIL_LENGTH);
+            expect(validateEmailAddress(email)).toMatchObject({ valid: true });
+        });
+    });
+
+    describe('invalid addresses', () => {
+        it('should require an address', () => {
+            for (const value of ['', '   ', undefined, null, 42, { email: 'a@example.com' }]) {
+                expect(validateEmailAddress(value)).toEqual({ valid: false, error: 'required' });
+            }
+        });
+
+        it('should reject addresses without a local part or domain', () => {
+            expect(validateEmailAddress('not-an-email')).toEqual({ valid: false, error: 'invalid-domain' });
+            expect(validateEmailAddress('reader@')).toEqual({ valid: false, error: 'invalid-domain' });
+            expect(validateEmailAddress('@example.com')).toEqual({ valid: false, error: 'invalid-local-part' });
+        });
+
+        it('should reject malformed local parts', () => {
+            for (const email of [
+                '.reader@example.com',
+                'reader.@example.com',
+                'first..last@example.com',
+                'first last@example.com',
+                'a@b@example.com',
+                '"unterminated@example.com',
+                'reader(comment)@example.com',
+            ]) {
+                expect(validateEmailAddress(email)).toEqual({ valid: false, error: 'invalid-local-part' });
+            }
+        });
+
+        it('should reject malformed domains', () => {
+            for (const email of [
+                'reader@localhost',
+                'a@b.c',
+                'reader@example',
+                'reader@example..com',
+                'reader@.example.com',
+                'reader@example.com.',
+                'reader@-example.com',
+                'reader@example-.com',
+                'reader@exa_mple.com',
+                'reader@exa mple.com',
+                'reader@example.com/path',
+                'reader@example.com:25',
+                'reader@example.123',
+                'reader@[127.0.0.1]',
+                'reader@127.0.0.1',
+                `reader@${'a'.repeat(64)}.com`,
+            ]) {
+                expect(validateEmailAddress(email)).toEqual({ valid: false, error: 'invalid-domain' });
+            }
+        });
+
+        it('should reject local parts over 64 characters', () => {
+            expect(validateEmailAddress(`${'x'.repeat(65)}@example.com`)).toEqual({ valid: false, error: 'too-long' });
+        });
+
+        it('should reject addresses over 254 characters', () => {
+            const domain = `${'a'.repeat(63)}.${'b'.repeat(63)}.${'c'.repeat(58)}.com`;
+
+            expect(validateEmailAddress(`${'x'.repeat(64)}@${domain}`)).toEqual({ valid: false, error: 'too-long' });
+        });
+    });
+
+    describe('disposable domains', () => {
+        it('should reject disposable email services', () => {
+            for (const email of ['reader@mailinator.com', 'reader@YopMail.com', 'reader@guerrillamail.org']) {
+                expect(validateEmailAddress(email)).toEqual({ valid: false, error: 'disposable' });
+            }
+        });
+
+        it('should reject subdomains of disposable email services', () => {
+            expect(validateEmailAddress('reader@inbox.mailinator.com')).toEqual({ valid: false, error: 'disposable' });
+        });
+
+        it('should not reject domains that merely contain a disposable one', () => {
+            expect(validateEmailAddress('reader@notmailinator.com')).toMatchObject({ valid: true });
+            expect(validateEmailAddress('reader@mailinator.com.example.org')).toMatchObject({ valid: true });
+        });
+    });
+});
+
+describe('suggestEmailCorrection', () => {
+    it('should correct misspelled popular domains', () => {
+        expect(suggestEmailCorrection('reader@gmial.com')).toBe('reader@gmail.com');
+        expect(suggestEmailCorrection('reader@gmail.con')).toBe('reader@gmail.com');
+        expect(suggestEmailCorrection('reader@hotmial.com')).toBe('reader@hotmail.com');
+        expect(suggestEmailCorrection('reader@yahoo.co')).toBe('reader@yahoo.com');
+    });
+
+    it('should correct misspelled Czech providers', () => {
+        expect(suggestEmailCorrection('reader@seznam.cy')).toBe('reader@seznam.cz');
+        expect(suggestEmailCorrection('reader@sezanm.cz')).toBe('reader@seznam.cz');
+        expect(suggestEmailCorrection('reader@seznan.cz')).toBe('reader@seznam.cz');
+        expect(suggestEmailCorrection('reader@centum.cz')).toBe('reader@centrum.cz');
+    });
+
+    it('should correct misspelled top-level domains of other providers', () => {
+        expect(suggestEmailCorrection('reader@example.con')).toBe('reader@example.com');
+        expect(suggestEmailCorrection('reader@firma.zc')).toBe('reader@firma.cz');
+        expect(suggestEmailCorrection('reader@example.ogr')).toBe('reader@example.org');
+    });
+
+    it('should keep the local part as typed and ignore the domain case', () => {
+        expect(suggestEmailCorrection(' First.Last+news@GMIAL.com ')).toBe('First.Last+news@gmail.com');
+    });
+
+    it('should leave popular domains alone', () => {
+        for (const email of ['reader@gmail.com', 'reader@email.cz', 'reader@post.cz', 'reader@Seznam.cz']) {
+            expect(suggestEmailCorrection(email)).toBeUndefined();
+        }
+    });
+
+    it('should leave unrelated domains alone', () => {
+        for (const email of ['reader@example.com', 'reader@ambilab.cz', 'reader@gmx.de', 'reader@company.org']) {
+            expect(suggestEmailCorrection(email)).toBeUndefined();
+        }
+    });
+
+    it('should not suggest anything for incomplete addresses', () => {
+        for (const value of ['', 'gmial.com', 'reader@', '@gmial.com']) {
+            expect(suggestEmailCorrection(value)).toBeUndefined();
+        }
+    });
+});
+
+/* cspell:enable */
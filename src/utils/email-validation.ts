@@ -0,0 +1,263 @@
+/**
+ * Email Validation
+ *
+ * Validates email addresses for the newsletter, in the form and in the
+ * endpoint alike, and suggests corrections for misspelled provider domains.
+ *
+ * Accepted addresses follow RFC 5321/5322 as far as mail delivery needs: a
+ * dot-atom or quoted local part of at most 64 octets, and a domain name with a
+ * real top-level domain. Internationalized domains are accepted and converted
+ * to their ASCII (punycode) form; IP address literals and comments are not.
+ * Domains of disposable email services are rejected (see
+ * src/config/email-domains.ts).
+ */
+
+import { DISPOSABLE_EMAIL_DOMAINS, POPULAR_EMAIL_DOMAINS, TLD_TYPOS } from '@config/email-domains';
+
+// #region Type Definitions
+
+/**
+ * Most characters of an address (RFC 5321 path limit minus the angle brackets).
+ */
+export const MAX_EMAIL_LENGTH = 254;
+
+/**
+ * Most octets of a local part (RFC 5321).
+ */
+export const MAX_LOCAL_PART_LENGTH = 64;
+
+/**
+ * Why an address was rejected.
+ */
+export type EmailValidationError = 'required' | 'too-long' | 'invalid-local-part' | 'invalid-domain' | 'disposable';
+
+export type EmailValidationResult =
+    | {
+          valid: true;
+
+          /** The address with its domain lowercased and in ASCII form */
+          email: string;
+
+          /** ASCII form of the domain */
+          domain: string;
+      }
+    | { valid: false; error: EmailValidationError };
+
+// #endregion
+
+// #region Helper Functions
+
+const MAX_DOMAIN_LENGTH = 253;
+
+// Closest popular domain farther away than this is not a typo of it.
+const MAX_TYPO_DISTANCE = 2;
+
+// Shorter domains only get suggestions one edit away, so short real domains are left alone.
+const SHORT_DOMAIN_LENGTH = 8;
+
+// RFC 5322 atom: letters, digits and these symbols.
+const ATOM_PATTERN = /^[\w!#$%&'*+/=?^`{|}~-]+$/;
+
+// RFC 5322 quoted string: printable ASCII except " and \, which must be escaped.
+const QUOTED_LOCAL_PART_PATTERN = /^"(?:[\x20\x21\x23-\x5b\x5d-\x7e]|\\[\x20-\x7e])*"$/;
+
+// Letters, digits and hyphens, checked for a hyphen at either end separately.
+const DOMAIN_LABEL_PATTERN = /^[a-z\d-]{1,63}$/;
+const TLD_PATTERN = /^(?:[a-z]{2,63}|xn--[a-z\d-]{1,59})$/;
+
+// Characters that would make the URL parser read the domain as something else.
+const DOMAIN_FORBIDDEN_PATTERN = /[\s/?#:@[\]\\%]/;
+
+const disposableDomains = new Set<string>(DISPOSABLE_EMAIL_DOMAINS);
+const popularDomains = new Set<string>(POPULAR_EMAIL_DOMAINS);
+
+function splitAddress(email: string): { localPart: string; domain: string } | undefined {
+    // Quoted local parts may contain '@', the domain never does.
+    const separator = email.lastIndexOf('@');
+
+    if (separator <= 0 || separator === email.length - 1) {
+        return undefined;
+    }
+
+    return { localPart: email.slice(0, separator), domain: email.slice(separator + 1) };
+}
+
+function isValidLocalPart(localPart: string): boolean {
+    if (localPart.startsWith('"')) {
+        return QUOTED_LOCAL_PART_PATTERN.test(localPart);
+    }
+
+    return localPart.split('.').every((atom) => ATOM_PATTERN.test(atom));
+}
+
+/**
+ * Converts a domain to lowercase ASCII, encoding international labels as punycode.
+ */
+function toAsciiDomain(domain: string): string | undefined {
+    if (!domain || DOMAIN_FORBIDDEN_PATTERN.test(domain)) {
+        return undefined;
+    }
+
+    try {
+        return new URL(`http://${domain}`).hostname;
+    } catch {
+        return undefined;
+    }
+}
+
+function isValidAsciiDomain(domain: string): boolean {
+    if (domain.length > MAX_DOMAIN_LENGTH) {
+        return false;
+    }
+
+    const labels = domain.split('.');
+    const tld = labels[labels.length - 1] ?? '';
+
+    return (
+        labels.length >= 2 &&
+        labels.every((label) => DOMAIN_LABEL_PATTERN.test(label) && !label.startsWith('-') && !label.endsWith('-')) &&
+        TLD_PATTERN.test(tld)
+    );
+}
+
+function isDisposableDomain(domain: string): boolean {
+    const labels = domain.split('.');
+
+    // The domain itself and every parent domain, e.g. a.mailinator.com and mailinator.com.
+    return labels.some((_, index) => disposableDomains.has(labels.slice(index).join('.')));
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * adjacent characters (optimal string alignment), so 'gmial' is one edit from 'gmail'.
+ */
+function getEditDistance(a: string, b: string): number {
+    let beforePrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let distance = Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, (previous[j - 1] ?? 0) + cost);
+
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                distance = Math.min(distance, (beforePrevious[j - 2] ?? 0) + 1);
+            }
+
+            current[j] = distance;
+        }
+
+        beforePrevious = previous;
+        previous = current;
+    }
+
+    return previous[b.length] ?? 0;
+}
+
+function findPopularDomainTypo(domain: string): string | undefined {
+    const maxDistance = domain.length < SHORT_DOMAIN_LENGTH ? 1 : MAX_TYPO_DISTANCE;
+    let closest: { domain: string; distance: number } | undefined;
+
+    // The list is ordered by popularity, so ties go to the more popular provider.
+    for (const candidate of POPULAR_EMAIL_DOMAINS) {
+        const distance = getEditDistance(domain, candidate);
+
+        if (distance <= maxDistance && (!closest || distance < closest.distance)) {
+            closest = { domain: candidate, distance };
+        }
+    }
+
+    return closest?.domain;
+}
+
+function fixTldTypo(domain: string): string | undefined {
+    const separator = domain.lastIndexOf('.');
+    const correction = TLD_TYPOS[domain.slice(separator + 1)];
+
+    return separator > 0 && correction ? `${domain.slice(0, separator)}.${correction}` : undefined;
+}
+
+// #endregion
+
+// #region Main Exports
+
+/**
+ * Validates and normalizes an email address.
+ *
+ * Surrounding whitespace is ignored. The local part is kept as typed, since
+ * only the receiving server may interpret its case.
+ *
+ * @param value - Address as entered
+ * @returns The normalized address, or why it was rejected
+ */
+export function validateEmailAddress(value: unknown): EmailValidationResult {
+    const email = typeof value === 'string' ? value.trim() : '';
+
+    if (!email) {
+        return { valid: false, error: 'required' };
+    }
+
+    const parts = splitAddress(email);
+
+    if (!parts) {
+        return { valid: false, error: email.startsWith('@') ? 'invalid-local-part' : 'invalid-domain' };
+    }
+
+    if (parts.localPart.length > MAX_LOCAL_PART_LENGTH) {
+        return { valid: false, error: 'too-long' };
+    }
+
+    if (!isValidLocalPart(parts.localPart)) {
+        return { valid: false, error: 'invalid-local-part' };
+    }
+
+    const domain = toAsciiDomain(parts.domain);
+
+    if (!domain || !isValidAsciiDomain(domain)) {
+        return { valid: false, error: 'invalid-domain' };
+    }
+
+    const normalized = `${parts.localPart}@${domain}`;
+
+    if (normalized.length > MAX_EMAIL_LENGTH) {
+        return { valid: false, error: 'too-long' };
+    }
+
+    if (isDisposableDomain(domain)) {
+        return { valid: false, error: 'disposable' };
+    }
+
+    return { valid: true, email: normalized, domain };
+}
+
+/**
+ * Suggests a correction for a misspelled domain, such as 'gmial.com' or
+ * 'seznam.cy'.
+ *
+ * Domains close to a popular provider are corrected to it; other domains only
+ * get a misspelled top-level domain fixed ('.con' to '.com').
+ *
+ * @param value - Address as entered
+ * @returns The corrected address, or undefined when nothing looks misspelled
+ */
+export function suggestEmailCorrection(value: string): string | undefined {
+    const parts = splitAddress(value.trim());
+
+    if (!parts) {
+        return undefined;
+    }
+
+    const domain = parts.domain.toLowerCase();
+
+    if (popularDomains.has(domain)) {
+        return undefined;
+    }
+
+    const correction = findPopularDomainTypo(domain) ?? fixTldTypo(domain);
+
+    return correction ? `${parts.localPart}@${correction}` : undefined;
+}
+
+// #endregion
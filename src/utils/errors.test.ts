@@ -5,11 +5,15 @@ import {
     ConfigurationError,
     ContentError,
     createErrorResponse,
+    createProblemDetails,
+    ForbiddenError,
     formatErrorForLogging,
     getErrorMessage,
     isAmbiLabError,
     LocaleError,
     NetworkError,
+    NewsletterError,
+    RateLimitError,
     ValidationError,
 } from './errors';
 
@@ -57,6 +61,31 @@ describe('ValidationError', () => {
         expect(error.message).toContain('Validation error');
         expect(error.field).toBe('email');
         expect(error.statusCode).toBe(400);
+        expect(error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should accept a more specific code', () => {
+        expect(new ValidationError('Invalid email', 'email', 'EMAIL_INVALID').code).toBe('EMAIL_INVALID');
+    });
+});
+
+describe('ForbiddenError', () => {
+    it('should create forbidden error', () => {
+        const error = new ForbiddenError('Origin not allowed', 'FORBIDDEN_ORIGIN');
+
+        expect(error.message).toContain('Forbidden');
+        expect(error.code).toBe('FORBIDDEN_ORIGIN');
+        expect(error.statusCode).toBe(403);
+    });
+});
+
+describe('RateLimitError', () => {
+    it('should create rate limit error with retry delay', () => {
+        const error = new RateLimitError('Too many requests', 30);
+
+        expect(error.code).toBe('RATE_LIMITED');
+        expect(error.statusCode).toBe(429);
+        expect(error.retryAfterSeconds).toBe(30);
     });
 });
 
@@ -80,6 +109,21 @@ describe('NetworkError', () => {
     });
 });
 
+describe('NewsletterError', () => {
+    it('should create newsletter error with the provider and status', () => {
+        const error = new NewsletterError('Subscription rejected', 400, 'buttondown');
+
+        expect(error.message).toContain('Newsletter error');
+        expect(error.code).toBe('NEWSLETTER_ERROR');
+        expect(error.provider).toBe('buttondown');
+        expect(error.statusCode).toBe(400);
+    });
+
+    it('should default to a bad gateway status', () => {
+        expect(new NewsletterError('Unreachable').statusCode).toBe(502);
+    });
+});
+
 describe('isAmbiLabError', () => {
     it('should return true for AmbiLabError instances', () => {
         const error = new AmbiLabError('Test');
@@ -158,7 +202,15 @@ describe('createErrorResponse', () => {
         const response = createErrorResponse(error);
 
         expect(response.status).toBe(404);
-        expect(response.headers.get('Content-Type')).toBe('application/json');
+        expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+        expect(response.headers.get('Cache-Control')).toBe('no-store');
+    });
+
+    it('should set Retry-After for rate limit errors', () => {
+        const response = createErrorResponse(new RateLimitError('Too many requests', 30));
+
+        expect(response.status).toBe(429);
+        expect(response.headers.get('Retry-After')).toBe('30');
     });
 
     it('should create response for regular Error', () => {
@@ -174,3 +226,41 @@ describe('createErrorResponse', () => {
         expect(response.status).toBe(500);
     });
 });
+
+describe('createProblemDetails', () => {
+    it('should describe client errors with their code and message', () => {
+        expect(createProblemDetails(new ValidationError('Invalid email', 'email', 'EMAIL_INVALID'))).toEqual({
+            type: 'about:blank',
+            title: 'Bad Request',
+            status: 400,
+            detail: 'Validation error: Invalid email',
+            code: 'EMAIL_INVALID',
+        });
+    });
+
+    it('should leave out the message of server errors', () => {
+        expect(createProblemDetails(new ConfigurationError('Missing API key', 'API_KEY'))).toEqual({
+            type: 'about:blank',
+            title: 'Internal Server Error',
+            status: 500,
+            code: 'CONFIG_ERROR',
+        });
+    });
+
+    it('should describe unknown errors as internal errors', () => {
+        expect(createProblemDetails(new Error('secret details'))).toEqual({
+            type: 'about:blank',
+            title: 'Internal Server Error',
+            status: 500,
+            code: 'INTERNAL_ERROR',
+        });
+    });
+
+    it('should fall back to a generic title for unlisted statuses', () => {
+        expect(createProblemDetails(new AmbiLabError('Teapot', 'TEAPOT', 418))).toMatchObject({
+            title: 'Error',
+            status: 418,
+            code: 'TEAPOT',
+        });
+    });
+});
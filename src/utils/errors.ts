@@ -36,8 +36,8 @@ export class ContentError extends AmbiLabError {
 }
 
 export class ValidationError extends AmbiLabError {
-    constructor(message: string, field: string | undefined = undefined) {
-        super(`Validation error: ${message}`, 'VALIDATION_ERROR', 400);
+    constructor(message: string, field: string | undefined = undefined, code = 'VALIDATION_ERROR') {
+        super(`Validation error: ${message}`, code, 400);
         this.field = field;
     }
 
@@ -62,6 +62,63 @@ export class NetworkError extends AmbiLabError {
     public readonly url: string | undefined;
 }
 
+export class NewsletterError extends AmbiLabError {
+    constructor(message: string, statusCode = 502, provider: string | undefined = undefined) {
+        super(`Newsletter error: ${message}`, 'NEWSLETTER_ERROR', statusCode);
+        this.provider = provider;
+    }
+
+    public readonly provider: string | undefined;
+}
+
+export class ForbiddenError extends AmbiLabError {
+    constructor(message: string, code = 'FORBIDDEN') {
+        super(`Forbidden: ${message}`, code, 403);
+    }
+}
+
+export class RateLimitError extends AmbiLabError {
+    constructor(message: string, retryAfterSeconds: number) {
+        super(`Rate limit exceeded: ${message}`, 'RATE_LIMITED', 429);
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+
+    public readonly retryAfterSeconds: number;
+}
+
+/**
+ * Media type of RFC 9457 problem details.
+ */
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * An RFC 9457 problem details object, extended with the error's machine code.
+ */
+export interface ProblemDetails {
+    /** Always 'about:blank': problems are told apart by `code` */
+    type: string;
+
+    /** HTTP status phrase */
+    title: string;
+    status: number;
+
+    /** Human-readable explanation, left out for server errors so internals don't leak */
+    detail?: string;
+
+    /** Stable machine code (AmbiLabError.code), for clients to map to their own messages */
+    code: string;
+}
+
+const STATUS_TITLES: Record<number, string> = {
+    400: 'Bad Request',
+    403: 'Forbidden',
+    404: 'Not Found',
+    429: 'Too Many Requests',
+    500: 'Internal Server Error',
+    502: 'Bad Gateway',
+    503: 'Service Unavailable',
+};
+
 /**
  * Type guard to check if an error is an AmbiLabError.
  */
@@ -112,22 +169,34 @@ export function formatErrorForLogging(error: unknown): Record<string, unknown> {
 }
 
 /**
- * Create an appropriate error response for API routes.
+ * Describe an error as RFC 9457 problem details.
+ */
+export function createProblemDetails(error: unknown): ProblemDetails {
+    const status = isAmbiLabError(error) ? error.statusCode : 500;
+    const code = (isAmbiLabError(error) && error.code) || 'INTERNAL_ERROR';
+
+    return {
+        type: 'about:blank',
+        title: STATUS_TITLES[status] ?? 'Error',
+        status,
+        ...(status < 500 && { detail: getErrorMessage(error) }),
+        code,
+    };
+}
+
+/**
+ * Create an appropriate error response for API routes, as RFC 9457 problem details.
  */
 export function createErrorResponse(error: unknown): Response {
-    const message = getErrorMessage(error);
-    const statusCode = isAmbiLabError(error) ? error.statusCode : 500;
-
-    return new Response(
-        JSON.stringify({
-            error: message,
-            code: isAmbiLabError(error) ? error.code : 'INTERNAL_ERROR',
-        }),
-        {
-            status: statusCode,
-            headers: {
-                'Content-Type': 'application/json',
-            },
-        },
-    );
+    const problem = createProblemDetails(error);
+    const headers: Record<string, string> = {
+        'Content-Type': PROBLEM_CONTENT_TYPE,
+        'Cache-Control': 'no-store',
+    };
+
+    if (error instanceof RateLimitError) {
+        headers['Retry-After'] = String(error.retryAfterSeconds);
+    }
+
+    return new Response(JSON.stringify(problem), { status: problem.status, headers });
 }
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderFeedHtml } from './feed-content';
+
+const POST_URL = 'https://ambilab.com/news/hello-world';
+
+describe('renderFeedHtml', () => {
+    it('should render Markdown with GFM extensions', async () => {
+        const html = await renderFeedHtml('# Title\n\n~~old~~ **new**', POST_URL);
+
+        expect(html).toContain('<h1>Title</h1>');
+        expect(html).toContain('<del>old</del> <strong>new</strong>');
+    });
+
+    it('should drop MDX imports and component markup', async () => {
+        const html = await renderFeedHtml(
+            'import DemoEmbed from \'@components/svelte/DemoEmbed.svelte\';\n\nIntro\n\n<DemoEmbed src="x" />',
+            POST_URL,
+        );
+
+        expect(html).toBe('<p>Intro</p>');
+    });
+
+    it('should resolve relative links and images against the post URL', async () => {
+        const html = await renderFeedHtml('[Projects](/projects) ![Shot](shot.png) [Top](#top)', POST_URL);
+
+        expect(html).toContain('href="https://ambilab.com/projects"');
+        expect(html).toContain('src="https://ambilab.com/news/shot.png"');
+        expect(html).toContain('href="#top"');
+    });
+});
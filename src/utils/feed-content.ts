@@ -0,0 +1,71 @@
+/**
+ * Feed Content Rendering
+ *
+ * Renders news post bodies to standalone HTML for full-content feeds.
+ *
+ * Feed readers cannot run our MDX components, so the body is rendered as
+ * plain Markdown with the same remark plugins the site uses. ESM lines and
+ * raw HTML/JSX blocks are dropped, and relative links are made absolute.
+ */
+
+import rehypeStringify from 'rehype-stringify';
+import remarkGfm from 'remark-gfm';
+import remarkParse from 'remark-parse';
+import remarkRehype from 'remark-rehype';
+import remarkSmartypants from 'remark-smartypants';
+import { unified } from 'unified';
+
+interface HtmlNode {
+    type: string;
+    properties?: Record<string, unknown>;
+    children?: HtmlNode[];
+}
+
+const URL_PROPERTIES = ['href', 'src'] as const;
+
+/**
+ * Rehype plugin that resolves relative `href` and `src` values against a base URL.
+ */
+function rehypeAbsoluteUrls(baseUrl: string) {
+    const visit = (node: HtmlNode): void => {
+        if (node.type === 'element' && node.properties) {
+            for (const property of URL_PROPERTIES) {
+                const value = node.properties[property];
+
+                if (typeof value === 'string' && !value.startsWith('#')) {
+                    node.properties[property] = new URL(value, baseUrl).toString();
+                }
+            }
+        }
+
+        node.children?.forEach(visit);
+    };
+
+    return () => visit;
+}
+
+/**
+ * Renders a post body to HTML suitable for embedding in a feed.
+ *
+ * @param body - Raw MDX/Markdown body of the post (without frontmatter)
+ * @param baseUrl - Absolute URL of the post, used to resolve relative links
+ * @returns HTML string
+ *
+ * @example
+ * await renderFeedHtml('Hello [docs](/docs)', 'https://ambilab.com/news/hello')
+ * // '<p>Hello <a href="https://ambilab.com/docs">docs</a></p>'
+ */
+export async function renderFeedHtml(body: string, baseUrl: string): Promise<string> {
+    const markdown = body.replace(/^(?:import|export)\s.*$/gm, '');
+
+    const file = await unified()
+        .use(remarkParse)
+        .use(remarkGfm)
+        .use(remarkSmartypants)
+        .use(remarkRehype)
+        .use(rehypeAbsoluteUrls(baseUrl))
+        .use(rehypeStringify)
+        .process(markdown);
+
+    return String(file).trim();
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import type { NewsFeed } from './feed';
+import { serializeAtom, serializeJsonFeed } from './feed-serializers';
+
+function createFeed(overrides: Partial<NewsFeed> = {}): NewsFeed {
+    const author = { name: 'Ambilab', url: 'https://ambilab.com' };
+
+    return {
+        title: 'Ambilab - English',
+        description: 'News & updates',
+        locale: 'en',
+        language: 'en-US',
+        links: {
+            html: 'https://ambilab.com/news',
+            rss: 'https://ambilab.com/en/news.xml',
+            atom: 'https://ambilab.com/en/news.atom',
+            json: 'https://ambilab.com/en/news.json',
+        },
+        updated: new Date('2024-02-01T00:00:00Z'),
+        author,
+        items: [
+            {
+                id: 'https://ambilab.com/news/hello-world',
+                url: 'https://ambilab.com/news/hello-world',
+                title: 'Hello <World>',
+                summary: 'First post',
+                contentHtml: '<p>Hello &amp; welcome</p>',
+                published: new Date('2024-01-01T00:00:00Z'),
+                updated: new Date('2024-02-01T00:00:00Z'),
+                categories: ['announcement'],
+                author,
+            },
+        ],
+        ...overrides,
+    };
+}
+
+describe('serializeAtom', () => {
+    it('should emit feed metadata and a self link', () => {
+        const xml = serializeAtom(createFeed());
+
+        expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en-US">');
+        expect(xml).toContain('<title>Ambilab - English</title>');
+        expect(xml).toContain('<subtitle>News &amp; updates</subtitle>');
+        expect(xml).toContain('<link rel="self" type="application/atom+xml" href="https://ambilab.com/en/news.atom"/>');
+        expect(xml).toContain('<updated>2024-02-01T00:00:00.000Z</updated>');
+    });
+
+    it('should escape entry fields and embed HTML content', () => {
+        const xml = serializeAtom(createFeed());
+
+        expect(xml).toContain('<title>Hello &lt;World&gt;</title>');
+        expect(xml).toContain('<category term="announcement"/>');
+        expect(xml).toContain('<content type="html">&lt;p&gt;Hello &amp;amp; welcome&lt;/p&gt;</content>');
+    });
+
+    it('should omit content when no HTML was rendered', () => {
+        const feed = createFeed();
+        const [item] = feed.items;
+
+        if (!item) {
+            throw new Error('Fixture feed has no items');
+        }
+
+        const xml = serializeAtom({ ...feed, items: [{ ...item, contentHtml: undefined }] });
+
+        expect(xml).not.toContain('<content');
+        expect(xml).toContain('<summary>First post</summary>');
+    });
+});
+
+describe('serializeJsonFeed', () => {
+    it('should emit a JSON Feed 1.1 document', () => {
+        const json = JSON.parse(serializeJsonFeed(createFeed()));
+
+        expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+        expect(json.feed_url).toBe('https://ambilab.com/en/news.json');
+        expect(json.home_page_url).toBe('https://ambilab.com/news');
+        expect(json.items[0]).toMatchObject({
+            id: 'https://ambilab.com/news/hello-world',
+            content_html: '<p>Hello &amp; welcome</p>',
+            date_published: '2024-01-01T00:00:00.000Z',
+            date_modified: '2024-02-01T00:00:00.000Z',
+            tags: ['announcement'],
+        });
+    });
+
+    it('should fall back to the summary as plain text content', () => {
+        const feed = createFeed();
+        const [item] = feed.items;
+
+        if (!item) {
+            throw new Error('Fixture feed has no items');
+        }
+
+        const json = JSON.parse(
+            serializeJsonFeed({ ...feed, items: [{ ...item, contentHtml: undefined, updated: undefined }] }),
+        );
+
+        expect(json.items[0].content_text).toBe('First post');
+        expect(json.items[0]).not.toHaveProperty('content_html');
+        expect(json.items[0]).not.toHaveProperty('date_modified');
+    });
+});
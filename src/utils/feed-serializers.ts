@@ -0,0 +1,109 @@
+/**
+ * Feed Serializers
+ *
+ * Pure serializers that turn the shared news feed model into Atom 1.0
+ * and JSON Feed 1.1 documents. RSS 2.0 is serialized by `@astrojs/rss`
+ * in `rss.ts` from the same model.
+ */
+
+import type { FeedAuthor, FeedItem, NewsFeed } from './feed';
+import { escapeXml } from './xml';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+// #region Atom
+
+function serializeAtomAuthor(author: FeedAuthor, indent: string): string {
+    return `${indent}<author>
+${indent}    <name>${escapeXml(author.name)}</name>
+${indent}    <uri>${escapeXml(author.url)}</uri>
+${indent}</author>`;
+}
+
+function serializeAtomEntry(item: FeedItem): string {
+    const lines = [
+        '    <entry>',
+        `        <id>${escapeXml(item.id)}</id>`,
+        `        <title>${escapeXml(item.title)}</title>`,
+        `        <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+        `        <published>${item.published.toISOString()}</published>`,
+        `        <updated>${(item.updated ?? item.published).toISOString()}</updated>`,
+        serializeAtomAuthor(item.author, '        '),
+        ...item.categories.map((category) => `        <category term="${escapeXml(category)}"/>`),
+        `        <summary>${escapeXml(item.summary)}</summary>`,
+    ];
+
+    if (item.contentHtml) {
+        lines.push(`        <content type="html">${escapeXml(item.contentHtml)}</content>`);
+    }
+
+    lines.push('    </entry>');
+
+    return lines.join('\n');
+}
+
+/**
+ * Serializes the feed model as an Atom 1.0 document.
+ *
+ * @param feed - The news feed model
+ * @returns Atom XML string
+ */
+export function serializeAtom(feed: NewsFeed): string {
+    const entries = feed.items.map(serializeAtomEntry);
+
+    return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(feed.language)}">
+    <id>${escapeXml(feed.links.html)}</id>
+    <title>${escapeXml(feed.title)}</title>
+    <subtitle>${escapeXml(feed.description)}</subtitle>
+    <link rel="alternate" type="text/html" href="${escapeXml(feed.links.html)}"/>
+    <link rel="self" type="application/atom+xml" href="${escapeXml(feed.links.atom)}"/>
+    <updated>${feed.updated.toISOString()}</updated>
+${serializeAtomAuthor(feed.author, '    ')}
+${entries.join('\n')}
+</feed>
+`;
+}
+
+// #endregion
+
+// #region JSON Feed
+
+/**
+ * Serializes the feed model as a JSON Feed 1.1 document.
+ *
+ * Items without rendered HTML fall back to their summary as `content_text`,
+ * since JSON Feed requires one of the two content fields.
+ *
+ * @param feed - The news feed model
+ * @returns JSON Feed string
+ * @see https://www.jsonfeed.org/version/1.1/
+ */
+export function serializeJsonFeed(feed: NewsFeed): string {
+    return JSON.stringify(
+        {
+            version: 'https://jsonfeed.org/version/1.1',
+            title: feed.title,
+            home_page_url: feed.links.html,
+            feed_url: feed.links.json,
+            description: feed.description,
+            language: feed.language,
+            authors: [feed.author],
+            items: feed.items.map((item) => ({
+                id: item.id,
+                url: item.url,
+                title: item.title,
+                summary: item.summary,
+                ...(item.contentHtml ? { content_html: item.contentHtml } : { content_text: item.summary }),
+                date_published: item.published.toISOString(),
+                ...(item.updated ? { date_modified: item.updated.toISOString() } : {}),
+                tags: item.categories,
+                authors: [item.author],
+            })),
+        },
+        null,
+        2,
+    );
+}
+
+// #endregion
@@ -0,0 +1,44 @@
+import { createContext } from 'astro/middleware';
+import { describe, expect, it, vi } from 'vitest';
+
+import { createNewsEntry } from '../test/content-entries';
+import { buildNewsFeed } from './feed';
+
+const collections = vi.hoisted(() => ({ news: [] as unknown[] }));
+
+vi.mock('astro:content', () => ({
+    getCollection: async (name: string, filter: (entry: unknown) => boolean = () => true) =>
+        name === 'news' ? collections.news.filter(filter) : [],
+}));
+
+const context = createContext({
+    request: new Request('https://ambilab.com/rss.xml'),
+    defaultLocale: 'en',
+    locals: { locale: 'en', nonce: '' },
+});
+const now = new Date('2025-06-01T12:00:00Z');
+
+describe('buildNewsFeed', () => {
+    it('should date the feed by its newest item', async () => {
+        collections.news = [
+            createNewsEntry('en/old.mdx', { pubDate: new Date('2025-01-01') }),
+            createNewsEntry('en/edited.mdx', {
+                pubDate: new Date('2025-02-01'),
+                updatedDate: new Date('2025-05-01'),
+            }),
+        ];
+
+        const feed = await buildNewsFeed(context, 'en', 'English', 'en', { clock: () => now });
+
+        expect(feed.updated).toEqual(new Date('2025-05-01'));
+    });
+
+    it('should date an empty feed by the clock, not the epoch', async () => {
+        collections.news = [createNewsEntry('en/scheduled.mdx', { pubDate: new Date('2025-07-01') })];
+
+        const feed = await buildNewsFeed(context, 'en', 'English', 'en', { clock: () => now });
+
+        expect(feed.items).toEqual([]);
+        expect(feed.updated).toEqual(now);
+    });
+});
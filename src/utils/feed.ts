@@ -0,0 +1,283 @@
+/**
+ * News Feed Model
+ *
+ * Builds a format-agnostic model of the news feed for a locale. The RSS,
+ * Atom, and JSON Feed endpoints all serialize this same model, so every
+ * format carries the same items, links, and metadata.
+ */
+
+import { getRoute } from '@config/routes';
+import { SITE } from '@config/site';
+import { getTranslation } from '@i18n/translations';
+import type { Locale } from '@type/locale';
+import type { APIContext } from 'astro';
+
+import { getPostAuthor } from './authors';
+import { type Clock, loadLocaleContent, normalizeSlug, sortNewsPostsByDate } from './content-loader';
+import { ContentError, isAmbiLabError } from './errors';
+import { renderFeedHtml } from './feed-content';
+import { type FeedFormat, serializeAtom, serializeJsonFeed } from './feed-serializers';
+import { createLogger } from './logger';
+import { collectNewsTags, getNewsTagFeedLink, getNewsTagLink } from './news-tags';
+
+const logger = createLogger({ prefix: 'Feed' });
+
+// #region Type Definitions
+
+export interface FeedAuthor {
+    name: string;
+    url: string;
+}
+
+export interface FeedItem {
+    /** Stable, globally unique ID (the absolute post URL) */
+    id: string;
+
+    /** Absolute URL of the post */
+    url: string;
+
+    title: string;
+    summary: string;
+
+    /** Rendered post body, only present when full content was requested */
+    contentHtml: string | undefined;
+
+    published: Date;
+    updated: Date | undefined;
+    categories: string[];
+
+    /** The post's author, or the site author when the post names none */
+    author: FeedAuthor;
+}
+
+export interface FeedLinks {
+    /** Absolute URL of the HTML page the feed mirrors */
+    html: string;
+
+    /** Absolute URLs of each serialized format, used for self links */
+    rss: string;
+    atom: string;
+    json: string;
+}
+
+export interface NewsFeed {
+    title: string;
+    description: string;
+    locale: Locale;
+
+    /** BCP 47 language tag, e.g. 'en-US' */
+    language: string;
+
+    links: FeedLinks;
+
+    /** Most recent publish or update date across all items */
+    updated: Date;
+
+    author: FeedAuthor;
+    items: FeedItem[];
+}
+
+export interface NewsFeedOptions {
+    /** Maximum number of items (defaults to 20) */
+    limit?: number;
+
+    /** Render each post body to HTML (defaults to false) */
+    fullContent?: boolean;
+
+    /** Only include posts with this tag slug */
+    tag?: string;
+
+    /** Clock for the publish check and the update time of an empty feed (defaults to the system clock) */
+    clock?: Clock;
+}
+
+// #endregion
+
+// #region Helper Functions
+
+const DEFAULT_FEED_LIMIT = 20;
+
+export function getNewsPostLink(postId: string, locale: Locale): string {
+    if (!postId.includes('/')) {
+        throw new Error(`Invalid post ID format: ${postId}. Expected format: "locale/slug.mdx"`);
+    }
+
+    return `${getRoute('news', locale)}/${normalizeSlug(postId)}`;
+}
+
+/**
+ * Resolves and validates the absolute site URL for feed links.
+ */
+export function resolveSiteUrl(context: APIContext): URL {
+    const rawSiteUrl = context.site?.toString() || SITE.URL;
+
+    try {
+        const siteUrl = new URL(rawSiteUrl);
+
+        if (siteUrl.protocol !== 'http:' && siteUrl.protocol !== 'https:') {
+            throw new Error(`Invalid protocol: ${siteUrl.protocol}`);
+        }
+
+        return siteUrl;
+    } catch {
+        throw new Error(`Invalid site URL: ${rawSiteUrl}`);
+    }
+}
+
+// #endregion
+
+// #region Main Exports
+
+/**
+ * Builds the news feed model for a locale.
+ *
+ * @param context - The API context of the feed endpoint
+ * @param locale - The locale of the feed
+ * @param localeLabel - Human-readable language name used in the feed title
+ * @param languageCode - BCP 47 language tag of the feed
+ * @param options - Item limit, full-content rendering, tag filter, and clock
+ * @returns The feed model, ready for any serializer
+ * @throws ContentError if a tag filter is given and no post carries the tag
+ */
+export async function buildNewsFeed(
+    context: APIContext,
+    locale: Locale,
+    localeLabel: string,
+    languageCode: string,
+    options: NewsFeedOptions = {},
+): Promise<NewsFeed> {
+    const { limit = DEFAULT_FEED_LIMIT, fullContent = false, tag: tagSlug, clock = () => new Date() } = options;
+
+    const content = await loadLocaleContent(locale, { clock });
+    const tag =
+        tagSlug === undefined
+            ? undefined
+            : collectNewsTags(content.newsPosts, locale).find((candidate) => candidate.slug === tagSlug);
+
+    if (tagSlug !== undefined && !tag) {
+        throw new ContentError(`No news posts tagged "${tagSlug}" for locale: ${locale}`, tagSlug);
+    }
+
+    const recentPosts = (tag?.posts ?? sortNewsPostsByDate(content.newsPosts)).slice(0, limit);
+
+    const siteUrl = resolveSiteUrl(context);
+    const toAbsolute = (path: string): string => new URL(path, siteUrl).toString();
+    const author: FeedAuthor = { name: SITE.AUTHOR, url: SITE.URL };
+
+    const items = await Promise.all(
+        recentPosts.map(async (post): Promise<FeedItem> => {
+            const url = toAbsolute(getNewsPostLink(post.id, locale));
+            const postAuthor = getPostAuthor(post, content.authorMap, locale);
+
+            return {
+                id: url,
+                url,
+                title: post.data.title,
+                summary: post.data.description,
+                contentHtml: fullContent ? await renderFeedHtml(post.body, url) : undefined,
+                published: post.data.pubDate,
+                updated: post.data.updatedDate,
+                categories: post.data.tags,
+                author: { name: postAuthor.name, url: toAbsolute(postAuthor.url) },
+            };
+        }),
+    );
+
+    // A feed without items was last updated now, not at the epoch.
+    const updated =
+        items.length > 0
+            ? new Date(Math.max(...items.map((item) => (item.updated ?? item.published).getTime())))
+            : clock();
+
+    return {
+        title: tag ? `${SITE.NAME} - ${localeLabel} - #${tag.name}` : `${SITE.NAME} - ${localeLabel}`,
+        description: getTranslation(locale).footer.description,
+        locale,
+        language: languageCode,
+        links: {
+            html: toAbsolute(tag ? getNewsTagLink(tag.name, locale) : getRoute('news', locale)),
+            rss: toAbsolute(tag ? getNewsTagFeedLink(tag.name, locale) : getRoute('rss', locale)),
+            atom: toAbsolute(getRoute('atom', locale)),
+            json: toAbsolute(getRoute('jsonFeed', locale)),
+        },
+        updated,
+        author,
+        items,
+    };
+}
+
+/**
+ * Builds the error response returned when a feed cannot be generated.
+ *
+ * @param format - The feed format that failed
+ * @param locale - The locale used for the error message
+ * @param error - The error that was thrown; a 404 error (e.g. an unknown tag) keeps its status
+ * @returns An error response in the format's media type family
+ */
+export function createFeedErrorResponse(format: FeedFormat, locale: Locale, error?: unknown): Response {
+    const t = getTranslation(locale);
+    const status = isAmbiLabError(error) && error.statusCode === 404 ? 404 : 500;
+    const message =
+        status === 404 ? t.rss.notFoundMessage : format === 'rss' ? t.rss.errorMessage : t.rss.feedErrorMessage;
+
+    const body =
+        format === 'json'
+            ? JSON.stringify({ error: message })
+            : `<?xml version="1.0" encoding="utf-8"?>
+<error>
+    <message>${message}</message>
+</error>`;
+
+    return new Response(body, {
+        status,
+        headers: {
+            'Content-Type': format === 'json' ? 'application/json' : 'application/xml',
+        },
+    });
+}
+
+/**
+ * Generates the Atom 1.0 news feed for a locale.
+ */
+export async function generateAtomFeed(
+    context: APIContext,
+    locale: Locale,
+    localeLabel: string,
+    languageCode: string,
+): Promise<Response> {
+    try {
+        const feed = await buildNewsFeed(context, locale, localeLabel, languageCode, { fullContent: true });
+
+        return new Response(serializeAtom(feed), {
+            headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' },
+        });
+    } catch (error) {
+        logger.error(`Failed to generate Atom feed for locale ${locale}`, error);
+
+        return createFeedErrorResponse('atom', locale);
+    }
+}
+
+/**
+ * Generates the JSON Feed 1.1 news feed for a locale.
+ */
+export async function generateJsonFeed(
+    context: APIContext,
+    locale: Locale,
+    localeLabel: string,
+    languageCode: string,
+): Promise<Response> {
+    try {
+        const feed = await buildNewsFeed(context, locale, localeLabel, languageCode, { fullContent: true });
+
+        return new Response(serializeJsonFeed(feed), {
+            headers: { 'Content-Type': 'application/feed+json; charset=utf-8' },
+        });
+    } catch (error) {
+        logger.error(`Failed to generate JSON feed for locale ${locale}`, error);
+
+        return createFeedErrorResponse('json', locale);
+    }
+}
+
+// #endregion
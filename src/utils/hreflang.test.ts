@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+    buildHreflangAlternates,
+    findNonReciprocalAlternates,
+    findTranslatedEntry,
+    getLocaleUrl,
+    type TranslatableEntry,
+} from './hreflang';
+
+function createEntry(id: string, translations?: TranslatableEntry['data']['translations']): TranslatableEntry {
+    const locale = id.startsWith('cs/') ? 'cs' : 'en';
+
+    return { id, data: translations ? { locale, translations } : { locale } };
+}
+
+describe('getLocaleUrl', () => {
+    it('should prefix the path with the locale domain', () => {
+        expect(getLocaleUrl('en', '/news')).toBe('https://ambilab.com/news');
+        expect(getLocaleUrl('cs', '/')).toBe('https://ambilab.cz/');
+    });
+});
+
+describe('buildHreflangAlternates', () => {
+    it('should list every locale version and an x-default on the default locale', () => {
+        expect(buildHreflangAlternates({ cs: '/novinky/post', en: '/news/post' })).toEqual([
+            { hreflang: 'en', href: 'https://ambilab.com/news/post' },
+            { hreflang: 'cs', href: 'https://ambilab.cz/novinky/post' },
+            { hreflang: 'x-default', href: 'https://ambilab.com/news/post' },
+        ]);
+    });
+
+    it('should return no alternates for content in a single locale', () => {
+        expect(buildHreflangAlternates({ cs: '/novinky/post' })).toEqual([]);
+        expect(buildHreflangAlternates({})).toEqual([]);
+    });
+});
+
+describe('findTranslatedEntry', () => {
+    const translationMap = new Map([
+        ['hello', createEntry('cs/hello.mdx', { en: 'hello-world' })],
+        ['orphan', createEntry('cs/orphan.mdx', { en: 'someone-else' })],
+        ['index', createEntry('cs/index.mdx', { en: 'index' })],
+    ]);
+
+    it('should return the translation when it names the entry back', () => {
+        expect(findTranslatedEntry(createEntry('en/hello-world.mdx', { cs: 'hello' }), 'cs', translationMap)?.id).toBe(
+            'cs/hello.mdx',
+        );
+        expect(findTranslatedEntry(createEntry('en/index.mdx', { cs: 'index' }), 'cs', translationMap)?.id).toBe(
+            'cs/index.mdx',
+        );
+    });
+
+    it('should only follow the slug given for the requested locale', () => {
+        expect(
+            findTranslatedEntry(createEntry('en/hello-world.mdx', { en: 'hello' }), 'cs', translationMap),
+        ).toBeUndefined();
+    });
+
+    it('should ignore translations that point elsewhere', () => {
+        expect(
+            findTranslatedEntry(createEntry('en/hello-world.mdx', { cs: 'orphan' }), 'cs', translationMap),
+        ).toBeUndefined();
+    });
+
+    it('should return undefined for missing or unset translations', () => {
+        expect(
+            findTranslatedEntry(createEntry('en/hello-world.mdx', { cs: 'missing' }), 'cs', translationMap),
+        ).toBeUndefined();
+        expect(findTranslatedEntry(createEntry('en/hello-world.mdx'), 'cs', translationMap)).toBeUndefined();
+    });
+});
+
+describe('findNonReciprocalAlternates', () => {
+    const alternates = buildHreflangAlternates({ en: '/news/post', cs: '/novinky/post' });
+
+    it('should accept pages that link each other', () => {
+        expect(
+            findNonReciprocalAlternates([
+                { url: 'https://ambilab.com/news/post', alternates },
+                { url: 'https://ambilab.cz/novinky/post', alternates },
+            ]),
+        ).toEqual([]);
+    });
+
+    it('should report alternates the target does not link back', () => {
+        expect(
+            findNonReciprocalAlternates([
+                { url: 'https://ambilab.com/news/post', alternates },
+                { url: 'https://ambilab.cz/novinky/post', alternates: [] },
+            ]),
+        ).toEqual([{ from: 'https://ambilab.com/news/post', to: 'https://ambilab.cz/novinky/post' }]);
+    });
+
+    it('should report alternates pointing at unknown pages', () => {
+        expect(findNonReciprocalAlternates([{ url: 'https://ambilab.com/news/post', alternates }])).toEqual([
+            { from: 'https://ambilab.com/news/post', to: 'https://ambilab.cz/novinky/post' },
+        ]);
+    });
+});
@@ -0,0 +1,158 @@
+/**
+ * hreflang Alternates
+ *
+ * Every locale is served from its own domain, so alternates are absolute URLs
+ * on the locale's domain from LOCALE_CONFIGS.
+ * Both the page head and the sitemaps use these helpers, so they always agree.
+ *
+ * Search engines ignore alternates that are not confirmed by the other side,
+ * so translations are only paired when both entries point at each other.
+ */
+
+import { DEFAULT_LOCALE, LOCALES } from '@i18n/config';
+import { getLocaleDomain } from '@i18n/utils';
+import type { Locale } from '@type/locale';
+
+import { normalizeSlug } from './content-loader';
+
+// #region Type Definitions
+
+/**
+ * hreflang value of the fallback alternate for unmatched languages.
+ */
+export const X_DEFAULT = 'x-default';
+
+export interface HreflangAlternate {
+    /** Locale code or 'x-default' */
+    hreflang: string;
+
+    /** Absolute URL on the locale's domain */
+    href: string;
+}
+
+/**
+ * Site-relative paths of one piece of content, keyed by locale.
+ */
+export type LocalizedPaths = Partial<Record<Locale, string>>;
+
+/**
+ * Any collection entry that can name its translations.
+ */
+export interface TranslatableEntry {
+    id: string;
+    data: {
+        locale: Locale;
+
+        /** Slugs of the translations, keyed by locale */
+        translations?: Partial<Record<Locale, string>> | undefined;
+    };
+}
+
+/**
+ * A page and the alternates it declares.
+ */
+export interface AlternatePage {
+    url: string;
+    alternates: HreflangAlternate[];
+}
+
+/**
+ * An alternate that the target page does not link back.
+ */
+export interface NonReciprocalAlternate {
+    /** URL of the page declaring the alternate */
+    from: string;
+
+    /** URL of the alternate */
+    to: string;
+}
+
+// #endregion
+
+// #region Main Exports
+
+/**
+ * Builds an absolute URL on a locale's domain.
+ *
+ * @param locale - Locale whose domain to use
+ * @param path - Site-relative path
+ * @returns Absolute URL, e.g. 'https://ambilab.cz/novinky'
+ */
+export function getLocaleUrl(locale: Locale, path: string): string {
+    return `${getLocaleDomain(locale)}${path}`;
+}
+
+/**
+ * Builds the hreflang alternates of a piece of content.
+ *
+ * Content available in a single locale gets no alternates. Otherwise every
+ * locale version is listed (including the current one, as the spec requires)
+ * plus x-default pointing at the default locale's version.
+ *
+ * @param paths - Paths of the content in each locale it exists in
+ * @returns Alternates in LOCALES order followed by x-default
+ */
+export function buildHreflangAlternates(paths: LocalizedPaths): HreflangAlternate[] {
+    const alternates = LOCALES.flatMap((locale) => {
+        const path = paths[locale];
+
+        return path === undefined ? [] : [{ hreflang: locale, href: getLocaleUrl(locale, path) }];
+    });
+
+    const [first] = alternates;
+
+    if (!first || alternates.length < 2) {
+        return [];
+    }
+
+    const defaultAlternate = alternates.find((alternate) => alternate.hreflang === DEFAULT_LOCALE) ?? first;
+
+    return [...alternates, { hreflang: X_DEFAULT, href: defaultAlternate.href }];
+}
+
+/**
+ * Finds the translation of an entry into a locale, but only if it names the entry back.
+ *
+ * @param entry - Entry whose translation to find
+ * @param translationLocale - Locale of the translation
+ * @param translationMap - Entries of that locale, keyed by normalized slug
+ * @returns The translated entry, or undefined when missing or not reciprocal
+ */
+export function findTranslatedEntry<T extends TranslatableEntry>(
+    entry: TranslatableEntry,
+    translationLocale: Locale,
+    translationMap: Map<string, T>,
+): T | undefined {
+    const translationSlug = entry.data.translations?.[translationLocale];
+    const translation = translationSlug ? translationMap.get(translationSlug) : undefined;
+
+    return translation?.data.translations?.[entry.data.locale] === normalizeSlug(entry.id) ? translation : undefined;
+}
+
+/**
+ * Lists alternates whose target does not declare the page in return.
+ *
+ * x-default and self references are not checked; a target missing from
+ * `pages` counts as not linking back.
+ *
+ * @param pages - Pages with their declared alternates
+ * @returns One item per one-sided alternate
+ */
+export function findNonReciprocalAlternates(pages: AlternatePage[]): NonReciprocalAlternate[] {
+    const pagesByUrl = new Map(pages.map((page) => [page.url, page]));
+
+    return pages.flatMap((page) =>
+        page.alternates
+            .filter((alternate) => alternate.hreflang !== X_DEFAULT && alternate.href !== page.url)
+            .filter((alternate) => {
+                const target = pagesByUrl.get(alternate.href);
+
+                return !target?.alternates.some(
+                    (backLink) => backLink.hreflang !== X_DEFAULT && backLink.href === page.url,
+                );
+            })
+            .map((alternate) => ({ from: page.url, to: alternate.href })),
+    );
+}
+
+// #endregion
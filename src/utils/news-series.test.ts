@@ -0,0 +1,88 @@
+import type { CollectionEntry } from 'astro:content';
+import { describe, expect, it } from 'vitest';
+
+import { createNewsEntry } from '../test/content-entries';
+import { collectNewsSeries, findNewsSeriesIssues, getNewsSeriesLink, getNewsSeriesNavigation } from './news-series';
+
+function createPost(id: string, series?: { id: string; part: number; title?: string }): CollectionEntry<'news'> {
+    return createNewsEntry(id, series ? { series } : {});
+}
+
+describe('findNewsSeriesIssues', () => {
+    it('should accept parts numbered 1..N', () => {
+        expect(
+            findNewsSeriesIssues([
+                { source: 'a', seriesId: 'demo', part: 2 },
+                { source: 'b', seriesId: 'demo', part: 1 },
+            ]),
+        ).toEqual([]);
+    });
+
+    it('should report duplicate part numbers', () => {
+        expect(
+            findNewsSeriesIssues([
+                { source: 'a', seriesId: 'demo', part: 1 },
+                { source: 'b', seriesId: 'demo', part: 1 },
+            ]),
+        ).toEqual(['Series "demo" has duplicate part 1: a, b']);
+    });
+
+    it('should report gaps, including a missing first part', () => {
+        expect(
+            findNewsSeriesIssues([
+                { source: 'a', seriesId: 'demo', part: 2 },
+                { source: 'b', seriesId: 'demo', part: 4 },
+            ]),
+        ).toEqual(['Series "demo" is missing part 1 of 4', 'Series "demo" is missing part 3 of 4']);
+    });
+});
+
+describe('getNewsSeriesLink', () => {
+    it('should build localized series paths', () => {
+        expect(getNewsSeriesLink('blit-tech', 'en')).toBe('/news/series/blit-tech');
+        expect(getNewsSeriesLink('blit-tech', 'cs')).toBe('/novinky/serial/blit-tech');
+    });
+});
+
+describe('collectNewsSeries', () => {
+    it('should group posts by series and order them by part', () => {
+        const series = collectNewsSeries([
+            createPost('en/two.mdx', { id: 'demo', part: 2, title: 'Demo Series' }),
+            createPost('en/standalone.mdx'),
+            createPost('en/one.mdx', { id: 'demo', part: 1 }),
+        ]);
+
+        expect(series).toHaveLength(1);
+        expect(series[0]?.title).toBe('Demo Series');
+        expect(series[0]?.posts.map((post) => post.id)).toEqual(['en/one.mdx', 'en/two.mdx']);
+    });
+
+    it('should fall back to the series ID as title', () => {
+        expect(collectNewsSeries([createPost('en/one.mdx', { id: 'demo', part: 1 })])[0]?.title).toBe('demo');
+    });
+});
+
+describe('getNewsSeriesNavigation', () => {
+    const first = createPost('en/one.mdx', { id: 'demo', part: 1 });
+    const second = createPost('en/two.mdx', { id: 'demo', part: 2 });
+    const third = createPost('en/three.mdx', { id: 'demo', part: 3 });
+    const posts = [first, second, third, createPost('en/other.mdx', { id: 'other', part: 1 })];
+
+    it('should return the position and neighbors of a part', () => {
+        const navigation = getNewsSeriesNavigation(second, posts);
+
+        expect(navigation?.part).toBe(2);
+        expect(navigation?.total).toBe(3);
+        expect(navigation?.previous?.id).toBe('en/one.mdx');
+        expect(navigation?.next?.id).toBe('en/three.mdx');
+    });
+
+    it('should omit neighbors at the ends of a series', () => {
+        expect(getNewsSeriesNavigation(first, posts)?.previous).toBeUndefined();
+        expect(getNewsSeriesNavigation(third, posts)?.next).toBeUndefined();
+    });
+
+    it('should return undefined for posts outside a series', () => {
+        expect(getNewsSeriesNavigation(createPost('en/solo.mdx'), posts)).toBeUndefined();
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * News Series Utilities
+ *
+ * Groups multi-part news posts by their `series` frontmatter, orders them by
+ * part number, and builds the "Part N of M" navigation and series landing links.
+ *
+ * Part numbering is validated at build time by scripts/validate-content.mjs;
+ * at runtime inconsistencies are only logged, because a draft or scheduled
+ * part can legitimately leave a temporary hole in the published sequence.
+ */
+
+import { getRoute } from '@config/routes';
+import type { Locale } from '@type/locale';
+import type { CollectionEntry } from 'astro:content';
+
+import { createLogger } from './logger';
+
+const logger = createLogger({ prefix: 'NewsSeries' });
+
+/**
+ * A series together with its parts in reading order.
+ */
+export interface NewsSeries {
+    /** Series ID from frontmatter, used in the landing route */
+    id: string;
+
+    /** Series title from the first part that defines one, falling back to the ID */
+    title: string;
+
+    /** Posts in the series, sorted by part number */
+    posts: CollectionEntry<'news'>[];
+}
+
+/**
+ * Position of a post within its series.
+ */
+export interface NewsSeriesNavigation {
+    series: NewsSeries;
+
+    /** 1-based position of the post in the series */
+    part: number;
+
+    /** Number of parts in the series */
+    total: number;
+
+    previous: CollectionEntry<'news'> | undefined;
+    next: CollectionEntry<'news'> | undefined;
+}
+
+/**
+ * Minimal part reference used for validation.
+ */
+export interface NewsSeriesPart {
+    /** Entry ID or file path, used in messages */
+    source: string;
+    seriesId: string;
+    part: number;
+}
+
+/**
+ * Finds duplicated or missing part numbers.
+ *
+ * Parts of a series must be numbered 1..M with no duplicates or gaps.
+ *
+ * @param parts - Series parts to check (one locale at a time)
+ * @returns Human-readable issues, empty when numbering is consistent
+ */
+export function findNewsSeriesIssues(parts: NewsSeriesPart[]): string[] {
+    const partsBySeries = new Map<string, NewsSeriesPart[]>();
+
+    for (const part of parts) {
+        partsBySeries.set(part.seriesId, [...(partsBySeries.get(part.seriesId) ?? []), part]);
+    }
+
+    const issues: string[] = [];
+
+    for (const [seriesId, seriesParts] of partsBySeries) {
+        const numbers = new Map<number, string[]>();
+
+        for (const part of seriesParts) {
+            numbers.set(part.part, [...(numbers.get(part.part) ?? []), part.source]);
+        }
+
+        for (const [number, sources] of numbers) {
+            if (sources.length > 1) {
+                issues.push(`Series "${seriesId}" has duplicate part ${number}: ${sources.join(', ')}`);
+            }
+        }
+
+        const highest = Math.max(...numbers.keys());
+
+        for (let number = 1; number <= highest; number++) {
+            if (!numbers.has(number)) {
+                issues.push(`Series "${seriesId}" is missing part ${number} of ${highest}`);
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Builds the landing page path for a series in the given locale.
+ *
+ * @param seriesId - Series ID from frontmatter
+ * @param locale - The locale of the landing page
+ * @returns Path such as '/news/series/blit-tech-demos'
+ */
+export function getNewsSeriesLink(seriesId: string, locale: Locale): string {
+    return `${getRoute('newsSeries', locale)}/${seriesId}`;
+}
+
+/**
+ * Groups news posts into series.
+ *
+ * @param posts - News posts of a single locale
+ * @returns Series sorted by ID, each with its parts in reading order
+ */
+export function collectNewsSeries(posts: CollectionEntry<'news'>[]): NewsSeries[] {
+    const seriesPosts = posts.flatMap((post) => (post.data.series ? [{ post, series: post.data.series }] : []));
+
+    for (const issue of findNewsSeriesIssues(
+        seriesPosts.map(({ post, series }) => ({ source: post.id, seriesId: series.id, part: series.part })),
+    )) {
+        logger.warn(issue);
+    }
+
+    const seriesMap = new Map<string, typeof seriesPosts>();
+
+    for (const entry of seriesPosts) {
+        seriesMap.set(entry.series.id, [...(seriesMap.get(entry.series.id) ?? []), entry]);
+    }
+
+    return Array.from(seriesMap.entries())
+        .map(([id, parts]) => {
+            const sortedParts = [...parts].sort(
+                (a, b) => a.series.part - b.series.part || a.post.id.localeCompare(b.post.id),
+            );
+
+            return {
+                id,
+                title: sortedParts.find(({ series }) => series.title)?.series.title ?? id,
+                posts: sortedParts.map(({ post }) => post),
+            };
+        })
+        .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Computes the series navigation for a post.
+ *
+ * @param post - The post being viewed
+ * @param posts - All posts of the locale (usually LocaleContent.newsPosts)
+ * @returns Navigation data, or undefined when the post is not part of a series
+ */
+export function getNewsSeriesNavigation(
+    post: CollectionEntry<'news'>,
+    posts: CollectionEntry<'news'>[],
+): NewsSeriesNavigation | undefined {
+    const seriesId = post.data.series?.id;
+
+    if (!seriesId) {
+        return undefined;
+    }
+
+    const series = collectNewsSeries(posts.filter((candidate) => candidate.data.series?.id === seriesId))[0];
+    const index = series?.posts.findIndex((candidate) => candidate.id === post.id) ?? -1;
+
+    if (!series || index < 0) {
+        return undefined;
+    }
+
+    return {
+        series,
+        part: index + 1,
+        total: series.posts.length,
+        previous: series.posts[index - 1],
+        next: series.posts[index + 1],
+    };
+}
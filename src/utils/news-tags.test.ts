@@ -0,0 +1,68 @@
+import type { CollectionEntry } from 'astro:content';
+import { describe, expect, it } from 'vitest';
+
+import { createNewsEntry } from '../test/content-entries';
+import { collectNewsTags, getNewsTagFeedLink, getNewsTagLink, getTagSlug } from './news-tags';
+
+function createPost(id: string, tags: string[], pubDate: string): CollectionEntry<'news'> {
+    return createNewsEntry(id, { tags, pubDate: new Date(pubDate) });
+}
+
+describe('getTagSlug', () => {
+    it('should lowercase and dash-join words', () => {
+        expect(getTagSlug('Game Dev')).toBe('game-dev');
+        expect(getTagSlug('WebGPU')).toBe('webgpu');
+    });
+
+    it('should strip Czech diacritics', () => {
+        expect(getTagSlug('oznámení')).toBe('oznameni');
+        expect(getTagSlug('Řešení')).toBe('reseni');
+    });
+
+    it('should trim leading and trailing separators', () => {
+        expect(getTagSlug('  #hello!  ')).toBe('hello');
+    });
+});
+
+describe('getNewsTagLink', () => {
+    it('should build localized tag archive paths', () => {
+        expect(getNewsTagLink('WebGPU', 'en')).toBe('/news/tags/webgpu');
+        expect(getNewsTagLink('oznámení', 'cs')).toBe('/novinky/stitky/oznameni');
+    });
+});
+
+describe('getNewsTagFeedLink', () => {
+    it('should build localized tag feed paths', () => {
+        expect(getNewsTagFeedLink('WebGPU', 'en')).toBe('/en/news/tags/webgpu.xml');
+        expect(getNewsTagFeedLink('oznámení', 'cs')).toBe('/cs/novinky/stitky/oznameni.xml');
+    });
+});
+
+describe('collectNewsTags', () => {
+    it('should group posts by tag and sort posts newest first', () => {
+        const older = createPost('en/older.mdx', ['webgpu'], '2024-01-01');
+        const newer = createPost('en/newer.mdx', ['webgpu', 'demo'], '2024-06-01');
+
+        const tags = collectNewsTags([older, newer], 'en');
+
+        expect(tags.map((tag) => tag.slug)).toEqual(['demo', 'webgpu']);
+        expect(tags[1]?.posts).toEqual([newer, older]);
+    });
+
+    it('should merge tags that share a slug', () => {
+        const first = createPost('en/first.mdx', ['WebGPU'], '2024-01-01');
+        const second = createPost('en/second.mdx', ['webgpu'], '2024-02-01');
+
+        const tags = collectNewsTags([first, second], 'en');
+
+        expect(tags).toHaveLength(1);
+        expect(tags[0]?.name).toBe('WebGPU');
+        expect(tags[0]?.posts).toHaveLength(2);
+    });
+
+    it('should ignore tags without a usable slug', () => {
+        const post = createPost('en/post.mdx', ['!!!'], '2024-01-01');
+
+        expect(collectNewsTags([post], 'en')).toEqual([]);
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * News Tag Utilities
+ *
+ * Groups news posts by their frontmatter tags and builds the URL-safe
+ * slugs used by the localized tag archive routes.
+ */
+
+import { getRoute } from '@config/routes';
+import type { Locale } from '@type/locale';
+import type { CollectionEntry } from 'astro:content';
+
+import { sortNewsPostsByDate } from './content-loader';
+import { slugify } from './slug';
+
+/**
+ * A tag together with every news post that carries it.
+ */
+export interface NewsTag {
+    /** Tag label as written in the first post that uses it */
+    name: string;
+
+    /** URL-safe slug used in the tag archive route */
+    slug: string;
+
+    /** Posts carrying the tag, sorted newest first */
+    posts: CollectionEntry<'news'>[];
+}
+
+/**
+ * Converts a tag label into a URL-safe slug.
+ *
+ * Diacritics are stripped so Czech tags produce ASCII URLs.
+ *
+ * @param tag - The tag label from frontmatter
+ * @returns Lowercase slug with words joined by dashes
+ *
+ * @example
+ * getTagSlug('WebGPU') // 'webgpu'
+ * getTagSlug('oznámení') // 'oznameni'
+ */
+export function getTagSlug(tag: string): string {
+    return slugify(tag);
+}
+
+/**
+ * Builds the archive path for a tag in the given locale.
+ *
+ * @param tag - The tag label from frontmatter
+ * @param locale - The locale of the archive
+ * @returns Path such as '/news/tags/webgpu'
+ */
+export function getNewsTagLink(tag: string, locale: Locale): string {
+    return `${getRoute('newsTags', locale)}/${getTagSlug(tag)}`;
+}
+
+/**
+ * Builds the RSS feed path for a tag in the given locale.
+ *
+ * @param tag - The tag label from frontmatter
+ * @param locale - The locale of the feed
+ * @returns Path such as '/en/news/tags/webgpu.xml'
+ */
+export function getNewsTagFeedLink(tag: string, locale: Locale): string {
+    return `${getRoute('newsTagRss', locale)}/${getTagSlug(tag)}.xml`;
+}
+
+/**
+ * Groups news posts by tag.
+ *
+ * Tags that differ only in case or diacritics share one slug and are merged.
+ * Tags that produce an empty slug are ignored.
+ *
+ * @param posts - News posts to group
+ * @param locale - The locale used to sort tag names
+ * @returns Tags sorted alphabetically, each with its posts sorted newest first
+ */
+export function collectNewsTags(posts: CollectionEntry<'news'>[], locale: Locale): NewsTag[] {
+    const tagMap = new Map<string, NewsTag>();
+
+    for (const post of posts) {
+        for (const name of post.data.tags) {
+            const slug = getTagSlug(name);
+
+            if (!slug) {
+                continue;
+            }
+
+            const tag: NewsTag = tagMap.get(slug) ?? { name, slug, posts: [] };
+
+            if (!tag.posts.includes(post)) {
+                tag.posts.push(post);
+            }
+
+            tagMap.set(slug, tag);
+        }
+    }
+
+    return Array.from(tagMap.values())
+        .map((tag) => ({ ...tag, posts: sortNewsPostsByDate(tag.posts) }))
+        .sort((a, b) => a.name.localeCompare(b.name, locale));
+}
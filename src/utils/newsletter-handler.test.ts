@@ -0,0 +1,501 @@
+// @vitest-environment node
+// Runs like the worker: happy-dom's Request drops the Origin header as a browser would.
+
+import type { Locale } from '@type/locale';
+import type { APIContext } from 'astro';
+import { createContext as createAstroContext } from 'astro/middleware';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { onRequest } from '../middleware';
+import { ConfigurationError } from './errors';
+import { createLocalNewsletterProvider, type LocalNewsletterProvider } from './newsletter';
+import {
+    checkNewsletterToken,
+    confirmNewsletterSubscription,
+    createNewsletterHandler,
+    createNewsletterUnsubscribeHandler,
+    type GetNewsletterDependencies,
+    NEWSLETTER_CONFIRM_PATH,
+    unsubscribeNewsletterSubscriber,
+} from './newsletter-handler';
+import { createConfirmationTokenPayload, signNewsletterToken } from './newsletter-token';
+import { createMemoryRateLimitStore, type RateLimitStore } from './rate-limit';
+
+const SECRET = 'test-secret';
+
+function createRequest(body: unknown, headers: Record<string, string> = {}): Request {
+    return new Request('https://ambilab.cz/api/newsletter', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Origin: 'https://ambilab.cz', ...headers },
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+}
+
+function createContext(body: unknown, headers: Record<string, string> = {}, locale: Locale = 'cs') {
+    return { request: createRequest(body, headers), locals: { locale } };
+}
+
+// What the form sends for a person who took a few seconds to type their address.
+function problem(status: number, title: string, code: string, detail?: string) {
+    return { type: 'about:blank', title, status, ...(detail !== undefined && { detail }), code };
+}
+
+function submission(email?: string): Record<string, unknown> {
+    return { ...(email !== undefined && { email }), website: '', fillTimeMs: 5000 };
+}
+
+// What a mailbox provider's server sends for RFC 8058 one-click: a form POST without our Origin.
+function createUnsubscribeRequest(url: string, headers: Record<string, string> = {}): Request {
+    return new Request(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+        body: 'List-Unsubscribe=One-Click',
+    });
+}
+
+// Runs a request through src/middleware.ts into the route handler, as Astro does.
+async function sendThroughMiddleware(
+    request: Request,
+    handler: (context: APIContext) => Promise<Response>,
+): Promise<Response> {
+    // The middleware sets the locale and nonce itself.
+    const context = createAstroContext({ request, defaultLocale: 'en', locals: { locale: 'en', nonce: '' } });
+    const response = await onRequest(context, () => handler(context));
+
+    if (!response) {
+        throw new Error('The middleware returned no response');
+    }
+
+    return response;
+}
+
+const notConfigured: GetNewsletterDependencies = () => {
+    throw new ConfigurationError('NEWSLETTER_TOKEN_SECRET is not configured', 'NEWSLETTER_TOKEN_SECRET');
+};
+
+describe('newsletter handlers', () => {
+    let provider: LocalNewsletterProvider;
+    let getDependencies: GetNewsletterDependencies;
+    let rateLimitStore: RateLimitStore;
+    let POST: ReturnType<typeof createNewsletterHandler>;
+
+    beforeEach(() => {
+        provider = createLocalNewsletterProvider();
+        getDependencies = () => ({ provider, tokenSecret: SECRET });
+        rateLimitStore = createMemoryRateLimitStore();
+        POST = createNewsletterHandler(getDependencies, () => rateLimitStore);
+    });
+
+    async function subscribe(
+        email: string,
+    ): Promise<{ confirmUrl: string; unsubscribeUrl: string; oneClickUnsubscribeUrl: string }> {
+        await POST(createContext(submission(email)));
+
+        const sent = provider.getSentEmails().at(-1);
+        const oneClickUnsubscribeUrl = sent?.headers['List-Unsubscribe']?.slice(1, -1);
+
+        if (!sent || !oneClickUnsubscribeUrl) {
+            throw new Error('No confirmation email was sent');
+        }
+
+        return { confirmUrl: sent.confirmUrl, unsubscribeUrl: sent.unsubscribeUrl, oneClickUnsubscribeUrl };
+    }
+
+    describe('POST /api/newsletter', () => {
+        it('should email a confirmation link instead of subscribing', async () => {
+            const response = await POST(createContext(submission('reader@example.com')));
+
+            expect(response.status).toBe(200);
+            expect(response.headers.get('Cache-Control')).toBe('no-store');
+            expect(await response.json()).toEqual({
+                success: true,
+                message: 'Check your inbox to confirm your subscription.',
+            });
+            expect(provider.getSubscribers()).toEqual([
+                { email: 'reader@example.com', locale: 'cs', status: 'pending' },
+            ]);
+        });
+
+        it('should link to the landing pages and one-click endpoint on the same host', async () => {
+            const { confirmUrl, unsubscribeUrl, oneClickUnsubscribeUrl } = await subscribe('reader@example.com');
+
+            expect(confirmUrl).toMatch(/^https:\/\/ambilab\.cz\/newsletter\/confirm\?token=[\w-]+\.[\w-]+$/);
+            expect(unsubscribeUrl).toMatch(/^https:\/\/ambilab\.cz\/newsletter\/unsubscribe\?token=[\w-]+\.[\w-]+$/);
+            expect(oneClickUnsubscribeUrl).toMatch(
+                /^https:\/\/ambilab\.cz\/api\/newsletter\/unsubscribe\?token=[\w-]+\.[\w-]+$/,
+            );
+            expect(new URL(unsubscribeUrl).search).toBe(new URL(oneClickUnsubscribeUrl).search);
+        });
+
+        it('should reject a missing or malformed email without calling the provider', async () => {
+            const missing = await POST(createContext(submission()));
+            const malformed = await POST(createContext(submission('not-an-email')));
+
+            expect(missing.status).toBe(400);
+            expect(missing.headers.get('Content-Type')).toBe('application/problem+json');
+            expect(await missing.json()).toEqual(
+                problem(400, 'Bad Request', 'EMAIL_REQUIRED', 'Validation error: Email is required'),
+            );
+            expect(malformed.status).toBe(400);
+            expect(await malformed.json()).toEqual(
+                problem(400, 'Bad Request', 'EMAIL_INVALID', 'Validation error: Email address has an invalid domain'),
+            );
+            expect(provider.getSentEmails()).toEqual([]);
+        });
+
+        it('should reject a JSON body that is not an object', async () => {
+            for (const body of [null, 'x', []]) {
+                const response = await POST(createContext(JSON.stringify(body)));
+
+                expect(response.status).toBe(400);
+                expect(await response.json()).toEqual(
+                    problem(400, 'Bad Request', 'INVALID_BODY', 'Validation error: Request body must be a JSON object'),
+                );
+            }
+
+            expect(provider.getSentEmails()).toEqual([]);
+        });
+
+        it('should reject disposable email addresses', async () => {
+            const response = await POST(createContext(submission('reader@mailinator.com')));
+
+            expect(response.status).toBe(400);
+            expect(await response.json()).toEqual(
+                problem(
+                    400,
+                    'Bad Request',
+                    'EMAIL_DISPOSABLE',
+                    'Validation error: Disposable email addresses are not accepted',
+                ),
+            );
+            expect(provider.getSentEmails()).toEqual([]);
+        });
+
+        it('should subscribe the normalized address', async () => {
+            const response = await POST(createContext(submission('  reader@Example.COM ')));
+
+            expect(response.status).toBe(200);
+            expect(provider.getSubscribers()).toEqual([
+                { email: 'reader@example.com', locale: 'cs', status: 'pending' },
+            ]);
+        });
+
+        it('should pass on the status of a rejected subscription', async () => {
+            await provider.confirm({ email: 'reader@example.com', locale: 'cs' });
+
+            const response = await POST(createContext(submission('Reader@Example.com')));
+
+            expect(response.status).toBe(400);
+            expect(await response.json()).toEqual(
+                problem(400, 'Bad Request', 'NEWSLETTER_ERROR', 'Newsletter error: Email is already subscribed'),
+            );
+            expect(provider.getSentEmails()).toEqual([]);
+        });
+
+        it('should answer 500 when the service is not configured', async () => {
+            const handler = createNewsletterHandler(notConfigured, () => rateLimitStore);
+            const response = await handler(createContext(submission('a@example.com')));
+
+            expect(response.status).toBe(500);
+            expect(await response.json()).toEqual(problem(500, 'Internal Server Error', 'CONFIG_ERROR'));
+        });
+
+        it('should reject a body that is not JSON', async () => {
+            const response = await POST(createContext('email=reader@example.com'));
+
+            expect(response.status).toBe(400);
+            expect(await response.json()).toEqual(
+                problem(400, 'Bad Request', 'INVALID_BODY', 'Validation error: Request body must be valid JSON'),
+            );
+            expect(provider.getSentEmails()).toEqual([]);
+        });
+
+        it('should reject requests from other origins or without one', async () => {
+            const foreign = await POST(
+                createContext(submission('reader@example.com'), { Origin: 'https://evil.example' }),
+            );
+            const lookalike = await POST(
+                createContext(submission('reader@example.com'), { Origin: 'https://ambilab.cz.evil.example' }),
+            );
+            const request = createRequest(submission('reader@example.com'));
+
+            request.headers.delete('Origin');
+
+            const missing = await POST({ request, locals: { locale: 'cs' } });
+
+            expect([foreign.status, lookalike.status, missing.status]).toEqual([403, 403, 403]);
+            expect(await foreign.json()).toMatchObject({ status: 403, code: 'FORBIDDEN_ORIGIN' });
+            expect(provider.getSentEmails()).toEqual([]);
+        });
+
+        it('should accept our other domains, www and the dev server', async () => {
+            const origins = ['https://ambilab.com', 'https://www.ambilab.cz', 'http://localhost:4321'];
+
+            for (const [index, origin] of origins.entries()) {
+                const response = await POST(
+                    createContext(submission(`reader${index}@example.com`), { Origin: origin }),
+                );
+
+                expect(response.status).toBe(200);
+            }
+        });
+
+        it('should pretend success for submissions caught by the bot traps', async () => {
+            const honeypot = await POST(
+                createContext({ ...submission('bot@example.com'), website: 'https://spam.example' }),
+            );
+            const tooFast = await POST(createContext({ ...submission('bot@example.com'), fillTimeMs: 300 }));
+            const noFillTime = await POST(createContext({ email: 'bot@example.com' }));
+
+            for (const response of [honeypot, tooFast, noFillTime]) {
+                expect(response.status).toBe(200);
+                expect(await response.json()).toEqual({
+                    success: true,
+                    message: 'Check your inbox to confirm your subscription.',
+                });
+            }
+
+            expect(provider.getSentEmails()).toEqual([]);
+        });
+
+        it('should limit attempts per client IP with Retry-After', async () => {
+            const headers = { 'CF-Connecting-IP': '203.0.113.7' };
+
+            for (let index = 0; index < 5; index++) {
+                await POST(createContext(submission(`reader${index}@example.com`), headers));
+            }
+
+            const limited = await POST(createContext(submission('reader5@example.com'), headers));
+            const otherIp = await POST(
+                createContext(submission('reader6@example.com'), { 'CF-Connecting-IP': '203.0.113.8' }),
+            );
+
+            expect(limited.status).toBe(429);
+            expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+            expect(await limited.json()).toMatchObject({
+                status: 429,
+                title: 'Too Many Requests',
+                code: 'RATE_LIMITED',
+            });
+            expect(otherIp.status).toBe(200);
+            expect(provider.getSentEmails()).toHaveLength(6);
+        });
+
+        it('should limit attempts per email address across IPs', async () => {
+            for (let index = 0; index < 3; index++) {
+                await POST(
+                    createContext(submission('reader@example.com'), { 'CF-Connecting-IP': `203.0.113.${index}` }),
+                );
+            }
+
+            const limited = await POST(
+                createContext(submission('Reader@Example.com'), { 'CF-Connecting-IP': '203.0.113.99' }),
+            );
+
+            expect(limited.status).toBe(429);
+            expect(limited.headers.get('Retry-After')).toBe('3600');
+            expect(provider.getSentEmails()).toHaveLength(3);
+        });
+    });
+
+    describe('checkNewsletterToken', () => {
+        it('should report the locale of a valid token without acting on it', async () => {
+            const { confirmUrl, unsubscribeUrl } = await subscribe('reader@example.com');
+            const confirmToken = new URL(confirmUrl).searchParams.get('token');
+            const unsubscribeToken = new URL(unsubscribeUrl).searchParams.get('token');
+
+            await expect(checkNewsletterToken(confirmToken, getDependencies, 'confirm')).resolves.toEqual({
+                status: 'valid',
+                locale: 'cs',
+            });
+            await expect(checkNewsletterToken(unsubscribeToken, getDependencies, 'unsubscribe')).resolves.toEqual({
+                status: 'valid',
+                locale: 'cs',
+            });
+            expect(provider.getSubscribers()).toEqual([
+                { email: 'reader@example.com', locale: 'cs', status: 'pending' },
+            ]);
+        });
+
+        it('should reject missing tokens and tokens for another purpose', async () => {
+            const { confirmUrl } = await subscribe('reader@example.com');
+            const confirmToken = new URL(confirmUrl).searchParams.get('token');
+
+            await expect(checkNewsletterToken(null, getDependencies, 'confirm')).resolves.toEqual({
+                status: 'invalid',
+            });
+            await expect(checkNewsletterToken(confirmToken, getDependencies, 'unsubscribe')).resolves.toEqual({
+                status: 'invalid',
+            });
+            await expect(checkNewsletterToken(confirmToken, notConfigured, 'confirm')).resolves.toEqual({
+                status: 'failed',
+            });
+        });
+    });
+
+    describe('confirmNewsletterSubscription', () => {
+        it('should confirm the subscriber in the locale they signed up in', async () => {
+            const { confirmUrl } = await subscribe('reader@example.com');
+            const token = new URL(confirmUrl).searchParams.get('token');
+
+            await expect(confirmNewsletterSubscription(token, getDependencies)).resolves.toEqual({
+                status: 'confirmed',
+                locale: 'cs',
+            });
+            expect(provider.getSubscribers()).toEqual([
+                { email: 'reader@example.com', locale: 'cs', status: 'confirmed' },
+            ]);
+        });
+
+        it('should reject missing, forged and expired tokens', async () => {
+            const issued = new Date('2025-06-01T12:00:00Z');
+            const expired = await signNewsletterToken(
+                createConfirmationTokenPayload('reader@example.com', 'en', 60, issued),
+                SECRET,
+            );
+
+            await expect(confirmNewsletterSubscription(null, getDependencies)).resolves.toEqual({ status: 'invalid' });
+            await expect(confirmNewsletterSubscription('forged.token', getDependencies)).resolves.toEqual({
+                status: 'invalid',
+            });
+            await expect(
+                confirmNewsletterSubscription(expired, getDependencies, new Date('2025-06-02T12:00:00Z')),
+            ).resolves.toEqual({ status: 'invalid' });
+            expect(provider.getSubscribers()).toEqual([]);
+        });
+
+        it('should fail when the service is not configured', async () => {
+            await expect(confirmNewsletterSubscription('any.token', notConfigured)).resolves.toEqual({
+                status: 'failed',
+            });
+        });
+    });
+
+    describe('unsubscribeNewsletterSubscriber', () => {
+        it('should unsubscribe the reader the link was issued for', async () => {
+            const { unsubscribeUrl } = await subscribe('reader@example.com');
+            const token = new URL(unsubscribeUrl).searchParams.get('token');
+
+            await expect(unsubscribeNewsletterSubscriber(token, getDependencies)).resolves.toEqual({
+                status: 'unsubscribed',
+                locale: 'cs',
+            });
+            expect(provider.getSubscribers()).toEqual([]);
+        });
+
+        it('should reject missing and forged tokens', async () => {
+            await subscribe('reader@example.com');
+
+            await expect(unsubscribeNewsletterSubscriber(null, getDependencies)).resolves.toEqual({
+                status: 'invalid',
+            });
+            await expect(unsubscribeNewsletterSubscriber('forged.token', getDependencies)).resolves.toEqual({
+                status: 'invalid',
+            });
+            expect(provider.getSubscribers()).toHaveLength(1);
+        });
+
+        it('should fail when the provider fails', async () => {
+            const { unsubscribeUrl } = await subscribe('reader@example.com');
+            const token = new URL(unsubscribeUrl).searchParams.get('token');
+
+            vi.spyOn(provider, 'unsubscribe').mockRejectedValue(new Error('Service down'));
+
+            await expect(unsubscribeNewsletterSubscriber(token, getDependencies)).resolves.toEqual({
+                status: 'failed',
+                locale: 'cs',
+            });
+        });
+    });
+
+    describe('POST /api/newsletter/unsubscribe', () => {
+        it('should unsubscribe with a one-click POST to the emailed link', async () => {
+            const { oneClickUnsubscribeUrl } = await subscribe('reader@example.com');
+            const response = await createNewsletterUnsubscribeHandler(getDependencies)({
+                request: createUnsubscribeRequest(oneClickUnsubscribeUrl),
+            });
+
+            expect(response.status).toBe(200);
+            expect(await response.json()).toEqual({ success: true, message: 'You have been unsubscribed.' });
+            expect(provider.getSubscribers()).toEqual([]);
+        });
+
+        it('should reject missing tokens and tokens for another purpose', async () => {
+            const { confirmUrl } = await subscribe('reader@example.com');
+            const handler = createNewsletterUnsubscribeHandler(getDependencies);
+            const confirmToken = new URL(confirmUrl).searchParams.get('token') ?? '';
+
+            const missing = await handler({
+                request: createUnsubscribeRequest('https://ambilab.cz/api/newsletter/unsubscribe'),
+            });
+            const wrongPurpose = await handler({
+                request: createUnsubscribeRequest(
+                    `https://ambilab.cz/api/newsletter/unsubscribe?token=${encodeURIComponent(confirmToken)}`,
+                ),
+            });
+
+            expect(missing.status).toBe(400);
+            expect(await missing.json()).toMatchObject({ code: 'TOKEN_REQUIRED' });
+            expect(wrongPurpose.status).toBe(400);
+            expect(await wrongPurpose.json()).toMatchObject({ code: 'TOKEN_INVALID' });
+            expect(provider.getSubscribers()).toHaveLength(1);
+        });
+    });
+
+    describe('through the middleware', () => {
+        it('should let a mailbox provider POST a one-click unsubscribe from another origin', async () => {
+            const { oneClickUnsubscribeUrl } = await subscribe('reader@example.com');
+            const handler = createNewsletterUnsubscribeHandler(getDependencies);
+
+            const withoutOrigin = await sendThroughMiddleware(
+                createUnsubscribeRequest(oneClickUnsubscribeUrl),
+                handler,
+            );
+
+            expect(withoutOrigin.status).toBe(200);
+            expect(provider.getSubscribers()).toEqual([]);
+
+            const multipart = new FormData();
+
+            multipart.set('List-Unsubscribe', 'One-Click');
+
+            const fromProvider = await sendThroughMiddleware(
+                new Request(oneClickUnsubscribeUrl, {
+                    method: 'POST',
+                    headers: { Origin: 'https://mail.example' },
+                    body: multipart,
+                }),
+                handler,
+            );
+
+            expect(fromProvider.status).toBe(200);
+        });
+
+        it('should reject cross-site form submissions elsewhere', async () => {
+            const handler = vi.fn(async () => new Response('OK'));
+            const url = `https://ambilab.cz${NEWSLETTER_CONFIRM_PATH}?token=any`;
+
+            const foreign = await sendThroughMiddleware(
+                createUnsubscribeRequest(url, { Origin: 'https://evil.example' }),
+                handler,
+            );
+            const noContentType = await sendThroughMiddleware(new Request(url, { method: 'POST' }), handler);
+
+            expect([foreign.status, noContentType.status]).toEqual([403, 403]);
+            expect(handler).not.toHaveBeenCalled();
+        });
+
+        it('should let our own pages submit forms', async () => {
+            const handler = vi.fn(async () => new Response('OK'));
+            const url = `https://ambilab.cz${NEWSLETTER_CONFIRM_PATH}?token=any`;
+
+            const response = await sendThroughMiddleware(
+                createUnsubscribeRequest(url, { Origin: 'https://ambilab.cz' }),
+                handler,
+            );
+
+            expect(response.status).toBe(200);
+            expect(handler).toHaveBeenCalledOnce();
+        });
+    });
+});
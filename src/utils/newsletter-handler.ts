@@ -0,0 +1,457 @@
+/**
+ * Newsletter Handlers
+ *
+ * The double opt-in flow, independent of where its provider and token secret
+ * come from: the routes pass the configured ones, tests pass the local provider.
+ *
+ * 1. POST /api/newsletter adds a pending subscriber and emails them a signed
+ *    confirmation link to NEWSLETTER_CONFIRM_PATH. It only accepts requests
+ *    from our own pages, drops submissions caught by the form's bot traps and
+ *    rate-limits each client IP and email address (see NEWSLETTER_PROTECTION).
+ * 2. The confirmation page calls confirmNewsletterSubscription with the token
+ *    once the reader presses its button.
+ * 3. The unsubscribe page at NEWSLETTER_UNSUBSCRIBE_PATH, linked from the
+ *    email body, calls unsubscribeNewsletterSubscriber. Mail clients instead
+ *    POST to NEWSLETTER_ONE_CLICK_UNSUBSCRIBE_PATH from the List-Unsubscribe
+ *    header (RFC 8058 one-click), which src/middleware.ts lets through its
+ *    cross-site form check.
+ *
+ * The landing pages only act on a POST from their button, never on opening the
+ * link, since mail scanners and link prefetchers open every link in an email.
+ * They use checkNewsletterToken to render the button in the reader's language.
+ *
+ * Errors are RFC 9457 problem details (see createErrorResponse) whose `code`
+ * the form maps to a message in the reader's language.
+ */
+
+import { NEWSLETTER_PROTECTION } from '@config/security';
+import { LOCALE_DOMAINS } from '@i18n/config';
+import type { Locale } from '@type/locale';
+
+import { type EmailValidationError, validateEmailAddress } from './email-validation';
+import { createErrorResponse, ForbiddenError, isAmbiLabError, RateLimitError, ValidationError } from './errors';
+import { createLogger } from './logger';
+import type { NewsletterProvider } from './newsletter';
+import {
+    createConfirmationTokenPayload,
+    createUnsubscribeTokenPayload,
+    type NewsletterTokenPayload,
+    type NewsletterTokenPurpose,
+    signNewsletterToken,
+    verifyNewsletterToken,
+} from './newsletter-token';
+import { consumeRateLimit, type RateLimitRule, type RateLimitStore } from './rate-limit';
+
+const logger = createLogger({ prefix: 'Newsletter API' });
+
+// #region Type Definitions
+
+/**
+ * Path of the confirmation landing page.
+ */
+export const NEWSLETTER_CONFIRM_PATH = '/newsletter/confirm';
+
+/**
+ * Path of the unsubscribe landing page.
+ */
+export const NEWSLETTER_UNSUBSCRIBE_PATH = '/newsletter/unsubscribe';
+
+/**
+ * Path of the one-click unsubscribe endpoint.
+ */
+export const NEWSLETTER_ONE_CLICK_UNSUBSCRIBE_PATH = '/api/newsletter/unsubscribe';
+
+/**
+ * What the newsletter handlers need from the environment.
+ */
+export interface NewsletterDependencies {
+    provider: NewsletterProvider;
+
+    /** Secret signing the confirmation and unsubscribe tokens */
+    tokenSecret: string;
+}
+
+/**
+ * Returns the dependencies; called per request, so configuration errors
+ * surface as a response instead of at import.
+ */
+export type GetNewsletterDependencies = () => NewsletterDependencies;
+
+/**
+ * Request context of the newsletter endpoints, a subset of Astro's APIContext.
+ */
+export interface NewsletterContext {
+    request: Request;
+    locals: { locale: Locale };
+}
+
+/**
+ * Whether the token of an opened link can be acted on.
+ */
+export type NewsletterTokenCheck = { status: 'valid'; locale: Locale } | { status: 'invalid' } | { status: 'failed' };
+
+/**
+ * Outcome of confirming a subscription.
+ */
+export type NewsletterConfirmation =
+    | { status: 'confirmed'; locale: Locale }
+    | { status: 'invalid' }
+    | { status: 'failed'; locale?: Locale };
+
+/**
+ * Outcome of unsubscribing from the landing page.
+ */
+export type NewsletterUnsubscribeResult =
+    | { status: 'unsubscribed'; locale: Locale }
+    | { status: 'invalid' }
+    | { status: 'failed'; locale?: Locale };
+
+// #endregion
+
+// #region Helper Functions
+
+// Our production origins with and without www, plus the dev server on any port.
+const ALLOWED_ORIGINS = new Set(
+    Object.values(LOCALE_DOMAINS).flatMap((domain) => [domain, domain.replace('://', '://www.')]),
+);
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1']);
+
+const SUBSCRIBED_MESSAGE = 'Check your inbox to confirm your subscription.';
+
+const jsonResponse = (data: unknown, status: number) =>
+    Response.json(data, {
+        status,
+        headers: { 'Cache-Control': 'no-store' },
+    });
+
+// Client errors are expected traffic; only server errors are worth an error log.
+function toErrorResponse(error: unknown, context: string): Response {
+    if (isAmbiLabError(error) && error.statusCode < 500) {
+        logger.warn(`${context}: ${error.message}`);
+    } else {
+        logger.error(context, error);
+    }
+
+    return createErrorResponse(error);
+}
+
+function isAllowedOrigin(origin: string | null): boolean {
+    if (!origin) {
+        return false;
+    }
+
+    try {
+        const url = new URL(origin);
+
+        return ALLOWED_ORIGINS.has(url.origin) || LOCAL_HOSTNAMES.has(url.hostname);
+    } catch {
+        return false;
+    }
+}
+
+// The honeypot is a field people never see, and people take a moment to type their address.
+function isLikelyBot(body: Record<string, unknown>): boolean {
+    const honeypot = body[NEWSLETTER_PROTECTION.honeypotField];
+    const { fillTimeMs } = body;
+
+    return (
+        (honeypot !== undefined && honeypot !== '') ||
+        typeof fillTimeMs !== 'number' ||
+        fillTimeMs < NEWSLETTER_PROTECTION.minFillTimeMs
+    );
+}
+
+const EMAIL_ERRORS: Record<EmailValidationError, { message: string; code: string }> = {
+    required: { message: 'Email is required', code: 'EMAIL_REQUIRED' },
+    'too-long': { message: 'Email address is too long', code: 'EMAIL_INVALID' },
+    'invalid-local-part': { message: 'Email address has an invalid local part', code: 'EMAIL_INVALID' },
+    'invalid-domain': { message: 'Email address has an invalid domain', code: 'EMAIL_INVALID' },
+    disposable: { message: 'Disposable email addresses are not accepted', code: 'EMAIL_DISPOSABLE' },
+};
+
+// Anything but a JSON object is the client's fault, not a server error.
+async function parseBody(request: Request): Promise<Record<string, unknown>> {
+    let body: unknown;
+
+    try {
+        body = await request.json();
+    } catch {
+        throw new ValidationError('Request body must be valid JSON', undefined, 'INVALID_BODY');
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new ValidationError('Request body must be a JSON object', undefined, 'INVALID_BODY');
+    }
+
+    return { ...body };
+}
+
+// Returns the normalized address, so the same subscriber always gets the same key and token.
+function parseEmail(value: unknown): string {
+    const result = validateEmailAddress(value);
+
+    if (!result.valid) {
+        const { message, code } = EMAIL_ERRORS[result.error];
+
+        throw new ValidationError(message, 'email', code);
+    }
+
+    return result.email;
+}
+
+async function assertWithinRateLimit(store: RateLimitStore, key: string, rule: RateLimitRule): Promise<void> {
+    const { allowed, retryAfterSeconds } = await consumeRateLimit(store, key, rule);
+
+    if (!allowed) {
+        throw new RateLimitError(`Too many newsletter requests for ${key}`, retryAfterSeconds);
+    }
+}
+
+function resolveDependencies(getDependencies: GetNewsletterDependencies): NewsletterDependencies | null {
+    try {
+        return getDependencies();
+    } catch (error) {
+        logger.error('Newsletter service is not configured', error);
+
+        return null;
+    }
+}
+
+// The dependencies and payload of a landing page token, or why there are none.
+async function resolveToken(
+    token: string | null,
+    getDependencies: GetNewsletterDependencies,
+    purpose: NewsletterTokenPurpose,
+    now: Date,
+): Promise<
+    | { status: 'valid'; dependencies: NewsletterDependencies; payload: NewsletterTokenPayload }
+    | { status: 'invalid' }
+    | { status: 'failed' }
+> {
+    if (!token) {
+        return { status: 'invalid' };
+    }
+
+    const dependencies = resolveDependencies(getDependencies);
+
+    if (!dependencies) {
+        return { status: 'failed' };
+    }
+
+    const payload = await verifyNewsletterToken(token, dependencies.tokenSecret, purpose, now);
+
+    return payload ? { status: 'valid', dependencies, payload } : { status: 'invalid' };
+}
+
+// Links point at the host the reader subscribed on, which serves their locale.
+function buildTokenUrl(path: string, token: string, requestUrl: string): string {
+    const url = new URL(path, requestUrl);
+
+    url.searchParams.set('token', token);
+
+    return url.href;
+}
+
+// #endregion
+
+// #region Main Exports
+
+/**
+ * Creates the POST handler of the newsletter endpoint, which starts a double
+ * opt-in subscription in the locale of the request.
+ *
+ * Requests from other origins get 403 (FORBIDDEN_ORIGIN) and rate-limited
+ * ones 429 (RATE_LIMITED) with Retry-After. Submissions caught by the bot
+ * traps get the usual success response, so bots learn nothing, but no email
+ * is sent.
+ *
+ * @param getDependencies - Returns the provider and token secret
+ * @param getRateLimitStore - Returns the store of the rate limits for the request
+ * @returns Handler taking the request context, usable as an Astro APIRoute
+ */
+export function createNewsletterHandler<Context extends NewsletterContext>(
+    getDependencies: GetNewsletterDependencies,
+    getRateLimitStore: (context: Context) => RateLimitStore,
+): (context: Context) => Promise<Response> {
+    return async (context) => {
+        const { request, locals } = context;
+
+        try {
+            if (!isAllowedOrigin(request.headers.get('Origin'))) {
+                throw new ForbiddenError(
+                    `Origin ${request.headers.get('Origin') ?? '(none)'} is not allowed`,
+                    'FORBIDDEN_ORIGIN',
+                );
+            }
+
+            const rateLimitStore = getRateLimitStore(context);
+            const clientIp = request.headers.get('CF-Connecting-IP') ?? 'unknown';
+
+            await assertWithinRateLimit(rateLimitStore, `newsletter:ip:${clientIp}`, NEWSLETTER_PROTECTION.ipRateLimit);
+
+            const body = await parseBody(request);
+
+            if (isLikelyBot(body)) {
+                logger.info('Dropped a newsletter submission caught by the bot traps');
+
+                return jsonResponse({ success: true, message: SUBSCRIBED_MESSAGE }, 200);
+            }
+
+            const email = parseEmail(body.email);
+
+            await assertWithinRateLimit(
+                rateLimitStore,
+                `newsletter:email:${email.toLowerCase()}`,
+                NEWSLETTER_PROTECTION.emailRateLimit,
+            );
+
+            const { provider, tokenSecret } = getDependencies();
+            const { locale } = locals;
+            const [confirmToken, unsubscribeToken] = await Promise.all([
+                signNewsletterToken(createConfirmationTokenPayload(email, locale), tokenSecret),
+                signNewsletterToken(createUnsubscribeTokenPayload(email, locale), tokenSecret),
+            ]);
+
+            await provider.requestConfirmation({
+                subscriber: { email, locale },
+                confirmUrl: buildTokenUrl(NEWSLETTER_CONFIRM_PATH, confirmToken, request.url),
+                unsubscribeUrl: buildTokenUrl(NEWSLETTER_UNSUBSCRIBE_PATH, unsubscribeToken, request.url),
+                oneClickUnsubscribeUrl: buildTokenUrl(
+                    NEWSLETTER_ONE_CLICK_UNSUBSCRIBE_PATH,
+                    unsubscribeToken,
+                    request.url,
+                ),
+            });
+
+            return jsonResponse({ success: true, message: SUBSCRIBED_MESSAGE }, 200);
+        } catch (error) {
+            return toErrorResponse(error, 'Newsletter API error');
+        }
+    };
+}
+
+/**
+ * Checks the token of an opened confirmation or unsubscribe link without
+ * acting on it.
+ *
+ * @param token - Token from the link, if any
+ * @param getDependencies - Returns the provider and token secret
+ * @param purpose - Action the link is for
+ * @param now - Current time (injectable for tests)
+ * @returns 'valid' with the subscriber's locale, 'invalid' for a missing,
+ *   forged or expired token, or 'failed' when the service is unavailable
+ */
+export async function checkNewsletterToken(
+    token: string | null,
+    getDependencies: GetNewsletterDependencies,
+    purpose: NewsletterTokenPurpose,
+    now: Date = new Date(),
+): Promise<NewsletterTokenCheck> {
+    const resolved = await resolveToken(token, getDependencies, purpose, now);
+
+    return resolved.status === 'valid' ? { status: 'valid', locale: resolved.payload.locale } : resolved;
+}
+
+/**
+ * Confirms the subscription a confirmation link was issued for.
+ *
+ * @param token - Token from the confirmation link, if any
+ * @param getDependencies - Returns the provider and token secret
+ * @param now - Current time (injectable for tests)
+ * @returns 'confirmed' with the subscriber's locale, 'invalid' for a missing,
+ *   forged or expired token, or 'failed' when the service is unavailable
+ */
+export async function confirmNewsletterSubscription(
+    token: string | null,
+    getDependencies: GetNewsletterDependencies,
+    now: Date = new Date(),
+): Promise<NewsletterConfirmation> {
+    const resolved = await resolveToken(token, getDependencies, 'confirm', now);
+
+    if (resolved.status !== 'valid') {
+        return resolved;
+    }
+
+    const { dependencies, payload } = resolved;
+
+    try {
+        await dependencies.provider.confirm({ email: payload.email, locale: payload.locale });
+    } catch (error) {
+        logger.error('Newsletter confirmation failed', error);
+
+        return { status: 'failed', locale: payload.locale };
+    }
+
+    return { status: 'confirmed', locale: payload.locale };
+}
+
+/**
+ * Unsubscribes the reader an unsubscribe link was issued for.
+ *
+ * @param token - Token from the unsubscribe link, if any
+ * @param getDependencies - Returns the provider and token secret
+ * @returns 'unsubscribed' with the subscriber's locale, 'invalid' for a
+ *   missing or forged token, or 'failed' when the service is unavailable
+ */
+export async function unsubscribeNewsletterSubscriber(
+    token: string | null,
+    getDependencies: GetNewsletterDependencies,
+): Promise<NewsletterUnsubscribeResult> {
+    const resolved = await resolveToken(token, getDependencies, 'unsubscribe', new Date());
+
+    if (resolved.status !== 'valid') {
+        return resolved;
+    }
+
+    const { dependencies, payload } = resolved;
+
+    try {
+        await dependencies.provider.unsubscribe(payload.email);
+    } catch (error) {
+        logger.error('Newsletter unsubscribe failed', error);
+
+        return { status: 'failed', locale: payload.locale };
+    }
+
+    return { status: 'unsubscribed', locale: payload.locale };
+}
+
+/**
+ * Creates the POST handler of the one-click unsubscribe endpoint.
+ *
+ * The token comes from the `token` query parameter. Following RFC 8058, the
+ * POST itself unsubscribes, without cookies or a confirmation step; mail
+ * clients send it from their own servers with the form body
+ * `List-Unsubscribe=One-Click`.
+ *
+ * @param getDependencies - Returns the provider and token secret
+ * @returns Handler taking the request context, usable as an Astro APIRoute
+ */
+export function createNewsletterUnsubscribeHandler(
+    getDependencies: GetNewsletterDependencies,
+): (context: Pick<NewsletterContext, 'request'>) => Promise<Response> {
+    return async ({ request }) => {
+        try {
+            const token = new URL(request.url).searchParams.get('token');
+
+            if (!token) {
+                throw new ValidationError('Unsubscribe token is required', 'token', 'TOKEN_REQUIRED');
+            }
+
+            const { provider, tokenSecret } = getDependencies();
+            const payload = await verifyNewsletterToken(token, tokenSecret, 'unsubscribe');
+
+            if (!payload) {
+                throw new ValidationError('Invalid unsubscribe token', 'token', 'TOKEN_INVALID');
+            }
+
+            await provider.unsubscribe(payload.email);
+
+            return jsonResponse({ success: true, message: 'You have been unsubscribed.' }, 200);
+        } catch (error) {
+            return toErrorResponse(error, 'Newsletter unsubscribe error');
+        }
+    };
+}
+
+// #endregion
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+
+import { ConfigurationError, ValidationError } from './errors';
+import {
+    createConfirmationTokenPayload,
+    createUnsubscribeTokenPayload,
+    signNewsletterToken,
+    verifyNewsletterToken,
+} from './newsletter-token';
+
+const SECRET = 'test-secret';
+const now = new Date('2025-06-01T12:00:00Z');
+
+describe('createConfirmationTokenPayload', () => {
+    it('should compute the expiry from the lifetime', () => {
+        expect(createConfirmationTokenPayload('reader@example.com', 'cs', 3600, now)).toEqual({
+            purpose: 'confirm',
+            email: 'reader@example.com',
+            locale: 'cs',
+            exp: now.getTime() / 1000 + 3600,
+        });
+    });
+
+    it('should reject non-positive lifetimes', () => {
+        expect(() => createConfirmationTokenPayload('reader@example.com', 'en', -1, now)).toThrow(ValidationError);
+    });
+});
+
+describe('signNewsletterToken / verifyNewsletterToken', () => {
+    it('should round-trip a confirmation token', async () => {
+        const payload = createConfirmationTokenPayload('reader@example.com', 'cs', 3600, now);
+        const token = await signNewsletterToken(payload, SECRET);
+
+        await expect(verifyNewsletterToken(token, SECRET, 'confirm', now)).resolves.toEqual(payload);
+    });
+
+    it('should reject expired confirmation tokens', async () => {
+        const token = await signNewsletterToken(
+            createConfirmationTokenPayload('reader@example.com', 'en', 60, now),
+            SECRET,
+        );
+
+        await expect(
+            verifyNewsletterToken(token, SECRET, 'confirm', new Date(now.getTime() + 60_000)),
+        ).resolves.toBeNull();
+    });
+
+    it('should never expire unsubscribe tokens', async () => {
+        const payload = createUnsubscribeTokenPayload('reader@example.com', 'en');
+        const token = await signNewsletterToken(payload, SECRET);
+
+        await expect(
+            verifyNewsletterToken(token, SECRET, 'unsubscribe', new Date('2099-01-01T00:00:00Z')),
+        ).resolves.toEqual(payload);
+    });
+
+    it('should only accept a token for its own purpose', async () => {
+        const unsubscribe = await signNewsletterToken(createUnsubscribeTokenPayload('a@example.com', 'en'), SECRET);
+        const confirm = await signNewsletterToken(createConfirmationTokenPayload('a@example.com', 'en'), SECRET);
+
+        await expect(verifyNewsletterToken(unsubscribe, SECRET, 'confirm', now)).resolves.toBeNull();
+        await expect(verifyNewsletterToken(confirm, SECRET, 'unsubscribe', now)).resolves.toBeNull();
+    });
+
+    it('should reject tokens signed with another secret', async () => {
+        const token = await signNewsletterToken(createUnsubscribeTokenPayload('a@example.com', 'en'), 'other');
+
+        await expect(verifyNewsletterToken(token, SECRET, 'unsubscribe', now)).resolves.toBeNull();
+    });
+
+    it('should require a secret', async () => {
+        await expect(signNewsletterToken(createUnsubscribeTokenPayload('a@example.com', 'en'), '')).rejects.toThrow(
+            ConfigurationError,
+        );
+    });
+});
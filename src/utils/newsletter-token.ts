@@ -0,0 +1,137 @@
+/**
+ * Newsletter Tokens
+ *
+ * Signed tokens in the links of newsletter emails. A confirmation token proves
+ * the reader owns the address they subscribed with and expires; an unsubscribe
+ * token lets them leave the list from any email they ever received, so it
+ * does not. Both carry the subscriber's locale for tagging and for rendering
+ * the landing page in their language. Signed with NEWSLETTER_TOKEN_SECRET (see
+ * signed-token.ts).
+ */
+
+import { LOCALES } from '@i18n/config';
+import type { Locale } from '@type/locale';
+
+import { ValidationError } from './errors';
+import { signToken, verifyToken } from './signed-token';
+
+/**
+ * Default confirmation token lifetime (7 days).
+ */
+export const DEFAULT_CONFIRMATION_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const SECRET_NAME = 'NEWSLETTER_TOKEN_SECRET';
+
+export const NEWSLETTER_TOKEN_PURPOSES = ['confirm', 'unsubscribe'] as const;
+
+/**
+ * Action a token authorizes.
+ */
+export type NewsletterTokenPurpose = (typeof NEWSLETTER_TOKEN_PURPOSES)[number];
+
+/**
+ * Data carried by a newsletter token.
+ */
+export interface NewsletterTokenPayload {
+    purpose: NewsletterTokenPurpose;
+
+    /** Subscriber email address */
+    email: string;
+
+    /** Locale the subscriber signed up in */
+    locale: Locale;
+
+    /** Expiry time in seconds since the Unix epoch; unsubscribe tokens have none */
+    exp?: number;
+}
+
+function isNewsletterTokenPayload(value: unknown): value is NewsletterTokenPayload {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+
+    const candidate = value as Record<string, unknown>;
+
+    return (
+        (NEWSLETTER_TOKEN_PURPOSES as readonly unknown[]).includes(candidate.purpose) &&
+        typeof candidate.email === 'string' &&
+        candidate.email.length > 0 &&
+        (LOCALES as readonly unknown[]).includes(candidate.locale) &&
+        (candidate.exp === undefined || (typeof candidate.exp === 'number' && Number.isFinite(candidate.exp)))
+    );
+}
+
+/**
+ * Builds the payload of a confirmation token.
+ *
+ * @param email - Subscriber email address
+ * @param locale - Locale the subscriber signed up in
+ * @param ttlSeconds - Token lifetime in seconds
+ * @param now - Current time (injectable for tests)
+ * @returns Confirmation token payload
+ * @throws ValidationError if the lifetime is not a positive number
+ */
+export function createConfirmationTokenPayload(
+    email: string,
+    locale: Locale,
+    ttlSeconds: number = DEFAULT_CONFIRMATION_TOKEN_TTL_SECONDS,
+    now: Date = new Date(),
+): NewsletterTokenPayload {
+    if (!Number.isFinite(ttlSeconds) || ttlSeconds <= 0) {
+        throw new ValidationError(`Invalid confirmation token lifetime: ${ttlSeconds}`, 'ttlSeconds');
+    }
+
+    return { purpose: 'confirm', email, locale, exp: Math.floor(now.getTime() / 1000) + Math.floor(ttlSeconds) };
+}
+
+/**
+ * Builds the payload of an unsubscribe token, which never expires.
+ *
+ * @param email - Subscriber email address
+ * @param locale - Locale the subscriber signed up in
+ * @returns Unsubscribe token payload
+ */
+export function createUnsubscribeTokenPayload(email: string, locale: Locale): NewsletterTokenPayload {
+    return { purpose: 'unsubscribe', email, locale };
+}
+
+/**
+ * Signs a newsletter token payload.
+ *
+ * @param payload - Purpose, subscriber and expiry to encode
+ * @param secret - Server newsletter token secret
+ * @returns Token string safe to use in a query parameter
+ * @throws ConfigurationError if the secret is empty
+ */
+export async function signNewsletterToken(payload: NewsletterTokenPayload, secret: string): Promise<string> {
+    return signToken(payload, secret, SECRET_NAME);
+}
+
+/**
+ * Verifies a newsletter token for one purpose.
+ *
+ * @param token - Token string from the email link
+ * @param secret - Server newsletter token secret
+ * @param purpose - Action the token must authorize
+ * @param now - Current time (injectable for tests)
+ * @returns The payload if the token is authentic, unexpired and issued for the purpose, otherwise null
+ * @throws ConfigurationError if the secret is empty
+ */
+export async function verifyNewsletterToken(
+    token: string,
+    secret: string,
+    purpose: NewsletterTokenPurpose,
+    now: Date = new Date(),
+): Promise<NewsletterTokenPayload | null> {
+    const payload = await verifyToken(token, secret, SECRET_NAME);
+
+    if (!isNewsletterTokenPayload(payload) || payload.purpose !== purpose) {
+        return null;
+    }
+
+    if (payload.exp !== undefined && payload.exp * 1000 <= now.getTime()) {
+        return null;
+    }
+
+    return payload;
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { ConfigurationError, NewsletterError } from './errors';
+import {
+    createButtondownProvider,
+    createLocalNewsletterProvider,
+    createNewsletterProvider,
+    type NewsletterConfirmationRequest,
+} from './newsletter';
+
+function createConfirmationRequest(email: string, locale: 'en' | 'cs' = 'en'): NewsletterConfirmationRequest {
+    return {
+        subscriber: { email, locale },
+        confirmUrl: `https://ambilab.com/newsletter/confirm?token=confirm-${email}`,
+        unsubscribeUrl: `https://ambilab.com/newsletter/unsubscribe?token=unsubscribe-${email}`,
+        oneClickUnsubscribeUrl: `https://ambilab.com/api/newsletter/unsubscribe?token=unsubscribe-${email}`,
+    };
+}
+
+describe('createButtondownProvider', () => {
+    it('should create an unactivated subscriber tagged with their locale', async () => {
+        const fetchFn = vi.fn<typeof fetch>(async () => new Response('{}', { status: 201 }));
+        const request = createConfirmationRequest('reader@example.com', 'cs');
+
+        await createButtondownProvider('secret-key', fetchFn).requestConfirmation(request);
+
+        expect(fetchFn).toHaveBeenCalledWith('https://api.buttondown.email/v1/subscribers', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: 'Token secret-key' },
+            body: JSON.stringify({
+                email_address: 'reader@example.com',
+                type: 'unactivated',
+                tags: ['cs'],
+                metadata: { locale: 'cs', confirm_url: request.confirmUrl, unsubscribe_url: request.unsubscribeUrl },
+            }),
+        });
+    });
+
+    it('should activate a confirmed subscriber', async () => {
+        const fetchFn = vi.fn<typeof fetch>(async () => new Response('{}', { status: 200 }));
+
+        await createButtondownProvider('secret-key', fetchFn).confirm({ email: 'a+b@example.com', locale: 'en' });
+
+        expect(fetchFn).toHaveBeenCalledWith(
+            'https://api.buttondown.email/v1/subscribers/a%2Bb%40example.com',
+            expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ type: 'regular', tags: ['en'] }) }),
+        );
+    });
+
+    it('should treat unsubscribing an unknown subscriber as done', async () => {
+        const fetchFn = vi.fn<typeof fetch>(async () => new Response('{}', { status: 404 }));
+
+        await expect(
+            createButtondownProvider('secret-key', fetchFn).unsubscribe('reader@example.com'),
+        ).resolves.toBeUndefined();
+    });
+
+    it('should throw a NewsletterError with the API status on failure', async () => {
+        const fetchFn = vi.fn<typeof fetch>(
+            async () => new Response(JSON.stringify({ message: 'Already subscribed' }), { status: 400 }),
+        );
+        const subscription = createButtondownProvider('secret-key', fetchFn).requestConfirmation(
+            createConfirmationRequest('a@example.com'),
+        );
+
+        await expect(subscription).rejects.toBeInstanceOf(NewsletterError);
+        await expect(subscription).rejects.toMatchObject({ statusCode: 400, provider: 'buttondown' });
+    });
+});
+
+describe('createLocalNewsletterProvider', () => {
+    it('should keep subscribers pending until they confirm', async () => {
+        const provider = createLocalNewsletterProvider();
+
+        await provider.requestConfirmation(createConfirmationRequest('a@example.com'));
+        await provider.requestConfirmation(createConfirmationRequest('b@example.com', 'cs'));
+        await provider.confirm({ email: 'b@example.com', locale: 'cs' });
+
+        expect(provider.getSubscribers()).toEqual([
+            { email: 'a@example.com', locale: 'en', status: 'pending' },
+            { email: 'b@example.com', locale: 'cs', status: 'confirmed' },
+        ]);
+    });
+
+    it('should record confirmation emails with one-click unsubscribe headers', async () => {
+        const provider = createLocalNewsletterProvider();
+        const request = createConfirmationRequest('a@example.com', 'cs');
+
+        await provider.requestConfirmation(request);
+
+        expect(provider.getSentEmails()).toEqual([
+            {
+                to: 'a@example.com',
+                locale: 'cs',
+                confirmUrl: request.confirmUrl,
+                unsubscribeUrl: request.unsubscribeUrl,
+                headers: {
+                    'List-Unsubscribe': `<${request.oneClickUnsubscribeUrl}>`,
+                    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+                },
+            },
+        ]);
+    });
+
+    it('should resend to pending subscribers and reject confirmed ones', async () => {
+        const provider = createLocalNewsletterProvider();
+
+        await provider.requestConfirmation(createConfirmationRequest('a@example.com'));
+        await provider.requestConfirmation(createConfirmationRequest('a@example.com'));
+        await provider.confirm({ email: 'a@example.com', locale: 'en' });
+
+        await expect(provider.requestConfirmation(createConfirmationRequest('A@example.com'))).rejects.toBeInstanceOf(
+            NewsletterError,
+        );
+        expect(provider.getSentEmails()).toHaveLength(2);
+    });
+
+    it('should remove unsubscribed subscribers and accept unknown ones', async () => {
+        const provider = createLocalNewsletterProvider();
+
+        await provider.confirm({ email: 'a@example.com', locale: 'en' });
+        await provider.unsubscribe('A@example.com');
+        await provider.unsubscribe('unknown@example.com');
+
+        expect(provider.getSubscribers()).toEqual([]);
+    });
+});
+
+describe('createNewsletterProvider', () => {
+    it('should default to Buttondown', () => {
+        expect(createNewsletterProvider({ buttondownApiKey: 'secret-key' }).name).toBe('buttondown');
+    });
+
+    it('should require an API key for Buttondown', () => {
+        expect(() => createNewsletterProvider({ provider: 'buttondown' })).toThrow(ConfigurationError);
+    });
+
+    it('should share one local provider between calls', () => {
+        const provider = createNewsletterProvider({ provider: 'local' });
+
+        expect(provider.name).toBe('local');
+        expect(createNewsletterProvider({ provider: 'local' })).toBe(provider);
+    });
+});
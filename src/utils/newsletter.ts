@@ -0,0 +1,313 @@
+/**
+ * Newsletter Providers
+ *
+ * The newsletter endpoints talk to a NewsletterProvider instead of a vendor API,
+ * so the vendor can be swapped and the endpoints tested offline. Buttondown is
+ * used in production; the local provider keeps subscribers in memory for
+ * development and tests. NEWSLETTER_PROVIDER selects one (see src/config/env.ts).
+ *
+ * Subscriptions are double opt-in: a new subscriber is pending until they open
+ * the confirmation link emailed through the provider. Subscribers are tagged
+ * with their locale, so each language gets its own list.
+ *
+ * Every provider links our unsubscribe page from the email body. Only the
+ * local provider sets the List-Unsubscribe headers to our one-click endpoint.
+ * Buttondown sends its emails with its own List-Unsubscribe headers (we set
+ * none through its API), which unsubscribe at Buttondown directly.
+ */
+
+import type { Locale } from '@type/locale';
+
+import { ConfigurationError, NewsletterError } from './errors';
+import { createLogger } from './logger';
+
+const logger = createLogger({ prefix: 'Newsletter' });
+
+// #region Type Definitions
+
+export const NEWSLETTER_PROVIDERS = ['buttondown', 'local'] as const;
+
+export type NewsletterProviderName = (typeof NEWSLETTER_PROVIDERS)[number];
+
+export interface NewsletterSubscriber {
+    email: string;
+
+    /** Locale the subscriber signed up in, used as their list tag */
+    locale: Locale;
+}
+
+/**
+ * A pending subscriber and the links of their confirmation email.
+ */
+export interface NewsletterConfirmationRequest {
+    subscriber: NewsletterSubscriber;
+
+    /** Absolute URL of the confirmation landing page, including its token */
+    confirmUrl: string;
+
+    /** Absolute URL of the unsubscribe landing page, including its token, for the email body */
+    unsubscribeUrl: string;
+
+    /**
+     * Absolute URL of the one-click unsubscribe endpoint, for the
+     * List-Unsubscribe header of providers that let us set it
+     */
+    oneClickUnsubscribeUrl: string;
+}
+
+/**
+ * A newsletter service that manages the subscriber list.
+ */
+export interface NewsletterProvider {
+    readonly name: NewsletterProviderName;
+
+    /**
+     * Adds a pending subscriber and emails them the confirmation link.
+     *
+     * @throws NewsletterError when the service rejects the subscriber or fails
+     */
+    requestConfirmation(request: NewsletterConfirmationRequest): Promise<void>;
+
+    /**
+     * Activates a subscriber who confirmed from their confirmation link. Confirming
+     * an active subscriber again succeeds.
+     *
+     * @throws NewsletterError when the service fails
+     */
+    confirm(subscriber: NewsletterSubscriber): Promise<void>;
+
+    /**
+     * Removes a subscriber. Unknown addresses succeed, so an unsubscribe link
+     * never reports an error for an address that already left.
+     *
+     * @throws NewsletterError when the service fails
+     */
+    unsubscribe(email: string): Promise<void>;
+}
+
+export type NewsletterSubscriberStatus = 'pending' | 'confirmed';
+
+export interface LocalNewsletterSubscriber extends NewsletterSubscriber {
+    status: NewsletterSubscriberStatus;
+}
+
+/**
+ * A confirmation email "sent" by the local provider.
+ */
+export interface LocalNewsletterEmail {
+    to: string;
+    locale: Locale;
+    confirmUrl: string;
+    unsubscribeUrl: string;
+    headers: Record<string, string>;
+}
+
+/**
+ * The local provider, which also exposes its subscribers and sent emails for inspection.
+ */
+export interface LocalNewsletterProvider extends NewsletterProvider {
+    readonly name: 'local';
+
+    /** Subscribers in the order they signed up */
+    getSubscribers(): LocalNewsletterSubscriber[];
+
+    /** Confirmation emails in the order they were sent */
+    getSentEmails(): LocalNewsletterEmail[];
+}
+
+export interface NewsletterProviderConfig {
+    /** Name of the provider to use; defaults to Buttondown */
+    provider?: NewsletterProviderName | undefined;
+
+    /** Required by the Buttondown provider */
+    buttondownApiKey?: string | undefined;
+}
+
+// #endregion
+
+// #region Helper Functions
+
+const BUTTONDOWN_API_URL = 'https://api.buttondown.email/v1';
+
+async function logButtondownError(response: Response): Promise<void> {
+    logger.error(`Buttondown API error: Status ${response.status} ${response.statusText}`);
+
+    try {
+        const errorText = await response.text();
+        const errorData = JSON.parse(errorText) as { message?: string; error?: string; [key: string]: unknown };
+        const errorMessage = errorData.message || errorData.error;
+
+        logger.error(`Buttondown API error message: ${errorMessage ?? 'Unknown error'}`);
+    } catch {
+        logger.error('Failed to parse Buttondown error response as JSON');
+    }
+}
+
+// RFC 2369 and RFC 8058: mail clients show an unsubscribe button that POSTs to the URL.
+function getListUnsubscribeHeaders(oneClickUnsubscribeUrl: string): Record<string, string> {
+    return {
+        'List-Unsubscribe': `<${oneClickUnsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+}
+
+// Shared by every request of the dev server, so subscribers survive between requests.
+let localProvider: LocalNewsletterProvider | undefined;
+
+// #endregion
+
+// #region Main Exports
+
+/**
+ * Creates a provider backed by the Buttondown API.
+ *
+ * Pending subscribers are created as `unactivated`, which makes Buttondown send
+ * its confirmation email. The confirmation and unsubscribe URLs are stored in
+ * the subscriber's metadata, so the email templates must link
+ * `{{ subscriber.metadata.confirm_url }}` and
+ * `{{ subscriber.metadata.unsubscribe_url }}` instead of Buttondown's own links.
+ *
+ * The one-click URL is not used: Buttondown sends its own List-Unsubscribe
+ * headers, so mail clients' unsubscribe buttons bypass our endpoint and only
+ * the body link reaches our site.
+ *
+ * @param apiKey - Buttondown API key
+ * @param fetchFn - Fetch implementation, replaceable in tests
+ * @returns The Buttondown provider
+ */
+export function createButtondownProvider(apiKey: string, fetchFn: typeof fetch = fetch): NewsletterProvider {
+    const request = (method: string, path: string, body: object) =>
+        fetchFn(`${BUTTONDOWN_API_URL}${path}`, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Token ${apiKey}`,
+            },
+            body: JSON.stringify(body),
+        });
+
+    const fail = async (response: Response, message: string): Promise<never> => {
+        await logButtondownError(response);
+
+        throw new NewsletterError(message, response.status, 'buttondown');
+    };
+
+    return {
+        name: 'buttondown',
+
+        async requestConfirmation({ subscriber, confirmUrl, unsubscribeUrl }) {
+            const response = await request('POST', '/subscribers', {
+                email_address: subscriber.email,
+                type: 'unactivated',
+                tags: [subscriber.locale],
+                metadata: { locale: subscriber.locale, confirm_url: confirmUrl, unsubscribe_url: unsubscribeUrl },
+            });
+
+            if (!response.ok) {
+                await fail(response, 'Buttondown rejected the subscription');
+            }
+        },
+
+        async confirm({ email, locale }) {
+            const response = await request('PATCH', `/subscribers/${encodeURIComponent(email)}`, {
+                type: 'regular',
+                tags: [locale],
+            });
+
+            if (!response.ok) {
+                await fail(response, 'Buttondown rejected the confirmation');
+            }
+        },
+
+        async unsubscribe(email) {
+            const response = await request('PATCH', `/subscribers/${encodeURIComponent(email)}`, {
+                type: 'unsubscribed',
+            });
+
+            if (!response.ok && response.status !== 404) {
+                await fail(response, 'Buttondown rejected the unsubscribe request');
+            }
+        },
+    };
+}
+
+/**
+ * Creates an in-memory provider for development and tests.
+ *
+ * Like Buttondown, it rejects an email that is already confirmed (compared
+ * case-insensitively); a pending one gets a new confirmation email. Emails are
+ * logged instead of sent, so the confirmation link can be opened from the
+ * dev server output.
+ *
+ * @returns A provider with an empty subscriber list
+ */
+export function createLocalNewsletterProvider(): LocalNewsletterProvider {
+    const subscribers = new Map<string, LocalNewsletterSubscriber>();
+    const sentEmails: LocalNewsletterEmail[] = [];
+
+    return {
+        name: 'local',
+
+        async requestConfirmation({ subscriber, confirmUrl, unsubscribeUrl, oneClickUnsubscribeUrl }) {
+            const key = subscriber.email.toLowerCase();
+
+            if (subscribers.get(key)?.status === 'confirmed') {
+                throw new NewsletterError('Email is already subscribed', 400, 'local');
+            }
+
+            subscribers.set(key, { ...subscriber, status: 'pending' });
+            sentEmails.push({
+                to: subscriber.email,
+                locale: subscriber.locale,
+                confirmUrl,
+                unsubscribeUrl,
+                headers: getListUnsubscribeHeaders(oneClickUnsubscribeUrl),
+            });
+            logger.info(`Local newsletter: confirm ${subscriber.email} at ${confirmUrl}`);
+        },
+
+        async confirm(subscriber) {
+            subscribers.set(subscriber.email.toLowerCase(), { ...subscriber, status: 'confirmed' });
+            logger.info(`Local newsletter: confirmed ${subscriber.email} (${subscriber.locale})`);
+        },
+
+        async unsubscribe(email) {
+            subscribers.delete(email.toLowerCase());
+            logger.info(`Local newsletter: unsubscribed ${email}`);
+        },
+
+        getSubscribers() {
+            return [...subscribers.values()];
+        },
+
+        getSentEmails() {
+            return [...sentEmails];
+        },
+    };
+}
+
+/**
+ * Creates the configured newsletter provider.
+ *
+ * The local provider is a single shared instance, so its subscribers persist
+ * for the lifetime of the server process.
+ *
+ * @param config - Provider name and credentials, usually from the environment
+ * @returns The provider
+ * @throws ConfigurationError for Buttondown without an API key
+ */
+export function createNewsletterProvider(config: NewsletterProviderConfig): NewsletterProvider {
+    if (config.provider === 'local') {
+        localProvider ??= createLocalNewsletterProvider();
+
+        return localProvider;
+    }
+
+    if (!config.buttondownApiKey) {
+        throw new ConfigurationError('BUTTONDOWN_API_KEY is not configured', 'BUTTONDOWN_API_KEY');
+    }
+
+    return createButtondownProvider(config.buttondownApiKey);
+}
+
+// #endregion
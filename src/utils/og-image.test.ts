@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+    buildOgImageTree,
+    getOgImagePath,
+    getOgTitleFontSize,
+    hasGeneratedNewsOgImage,
+    OG_IMAGE_HEIGHT,
+    OG_IMAGE_WIDTH,
+    type OgImageNode,
+} from './og-image';
+
+function collectText(node: OgImageNode | string): string[] {
+    if (typeof node === 'string') {
+        return [node];
+    }
+
+    const { children } = node.props;
+
+    if (children === undefined) {
+        return [];
+    }
+
+    return (Array.isArray(children) ? children : [children]).flatMap(collectText);
+}
+
+describe('getOgImagePath', () => {
+    it('should keep news posts and pages in separate namespaces', () => {
+        expect(getOgImagePath('en', 'news', 'hello-world')).toBe('/og/en/news/hello-world.png');
+        expect(getOgImagePath('cs', 'page', 'index')).toBe('/og/cs/index.png');
+    });
+});
+
+describe('hasGeneratedNewsOgImage', () => {
+    const buildTime = new Date('2025-06-01T12:00:00Z');
+
+    it('should find images of posts published by the build', () => {
+        expect(hasGeneratedNewsOgImage(new Date('2025-05-01'), buildTime)).toBe(true);
+        expect(hasGeneratedNewsOgImage(buildTime, buildTime)).toBe(true);
+    });
+
+    it('should not find images of posts that went live after the build', () => {
+        expect(hasGeneratedNewsOgImage(new Date('2025-06-02'), buildTime)).toBe(false);
+    });
+});
+
+describe('getOgTitleFontSize', () => {
+    it('should shrink the font as titles get longer', () => {
+        expect(getOgTitleFontSize('Short title')).toBe(80);
+        expect(getOgTitleFontSize('A'.repeat(60))).toBe(64);
+        expect(getOgTitleFontSize('A'.repeat(90))).toBe(52);
+        expect(getOgTitleFontSize('A'.repeat(91))).toBe(44);
+    });
+
+    it('should count characters rather than UTF-16 code units', () => {
+        expect(getOgTitleFontSize('😀'.repeat(30))).toBe(80);
+    });
+});
+
+describe('buildOgImageTree', () => {
+    it('should render a 1200x630 root with the site name, title and footer', () => {
+        const tree = buildOgImageTree({
+            title: 'Hello World',
+            label: 'News',
+            date: 'February 8, 2026',
+            domain: 'ambilab.com',
+        });
+
+        expect(tree.props.style).toMatchObject({ width: OG_IMAGE_WIDTH, height: OG_IMAGE_HEIGHT });
+        expect(OG_IMAGE_WIDTH).toBe(1200);
+        expect(OG_IMAGE_HEIGHT).toBe(630);
+        expect(collectText(tree)).toEqual(['Ambilab', 'Hello World', 'News · February 8, 2026', 'ambilab.com']);
+    });
+
+    it('should leave the footer label empty for undated pages', () => {
+        const tree = buildOgImageTree({ title: 'About', label: undefined, date: undefined, domain: 'ambilab.com' });
+
+        expect(collectText(tree)).toEqual(['Ambilab', 'About', '', 'ambilab.com']);
+    });
+});
@@ -0,0 +1,159 @@
+/**
+ * Open Graph Image Layout
+ *
+ * Paths and layout of the generated 1200x630 social preview images. The
+ * layout is a plain element tree in the shape satori expects, so it can be
+ * built and tested without rendering; src/lib/og-image.ts turns it into a PNG
+ * at build time.
+ */
+
+import { SITE } from '@config/site';
+import type { Locale } from '@type/locale';
+
+// #region Type Definitions
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+/**
+ * Family name the layout uses; src/lib/og-image.ts registers the font under it.
+ */
+export const OG_IMAGE_FONT_FAMILY = 'Departure Mono';
+
+export type OgImageKind = 'news' | 'page';
+
+/**
+ * A satori element: a tag with inline styles and children.
+ */
+export interface OgImageNode {
+    type: 'div';
+    props: {
+        style: Record<string, string | number>;
+        children?: string | OgImageNode | (string | OgImageNode)[];
+    };
+}
+
+export interface OgImageContent {
+    title: string;
+
+    /** Section label shown in the footer, e.g. 'News' */
+    label: string | undefined;
+
+    /** Formatted date shown in the footer, if any */
+    date: string | undefined;
+
+    /** Host name shown in the footer, e.g. 'ambilab.cz' */
+    domain: string;
+}
+
+// #endregion
+
+// #region Helper Functions
+
+const COLORS = {
+    background: '#4d7c0f',
+    text: '#ffffff',
+    muted: '#d9f99d',
+} as const;
+
+// Longer titles step down in size so they fit in four lines.
+const TITLE_FONT_SIZES = [
+    { maxLength: 30, size: 80 },
+    { maxLength: 60, size: 64 },
+    { maxLength: 90, size: 52 },
+] as const;
+
+const MIN_TITLE_FONT_SIZE = 44;
+
+function element(style: OgImageNode['props']['style'], children?: OgImageNode['props']['children']): OgImageNode {
+    return { type: 'div', props: { style, ...(children === undefined ? {} : { children }) } };
+}
+
+// #endregion
+
+// #region Main Exports
+
+/**
+ * Builds the URL path of a generated OG image.
+ *
+ * News posts live under a `news/` segment so they never collide with pages.
+ *
+ * @param locale - Locale of the content
+ * @param kind - Whether the image belongs to a news post or a page
+ * @param slug - Normalized entry slug ('index' for the home page)
+ * @returns Path such as '/og/en/news/hello-world.png'
+ */
+export function getOgImagePath(locale: Locale, kind: OgImageKind, slug: string): string {
+    return kind === 'news' ? `/og/${locale}/news/${slug}.png` : `/og/${locale}/${slug}.png`;
+}
+
+/**
+ * When the build generated the OG images (set by astro.config.ts; module load time in tests).
+ */
+export const OG_IMAGE_BUILD_TIME = new Date(import.meta.env.BUILD_TIME ?? Date.now());
+
+/**
+ * Checks whether the build generated the OG image of a news post.
+ *
+ * Images exist only for posts published at build time; a scheduled post that
+ * went live since has none until the next build.
+ *
+ * @param pubDate - Publication date of the post
+ * @param buildTime - When the images were generated
+ * @returns True when the post's image exists
+ */
+export function hasGeneratedNewsOgImage(pubDate: Date, buildTime: Date = OG_IMAGE_BUILD_TIME): boolean {
+    return pubDate.getTime() <= buildTime.getTime();
+}
+
+/**
+ * Picks the title font size for a title length.
+ *
+ * @param title - The title to render
+ * @returns Font size in pixels
+ */
+export function getOgTitleFontSize(title: string): number {
+    const length = [...title].length;
+
+    return TITLE_FONT_SIZES.find((step) => length <= step.maxLength)?.size ?? MIN_TITLE_FONT_SIZE;
+}
+
+/**
+ * Builds the element tree of an OG image.
+ *
+ * @param content - Texts shown on the image
+ * @returns Root element sized OG_IMAGE_WIDTH x OG_IMAGE_HEIGHT
+ */
+export function buildOgImageTree(content: OgImageContent): OgImageNode {
+    const footer = [content.label, content.date].filter(Boolean).join(' · ');
+
+    return element(
+        {
+            width: OG_IMAGE_WIDTH,
+            height: OG_IMAGE_HEIGHT,
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'space-between',
+            padding: 72,
+            backgroundColor: COLORS.background,
+            color: COLORS.text,
+            fontFamily: OG_IMAGE_FONT_FAMILY,
+        },
+        [
+            element({ display: 'flex', fontSize: 32, textTransform: 'uppercase' }, SITE.NAME),
+            element({ display: 'flex', fontSize: getOgTitleFontSize(content.title), lineHeight: 1.15 }, content.title),
+            element(
+                {
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    fontSize: 26,
+                    color: COLORS.muted,
+                    textTransform: 'uppercase',
+                },
+                [element({ display: 'flex' }, footer), element({ display: 'flex' }, content.domain)],
+            ),
+        ],
+    );
+}
+
+// #endregion
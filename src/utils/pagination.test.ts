@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+
+import { getNewsIndexPagePath, paginate } from './pagination';
+
+describe('paginate', () => {
+    const items = [1, 2, 3, 4, 5];
+
+    it('should return the requested page', () => {
+        expect(paginate(items, 1, 2)).toEqual({ items: [1, 2], currentPage: 1, totalPages: 3 });
+        expect(paginate(items, 3, 2)).toEqual({ items: [5], currentPage: 3, totalPages: 3 });
+    });
+
+    it('should return null for out-of-range pages', () => {
+        expect(paginate(items, 0, 2)).toBeNull();
+        expect(paginate(items, 4, 2)).toBeNull();
+        expect(paginate(items, 1.5, 2)).toBeNull();
+    });
+
+    it('should return a single empty page for an empty list', () => {
+        expect(paginate([], 1, 10)).toEqual({ items: [], currentPage: 1, totalPages: 1 });
+        expect(paginate([], 2, 10)).toBeNull();
+    });
+
+    it('should throw for an invalid page size', () => {
+        expect(() => paginate(items, 1, 0)).toThrow('paginate received an invalid page size: 0');
+    });
+});
+
+describe('getNewsIndexPagePath', () => {
+    it('should use the plain news route for the first page', () => {
+        expect(getNewsIndexPagePath(1, 'en')).toBe('/news');
+        expect(getNewsIndexPagePath(1, 'cs')).toBe('/novinky');
+    });
+
+    it('should build localized paths for later pages', () => {
+        expect(getNewsIndexPagePath(2, 'en')).toBe('/news/page/2');
+        expect(getNewsIndexPagePath(3, 'cs')).toBe('/novinky/strana/3');
+    });
+});
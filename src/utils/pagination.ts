@@ -0,0 +1,71 @@
+/**
+ * Pagination Utilities
+ *
+ * Splits ordered lists into fixed-size pages and builds the stable,
+ * localized URLs of the paginated news index.
+ */
+
+import { getRoute } from '@config/routes';
+import type { Locale } from '@type/locale';
+
+/**
+ * A single page of items together with its position in the full list.
+ */
+export interface Page<T> {
+    /** Items on the current page */
+    items: T[];
+
+    /** 1-based index of the current page */
+    currentPage: number;
+
+    /** Total number of pages (at least 1, even for an empty list) */
+    totalPages: number;
+}
+
+/**
+ * Returns one page of items.
+ *
+ * An empty list still has a single (empty) first page, so the news index
+ * renders its "no posts" state instead of a 404.
+ *
+ * @param items - The full, already sorted list
+ * @param currentPage - 1-based page number to return
+ * @param pageSize - Maximum number of items per page
+ * @returns The requested page, or null when the page number is out of range
+ *
+ * @example
+ * paginate([1, 2, 3], 2, 2) // { items: [3], currentPage: 2, totalPages: 2 }
+ * paginate([1, 2, 3], 3, 2) // null
+ */
+export function paginate<T>(items: T[], currentPage: number, pageSize: number): Page<T> | null {
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+        throw new Error(`paginate received an invalid page size: ${pageSize}`);
+    }
+
+    const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+
+    if (!Number.isInteger(currentPage) || currentPage < 1 || currentPage > totalPages) {
+        return null;
+    }
+
+    const start = (currentPage - 1) * pageSize;
+
+    return {
+        items: items.slice(start, start + pageSize),
+        currentPage,
+        totalPages,
+    };
+}
+
+/**
+ * Builds the path of a news index page.
+ *
+ * The first page lives at the plain news route so it keeps a single canonical URL.
+ *
+ * @param page - 1-based page number
+ * @param locale - The locale of the news index
+ * @returns Path such as '/news' or '/novinky/strana/2'
+ */
+export function getNewsIndexPagePath(page: number, locale: Locale): string {
+    return page <= 1 ? getRoute('news', locale) : `${getRoute('newsPage', locale)}/${page}`;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import { ConfigurationError, ValidationError } from './errors';
+import {
+    createPreviewTokenPayload,
+    isPreviewTokenValidFor,
+    signPreviewToken,
+    verifyPreviewToken,
+} from './preview-token';
+
+const SECRET = 'test-secret';
+const now = new Date('2025-06-01T12:00:00Z');
+
+describe('createPreviewTokenPayload', () => {
+    it('should compute the expiry from the lifetime', () => {
+        expect(createPreviewTokenPayload('en', 'hello-world', 3600, now)).toEqual({
+            locale: 'en',
+            slug: 'hello-world',
+            exp: now.getTime() / 1000 + 3600,
+        });
+    });
+
+    it('should reject non-positive lifetimes', () => {
+        expect(() => createPreviewTokenPayload('en', 'hello-world', 0, now)).toThrow(ValidationError);
+    });
+});
+
+describe('signPreviewToken / verifyPreviewToken', () => {
+    it('should round-trip a valid token', async () => {
+        const payload = createPreviewTokenPayload('cs', 'ahoj-svete', 3600, now);
+        const token = await signPreviewToken(payload, SECRET);
+
+        expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+        await expect(verifyPreviewToken(token, SECRET, now)).resolves.toEqual(payload);
+    });
+
+    it('should reject expired tokens', async () => {
+        const token = await signPreviewToken(createPreviewTokenPayload('en', 'hello-world', 60, now), SECRET);
+
+        await expect(verifyPreviewToken(token, SECRET, new Date(now.getTime() + 60_000))).resolves.toBeNull();
+    });
+
+    it('should reject tokens signed with another secret', async () => {
+        const token = await signPreviewToken(createPreviewTokenPayload('en', 'hello-world', 60, now), 'other');
+
+        await expect(verifyPreviewToken(token, SECRET, now)).resolves.toBeNull();
+    });
+
+    it('should reject tampered payloads', async () => {
+        const token = await signPreviewToken(createPreviewTokenPayload('en', 'hello-world', 60, now), SECRET);
+        const signature = token.split('.')[1];
+        const forged = btoa(JSON.stringify({ locale: 'en', slug: 'secret-post', exp: 9999999999 })).replace(/=+$/, '');
+
+        await expect(verifyPreviewToken(`${forged}.${signature}`, SECRET, now)).resolves.toBeNull();
+    });
+
+    it('should reject malformed tokens', async () => {
+        await expect(verifyPreviewToken('not-a-token', SECRET, now)).resolves.toBeNull();
+        await expect(verifyPreviewToken('a.b.c', SECRET, now)).resolves.toBeNull();
+        await expect(verifyPreviewToken('!!.??', SECRET, now)).resolves.toBeNull();
+    });
+
+    it('should require a secret', async () => {
+        await expect(signPreviewToken(createPreviewTokenPayload('en', 'x', 60, now), '')).rejects.toThrow(
+            ConfigurationError,
+        );
+    });
+});
+
+describe('isPreviewTokenValidFor', () => {
+    it('should only unlock the post the token was issued for', async () => {
+        const token = await signPreviewToken(createPreviewTokenPayload('en', 'hello-world', 60, now), SECRET);
+
+        await expect(isPreviewTokenValidFor(token, SECRET, 'en', 'hello-world', now)).resolves.toBe(true);
+        await expect(isPreviewTokenValidFor(token, SECRET, 'en', 'other-post', now)).resolves.toBe(false);
+        await expect(isPreviewTokenValidFor(token, SECRET, 'cs', 'hello-world', now)).resolves.toBe(false);
+    });
+});
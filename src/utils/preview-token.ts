@@ -0,0 +1,130 @@
+/**
+ * Draft Preview Tokens
+ *
+ * Signed, expiring tokens that unlock draft and scheduled news posts for review.
+ *
+ * The payload binds the token to a single post (locale + slug) and an expiry
+ * time, and is signed with the server's preview secret (see signed-token.ts).
+ */
+
+import { LOCALES } from '@i18n/config';
+import type { Locale } from '@type/locale';
+import { ValidationError } from '@utils/errors';
+import { signToken, verifyToken } from '@utils/signed-token';
+
+/**
+ * Default token lifetime (7 days).
+ */
+export const DEFAULT_PREVIEW_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const SECRET_NAME = 'PREVIEW_TOKEN_SECRET';
+
+/**
+ * Data carried by a preview token.
+ */
+export interface PreviewTokenPayload {
+    /** Locale of the previewed post */
+    locale: Locale;
+
+    /** Normalized slug of the previewed post */
+    slug: string;
+
+    /** Expiry time in seconds since the Unix epoch */
+    exp: number;
+}
+
+function isPreviewTokenPayload(value: unknown): value is PreviewTokenPayload {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+
+    const candidate = value as Record<string, unknown>;
+
+    return (
+        typeof candidate.slug === 'string' &&
+        candidate.slug.length > 0 &&
+        typeof candidate.exp === 'number' &&
+        Number.isFinite(candidate.exp) &&
+        (LOCALES as readonly unknown[]).includes(candidate.locale)
+    );
+}
+
+/**
+ * Builds a payload for a post that expires after the given lifetime.
+ *
+ * @param locale - Locale of the post
+ * @param slug - Normalized slug of the post
+ * @param ttlSeconds - Token lifetime in seconds
+ * @param now - Current time (injectable for tests)
+ * @returns Preview token payload
+ * @throws ValidationError if the lifetime is not a positive number
+ */
+export function createPreviewTokenPayload(
+    locale: Locale,
+    slug: string,
+    ttlSeconds: number = DEFAULT_PREVIEW_TOKEN_TTL_SECONDS,
+    now: Date = new Date(),
+): PreviewTokenPayload {
+    if (!Number.isFinite(ttlSeconds) || ttlSeconds <= 0) {
+        throw new ValidationError(`Invalid preview token lifetime: ${ttlSeconds}`, 'ttlSeconds');
+    }
+
+    return { locale, slug, exp: Math.floor(now.getTime() / 1000) + Math.floor(ttlSeconds) };
+}
+
+/**
+ * Signs a preview token payload.
+ *
+ * @param payload - Post and expiry to encode
+ * @param secret - Server preview secret
+ * @returns Token string safe to use in a query parameter
+ * @throws ConfigurationError if the secret is empty
+ */
+export async function signPreviewToken(payload: PreviewTokenPayload, secret: string): Promise<string> {
+    return signToken(payload, secret, SECRET_NAME);
+}
+
+/**
+ * Verifies a preview token's signature and expiry.
+ *
+ * @param token - Token string from the preview URL
+ * @param secret - Server preview secret
+ * @param now - Current time (injectable for tests)
+ * @returns The payload if the token is authentic and unexpired, otherwise null
+ * @throws ConfigurationError if the secret is empty
+ */
+export async function verifyPreviewToken(
+    token: string,
+    secret: string,
+    now: Date = new Date(),
+): Promise<PreviewTokenPayload | null> {
+    const payload = await verifyToken(token, secret, SECRET_NAME);
+
+    if (!isPreviewTokenPayload(payload) || payload.exp * 1000 <= now.getTime()) {
+        return null;
+    }
+
+    return payload;
+}
+
+/**
+ * Checks whether a token grants preview access to a specific post.
+ *
+ * @param token - Token string from the preview URL
+ * @param secret - Server preview secret
+ * @param locale - Locale of the requested post
+ * @param slug - Normalized slug of the requested post
+ * @param now - Current time (injectable for tests)
+ * @returns True if the token is valid for this exact post
+ */
+export async function isPreviewTokenValidFor(
+    token: string,
+    secret: string,
+    locale: Locale,
+    slug: string,
+    now: Date = new Date(),
+): Promise<boolean> {
+    const payload = await verifyPreviewToken(token, secret, now);
+
+    return payload !== null && payload.locale === locale && payload.slug === slug;
+}
@@ -0,0 +1,150 @@
+import type { CollectionEntry } from 'astro:content';
+import { describe, expect, it } from 'vitest';
+
+import { createProjectEntry } from '../test/content-entries';
+import {
+    collectProjectFeedEntries,
+    getProjectLastUpdated,
+    getProjectLink,
+    getProjectUpdates,
+    sortProjects,
+} from './projects';
+
+type ProjectData = CollectionEntry<'projects'>['data'];
+
+function createProject(
+    id: string,
+    status: ProjectData['status'],
+    pubDate: string,
+    overrides: Partial<Pick<ProjectData, 'updatedDate' | 'updates' | 'techStack'>> = {},
+): CollectionEntry<'projects'> {
+    return createProjectEntry(id, { description: `About ${id}`, status, pubDate: new Date(pubDate), ...overrides });
+}
+
+describe('getProjectLink', () => {
+    it('should build localized project paths', () => {
+        expect(getProjectLink('en/blit-tech.mdx', 'en')).toBe('/projects/blit-tech');
+        expect(getProjectLink('cs/blit-tech.mdx', 'cs')).toBe('/projekty/blit-tech');
+    });
+});
+
+describe('getProjectUpdates', () => {
+    it('should sort updates newest first with date-based anchors', () => {
+        const project = createProject('en/engine.mdx', 'active', '2025-01-01', {
+            updates: [
+                { date: new Date('2025-02-01'), title: 'Beta' },
+                { date: new Date('2025-03-15'), title: 'Release', description: 'Version 1.0' },
+            ],
+        });
+
+        expect(getProjectUpdates(project)).toEqual([
+            { anchor: 'update-2025-03-15', date: new Date('2025-03-15'), title: 'Release', description: 'Version 1.0' },
+            { anchor: 'update-2025-02-01', date: new Date('2025-02-01'), title: 'Beta', description: undefined },
+        ]);
+    });
+
+    it('should keep anchors unique for updates on the same day', () => {
+        const project = createProject('en/engine.mdx', 'active', '2025-01-01', {
+            updates: [
+                { date: new Date('2025-02-01'), title: 'Morning' },
+                { date: new Date('2025-02-01'), title: 'Evening' },
+            ],
+        });
+
+        expect(getProjectUpdates(project).map((update) => update.anchor)).toEqual([
+            'update-2025-02-01',
+            'update-2025-02-01-2',
+        ]);
+    });
+});
+
+describe('getProjectLastUpdated', () => {
+    it('should return the latest of pubDate, updatedDate and update dates', () => {
+        expect(getProjectLastUpdated(createProject('en/a.mdx', 'active', '2025-01-01'))).toEqual(
+            new Date('2025-01-01'),
+        );
+
+        expect(
+            getProjectLastUpdated(
+                createProject('en/b.mdx', 'active', '2025-01-01', {
+                    updatedDate: new Date('2025-02-01'),
+                    updates: [{ date: new Date('2025-04-01'), title: 'Later' }],
+                }),
+            ),
+        ).toEqual(new Date('2025-04-01'));
+    });
+});
+
+describe('sortProjects', () => {
+    it('should order by status, then by most recent activity', () => {
+        const sorted = sortProjects([
+            createProject('en/archived.mdx', 'archived', '2025-06-01'),
+            createProject('en/old-active.mdx', 'active', '2024-01-01'),
+            createProject('en/maintained.mdx', 'maintained', '2025-01-01'),
+            createProject('en/new-active.mdx', 'active', '2025-01-01'),
+        ]);
+
+        expect(sorted.map((project) => project.id)).toEqual([
+            'en/new-active.mdx',
+            'en/old-active.mdx',
+            'en/maintained.mdx',
+            'en/archived.mdx',
+        ]);
+    });
+});
+
+describe('collectProjectFeedEntries', () => {
+    const projects = [
+        createProject('en/engine.mdx', 'active', '2025-01-01', {
+            techStack: ['TypeScript', 'WebGPU'],
+            updates: [{ date: new Date('2025-03-01'), title: 'Release', description: 'Version 1.0' }],
+        }),
+        createProject('en/tool.mdx', 'paused', '2025-02-01'),
+    ];
+
+    it('should list launches and updates newest first', () => {
+        expect(collectProjectFeedEntries(projects, 'en', 10)).toEqual([
+            {
+                path: '/projects/engine#update-2025-03-01',
+                title: 'en/engine.mdx: Release',
+                description: 'Version 1.0',
+                date: new Date('2025-03-01'),
+                categories: ['TypeScript', 'WebGPU'],
+            },
+            {
+                path: '/projects/tool',
+                title: 'en/tool.mdx',
+                description: 'About en/tool.mdx',
+                date: new Date('2025-02-01'),
+                categories: [],
+            },
+            {
+                path: '/projects/engine',
+                title: 'en/engine.mdx',
+                description: 'About en/engine.mdx',
+                date: new Date('2025-01-01'),
+                categories: ['TypeScript', 'WebGPU'],
+            },
+        ]);
+    });
+
+    it('should respect the limit', () => {
+        expect(collectProjectFeedEntries(projects, 'en', 1).map((entry) => entry.path)).toEqual([
+            '/projects/engine#update-2025-03-01',
+        ]);
+    });
+
+    it('should fall back to the project description for updates without one', () => {
+        const [entry] = collectProjectFeedEntries(
+            [
+                createProject('en/app.mdx', 'active', '2025-01-01', {
+                    updates: [{ date: new Date('2025-05-01'), title: 'v2' }],
+                }),
+            ],
+            'en',
+            1,
+        );
+
+        expect(entry?.description).toBe('About en/app.mdx');
+    });
+});
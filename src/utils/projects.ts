@@ -0,0 +1,184 @@
+/**
+ * Project Utilities
+ *
+ * Orders projects for the index page, derives each project's last activity
+ * date, and flattens project launches and their `updates` frontmatter into the
+ * entries of the "project updates" feed.
+ */
+
+import { getRoute } from '@config/routes';
+import type { Locale } from '@type/locale';
+import type { CollectionEntry } from 'astro:content';
+
+import type { PROJECT_STATUSES } from '@/content/config';
+
+import { normalizeSlug } from './content-loader';
+import { createSlugger } from './slug';
+
+/**
+ * Lifecycle status of a project (the `status` enum of the collection schema).
+ */
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+
+/**
+ * A single entry of the `updates` frontmatter list.
+ */
+interface ProjectUpdateFrontmatter {
+    date: Date;
+    title: string;
+    description?: string | undefined;
+}
+
+// Ongoing work first, finished work last.
+const STATUS_ORDER: Record<ProjectStatus, number> = {
+    active: 0,
+    maintained: 1,
+    paused: 2,
+    archived: 3,
+};
+
+/**
+ * A dated entry from a project's `updates` frontmatter.
+ */
+export interface ProjectUpdate {
+    /** Fragment ID of the update on the project page */
+    anchor: string;
+
+    date: Date;
+    title: string;
+    description: string | undefined;
+}
+
+/**
+ * One item of the project updates feed: a project launch or one of its updates.
+ */
+export interface ProjectFeedEntry {
+    /** Site-relative URL, with a fragment for updates so each item is unique */
+    path: string;
+
+    title: string;
+    description: string;
+    date: Date;
+
+    /** The project's tech stack */
+    categories: string[];
+}
+
+/**
+ * Builds the detail page path for a project in the given locale.
+ *
+ * @param projectId - The project entry ID (e.g. 'en/blit-tech.mdx')
+ * @param locale - The locale of the project page
+ * @returns Path such as '/projects/blit-tech'
+ */
+export function getProjectLink(projectId: string, locale: Locale): string {
+    return `${getRoute('projects', locale)}/${normalizeSlug(projectId)}`;
+}
+
+/**
+ * Returns a project's lifecycle status.
+ *
+ * @param project - The project entry
+ * @returns The `status` frontmatter value
+ */
+export function getProjectStatus(project: CollectionEntry<'projects'>): ProjectStatus {
+    return project.data.status;
+}
+
+/**
+ * Lists a project's updates, newest first.
+ *
+ * Anchors are derived from the update date, so they stay stable when later
+ * updates are added. Updates on the same day get -2, -3, ... suffixes in the
+ * order they appear in frontmatter.
+ *
+ * @param project - The project entry
+ * @returns Updates sorted by date descending
+ */
+export function getProjectUpdates(project: CollectionEntry<'projects'>): ProjectUpdate[] {
+    const slugger = createSlugger();
+
+    const updates: ProjectUpdateFrontmatter[] = project.data.updates;
+
+    return updates
+        .map((update) => ({
+            anchor: slugger.slug(`update-${update.date.toISOString().slice(0, 10)}`),
+            date: update.date,
+            title: update.title,
+            description: update.description,
+        }))
+        .sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+/**
+ * Returns the date of a project's most recent activity.
+ *
+ * @param project - The project entry
+ * @returns The latest of pubDate, updatedDate and any update date
+ */
+export function getProjectLastUpdated(project: CollectionEntry<'projects'>): Date {
+    const updates: ProjectUpdateFrontmatter[] = project.data.updates;
+    const dates: (Date | undefined)[] = [
+        project.data.pubDate,
+        project.data.updatedDate,
+        ...updates.map(({ date }) => date),
+    ];
+
+    return new Date(Math.max(...dates.flatMap((date) => (date ? [date.getTime()] : []))));
+}
+
+/**
+ * Sorts projects for listing: by status, then most recently active first.
+ *
+ * @param projects - Projects of a single locale
+ * @returns New sorted array
+ */
+export function sortProjects(projects: CollectionEntry<'projects'>[]): CollectionEntry<'projects'>[] {
+    return [...projects].sort(
+        (a, b) =>
+            STATUS_ORDER[getProjectStatus(a)] - STATUS_ORDER[getProjectStatus(b)] ||
+            getProjectLastUpdated(b).getTime() - getProjectLastUpdated(a).getTime() ||
+            a.id.localeCompare(b.id),
+    );
+}
+
+/**
+ * Collects the entries of the project updates feed.
+ *
+ * Every project contributes its launch (pubDate) plus one entry per update.
+ *
+ * @param projects - Projects of a single locale
+ * @param locale - The locale of the feed
+ * @param limit - Maximum number of entries
+ * @returns Entries sorted newest first
+ */
+export function collectProjectFeedEntries(
+    projects: CollectionEntry<'projects'>[],
+    locale: Locale,
+    limit: number,
+): ProjectFeedEntry[] {
+    return projects
+        .flatMap((project): ProjectFeedEntry[] => {
+            const path = getProjectLink(project.id, locale);
+            const categories = project.data.techStack;
+
+            return [
+                {
+                    path,
+                    title: project.data.title,
+                    description: project.data.description,
+                    date: project.data.pubDate,
+                    categories,
+                },
+                ...getProjectUpdates(project).map((update) => ({
+                    path: `${path}#${update.anchor}`,
+                    title: `${project.data.title}: ${update.title}`,
+                    description: update.description ?? project.data.description,
+                    date: update.date,
+                    categories,
+                })),
+            ];
+        })
+        .sort((a, b) => b.date.getTime() - a.date.getTime() || a.path.localeCompare(b.path))
+        .slice(0, limit);
+}
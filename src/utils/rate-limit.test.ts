@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+    consumeRateLimit,
+    createKvRateLimitStore,
+    createMemoryRateLimitStore,
+    type RateLimitKvNamespace,
+} from './rate-limit';
+
+const rule = { limit: 2, windowSeconds: 60 };
+const start = new Date('2025-06-01T12:00:00Z');
+
+function at(seconds: number): Date {
+    return new Date(start.getTime() + seconds * 1000);
+}
+
+function createFakeKv(): RateLimitKvNamespace & { puts: { key: string; expirationTtl?: number }[] } {
+    const values = new Map<string, string>();
+    const puts: { key: string; expirationTtl?: number }[] = [];
+
+    return {
+        puts,
+        async get(key) {
+            const value = values.get(key);
+
+            return value === undefined ? null : JSON.parse(value);
+        },
+        async put(key, value, options) {
+            values.set(key, value);
+            puts.push({ key, ...(options?.expirationTtl !== undefined && { expirationTtl: options.expirationTtl }) });
+        },
+    };
+}
+
+describe('consumeRateLimit', () => {
+    it('should allow hits up to the limit', async () => {
+        const store = createMemoryRateLimitStore(() => start.getTime());
+
+        await expect(consumeRateLimit(store, 'ip:a', rule, at(0))).resolves.toEqual({
+            allowed: true,
+            retryAfterSeconds: 0,
+        });
+        await expect(consumeRateLimit(store, 'ip:a', rule, at(10))).resolves.toMatchObject({ allowed: true });
+    });
+
+    it('should reject hits over the limit until the oldest leaves the window', async () => {
+        const store = createMemoryRateLimitStore(() => start.getTime());
+
+        await consumeRateLimit(store, 'ip:a', rule, at(0));
+        await consumeRateLimit(store, 'ip:a', rule, at(10));
+
+        await expect(consumeRateLimit(store, 'ip:a', rule, at(20))).resolves.toEqual({
+            allowed: false,
+            retryAfterSeconds: 40,
+        });
+        await expect(consumeRateLimit(store, 'ip:a', rule, at(60))).resolves.toMatchObject({ allowed: true });
+        await expect(consumeRateLimit(store, 'ip:a', rule, at(61))).resolves.toEqual({
+            allowed: false,
+            retryAfterSeconds: 9,
+        });
+    });
+
+    it('should slide the window instead of resetting it at fixed intervals', async () => {
+        const store = createMemoryRateLimitStore(() => start.getTime());
+
+        await consumeRateLimit(store, 'ip:a', rule, at(50));
+        await consumeRateLimit(store, 'ip:a', rule, at(59));
+
+        await expect(consumeRateLimit(store, 'ip:a', rule, at(65))).resolves.toEqual({
+            allowed: false,
+            retryAfterSeconds: 45,
+        });
+    });
+
+    it('should count keys separately', async () => {
+        const store = createMemoryRateLimitStore(() => start.getTime());
+
+        await consumeRateLimit(store, 'ip:a', rule, at(0));
+        await consumeRateLimit(store, 'ip:a', rule, at(0));
+
+        await expect(consumeRateLimit(store, 'ip:b', rule, at(0))).resolves.toMatchObject({ allowed: true });
+    });
+});
+
+describe('createMemoryRateLimitStore', () => {
+    it('should forget keys after their lifetime', async () => {
+        let now = start.getTime();
+        const store = createMemoryRateLimitStore(() => now);
+
+        await store.setHits('ip:a', [now], 60);
+        expect(await store.getHits('ip:a')).toEqual([now]);
+
+        now += 60_000;
+        expect(await store.getHits('ip:a')).toEqual([]);
+    });
+});
+
+describe('createKvRateLimitStore', () => {
+    it('should keep hits under prefixed keys with a KV-compatible expiration', async () => {
+        const kv = createFakeKv();
+        const store = createKvRateLimitStore(kv);
+
+        await store.setHits('ip:a', [1, 2], 30);
+
+        expect(await store.getHits('ip:a')).toEqual([1, 2]);
+        expect(kv.puts).toEqual([{ key: 'rate-limit:ip:a', expirationTtl: 60 }]);
+    });
+
+    it('should ignore missing and malformed values', async () => {
+        const kv = createFakeKv();
+        const store = createKvRateLimitStore(kv);
+
+        await kv.put('rate-limit:ip:b', JSON.stringify({ hits: 'many' }));
+
+        expect(await store.getHits('ip:a')).toEqual([]);
+        expect(await store.getHits('ip:b')).toEqual([]);
+    });
+
+    it('should enforce limits across store instances sharing a namespace', async () => {
+        const kv = createFakeKv();
+
+        await consumeRateLimit(createKvRateLimitStore(kv), 'ip:a', rule, at(0));
+        await consumeRateLimit(createKvRateLimitStore(kv), 'ip:a', rule, at(1));
+
+        await expect(consumeRateLimit(createKvRateLimitStore(kv), 'ip:a', rule, at(2))).resolves.toMatchObject({
+            allowed: false,
+        });
+    });
+});
@@ -0,0 +1,164 @@
+/**
+ * Rate Limiting
+ *
+ * Sliding-window rate limits: a key (a client IP, an email address) may be hit
+ * `limit` times within any `windowSeconds`. Each key keeps the timestamps of its
+ * hits in a RateLimitStore, so the same limiter runs on an in-memory map
+ * (development, tests, a single worker isolate) or on Cloudflare KV, shared by
+ * all isolates. KV is eventually consistent, so limits there are approximate;
+ * that is enough to stop floods, not to count exactly.
+ */
+
+// #region Type Definitions
+
+/**
+ * How often a key may be hit.
+ */
+export interface RateLimitRule {
+    /** Hits allowed within the window */
+    limit: number;
+
+    /** Window length in seconds */
+    windowSeconds: number;
+}
+
+/**
+ * Outcome of a hit.
+ */
+export interface RateLimitResult {
+    allowed: boolean;
+
+    /** Seconds until the key may be hit again; 0 when allowed */
+    retryAfterSeconds: number;
+}
+
+/**
+ * Storage of the hits recorded per key.
+ */
+export interface RateLimitStore {
+    /** Timestamps (milliseconds) of the hits recorded under the key, oldest first */
+    getHits(key: string): Promise<number[]>;
+
+    /** Replaces the hits of the key, which may be forgotten after ttlSeconds */
+    setHits(key: string, hits: number[], ttlSeconds: number): Promise<void>;
+}
+
+/**
+ * The part of a Cloudflare KV namespace binding the KV store uses.
+ */
+export interface RateLimitKvNamespace {
+    get(key: string, type: 'json'): Promise<unknown>;
+    put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+// #endregion
+
+// #region Helper Functions
+
+// Entries above which the memory store drops expired keys on write.
+const MEMORY_STORE_SWEEP_SIZE = 1000;
+
+// Shortest expiration Cloudflare KV accepts.
+const KV_MIN_EXPIRATION_TTL_SECONDS = 60;
+
+function isHitList(value: unknown): value is number[] {
+    return Array.isArray(value) && value.every((hit) => typeof hit === 'number' && Number.isFinite(hit));
+}
+
+// #endregion
+
+// #region Main Exports
+
+/**
+ * Records a hit on a key unless it is over its limit.
+ *
+ * Hits older than the window are dropped; a rejected hit is not recorded, so a
+ * client that keeps retrying is let through once its earliest hit leaves the window.
+ *
+ * @param store - Where hits are kept
+ * @param key - Key to hit, such as 'ip:203.0.113.7'
+ * @param rule - Limit and window of the key
+ * @param now - Current time (injectable for tests)
+ * @returns Whether the hit is allowed and, if not, when to retry
+ */
+export async function consumeRateLimit(
+    store: RateLimitStore,
+    key: string,
+    rule: RateLimitRule,
+    now: Date = new Date(),
+): Promise<RateLimitResult> {
+    const windowMs = rule.windowSeconds * 1000;
+    const current = now.getTime();
+    const hits = (await store.getHits(key)).filter((hit) => hit > current - windowMs && hit <= current);
+
+    if (hits.length >= rule.limit) {
+        const oldest = hits[hits.length - rule.limit] ?? current;
+
+        return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((oldest + windowMs - current) / 1000)) };
+    }
+
+    await store.setHits(key, [...hits, current], rule.windowSeconds);
+
+    return { allowed: true, retryAfterSeconds: 0 };
+}
+
+/**
+ * Creates a store keeping hits in memory, for one server process or worker isolate.
+ *
+ * @param now - Clock for expiring keys (injectable for tests)
+ * @returns An empty store
+ */
+export function createMemoryRateLimitStore(now: () => number = Date.now): RateLimitStore {
+    const entries = new Map<string, { hits: number[]; expiresAt: number }>();
+
+    return {
+        async getHits(key) {
+            const entry = entries.get(key);
+
+            if (!entry || entry.expiresAt <= now()) {
+                entries.delete(key);
+
+                return [];
+            }
+
+            return [...entry.hits];
+        },
+
+        async setHits(key, hits, ttlSeconds) {
+            if (entries.size >= MEMORY_STORE_SWEEP_SIZE) {
+                for (const [entryKey, entry] of entries) {
+                    if (entry.expiresAt <= now()) {
+                        entries.delete(entryKey);
+                    }
+                }
+            }
+
+            entries.set(key, { hits: [...hits], expiresAt: now() + ttlSeconds * 1000 });
+        },
+    };
+}
+
+/**
+ * Creates a store keeping hits in a Cloudflare KV namespace.
+ *
+ * @param namespace - KV namespace binding
+ * @param prefix - Prefix of the KV keys, so the namespace can be shared
+ * @returns The KV-backed store
+ */
+export function createKvRateLimitStore(namespace: RateLimitKvNamespace, prefix = 'rate-limit:'): RateLimitStore {
+    return {
+        async getHits(key) {
+            const value = await namespace.get(`${prefix}${key}`, 'json');
+
+            return isHitList(value) ? value : [];
+        },
+
+        async setHits(key, hits, ttlSeconds) {
+            await namespace.put(`${prefix}${key}`, JSON.stringify(hits), {
+                expirationTtl: Math.max(KV_MIN_EXPIRATION_TTL_SECONDS, Math.ceil(ttlSeconds)),
+            });
+        },
+    };
+}
+
+// #endregion
@@ -0,0 +1,70 @@
+import type { CollectionEntry } from 'astro:content';
+import { describe, expect, it } from 'vitest';
+
+import { createNewsEntry } from '../test/content-entries';
+import { getRelatedPosts } from './related-posts';
+
+function createPost(id: string, tags: string[], pubDate: string, draft = false): CollectionEntry<'news'> {
+    return createNewsEntry(id, { tags, pubDate: new Date(pubDate), draft });
+}
+
+const current = createPost('en/current.mdx', ['engine', 'webgpu'], '2025-03-01');
+
+describe('getRelatedPosts', () => {
+    it('should rank posts by shared tag count before recency', () => {
+        const posts = [
+            current,
+            createPost('en/one-tag-new.mdx', ['engine'], '2025-02-20'),
+            createPost('en/two-tags-old.mdx', ['engine', 'webgpu'], '2024-01-01'),
+            createPost('en/no-tags-newest.mdx', [], '2025-02-28'),
+        ];
+
+        expect(getRelatedPosts(current, posts).map((post) => post.id)).toEqual([
+            'en/two-tags-old.mdx',
+            'en/one-tag-new.mdx',
+            'en/no-tags-newest.mdx',
+        ]);
+    });
+
+    it('should prefer newer posts when overlap is equal', () => {
+        const posts = [
+            createPost('en/older.mdx', ['engine'], '2025-01-01'),
+            createPost('en/newer.mdx', ['engine'], '2025-02-01'),
+        ];
+
+        expect(getRelatedPosts(current, posts).map((post) => post.id)).toEqual(['en/newer.mdx', 'en/older.mdx']);
+    });
+
+    it('should break full ties by ID so results are deterministic', () => {
+        const posts = [
+            createPost('en/b.mdx', ['engine'], '2025-01-01'),
+            createPost('en/a.mdx', ['engine'], '2025-01-01'),
+        ];
+
+        expect(getRelatedPosts(current, posts).map((post) => post.id)).toEqual(['en/a.mdx', 'en/b.mdx']);
+        expect(getRelatedPosts(current, [...posts].reverse()).map((post) => post.id)).toEqual(['en/a.mdx', 'en/b.mdx']);
+    });
+
+    it('should match tags regardless of case and diacritics', () => {
+        const posts = [
+            createPost('en/plain.mdx', [], '2025-02-01'),
+            createPost('en/styled.mdx', ['WebGPU'], '2024-01-01'),
+        ];
+
+        expect(getRelatedPosts(current, posts)[0]?.id).toBe('en/styled.mdx');
+    });
+
+    it('should exclude the current post and drafts', () => {
+        const posts = [current, createPost('en/draft.mdx', ['engine'], '2025-02-01', true)];
+
+        expect(getRelatedPosts(current, posts)).toEqual([]);
+    });
+
+    it('should return three posts by default and honor a custom limit', () => {
+        const posts = ['a', 'b', 'c', 'd', 'e'].map((name) => createPost(`en/${name}.mdx`, ['engine'], '2025-01-01'));
+
+        expect(getRelatedPosts(current, posts)).toHaveLength(3);
+        expect(getRelatedPosts(current, posts, { limit: 5 })).toHaveLength(5);
+        expect(getRelatedPosts(current, posts, { limit: 0 })).toEqual([]);
+    });
+});
@@ -0,0 +1,64 @@
+/**
+ * Related News Posts
+ *
+ * Picks posts related to a given news post by tag overlap, falling back to
+ * recency. The ranking is fully deterministic: shared tag count first, then
+ * newest pubDate, then entry ID.
+ */
+
+import { COMPONENT_CONFIG } from '@config/components';
+import type { CollectionEntry } from 'astro:content';
+
+import { getTagSlug } from './news-tags';
+
+export interface RelatedPostsOptions {
+    /** Maximum number of posts to return (defaults to COMPONENT_CONFIG.relatedPosts.limit) */
+    limit?: number;
+}
+
+function getTagSlugs(post: CollectionEntry<'news'>): Set<string> {
+    return new Set(post.data.tags.map(getTagSlug).filter(Boolean));
+}
+
+/**
+ * Returns the posts most related to the given post.
+ *
+ * Drafts and the post itself are never returned. Posts without shared tags
+ * still fill remaining slots, newest first, so short archives show a full block.
+ *
+ * @param post - The post being viewed
+ * @param candidates - Posts to choose from (usually LocaleContent.newsPosts)
+ * @param options - Result limit
+ * @returns Related posts, most related first
+ *
+ * @example
+ * getRelatedPosts(entry, content.newsPosts, { limit: 4 });
+ */
+export function getRelatedPosts(
+    post: CollectionEntry<'news'>,
+    candidates: CollectionEntry<'news'>[],
+    options: RelatedPostsOptions = {},
+): CollectionEntry<'news'>[] {
+    const { limit = COMPONENT_CONFIG.relatedPosts.limit } = options;
+
+    if (limit <= 0) {
+        return [];
+    }
+
+    const postTags = getTagSlugs(post);
+
+    return candidates
+        .filter((candidate) => candidate.id !== post.id && !candidate.data.draft)
+        .map((candidate) => ({
+            candidate,
+            sharedTags: [...getTagSlugs(candidate)].filter((tag) => postTags.has(tag)).length,
+        }))
+        .sort(
+            (a, b) =>
+                b.sharedTags - a.sharedTags ||
+                b.candidate.data.pubDate.getTime() - a.candidate.data.pubDate.getTime() ||
+                a.candidate.id.localeCompare(b.candidate.id),
+        )
+        .slice(0, limit)
+        .map(({ candidate }) => candidate);
+}
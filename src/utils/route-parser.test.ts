@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseRoute } from './route-parser';
+
+describe('parseRoute', () => {
+    it('should parse the home page', () => {
+        expect(parseRoute(undefined)).toEqual({ type: 'page', slug: 'index', requestPath: 'index' });
+    });
+
+    it('should parse the news index and posts of every locale', () => {
+        expect(parseRoute('news').type).toBe('news-index');
+        expect(parseRoute('novinky').type).toBe('news-index');
+        expect(parseRoute('news/hello-world')).toMatchObject({ type: 'news-post', slug: 'hello-world' });
+        expect(parseRoute('novinky/ahoj-svete')).toMatchObject({ type: 'news-post', slug: 'ahoj-svete' });
+    });
+
+    it('should parse tag indexes and tag archives', () => {
+        expect(parseRoute('news/tags').type).toBe('news-tag-index');
+        expect(parseRoute('novinky/stitky/oznameni')).toMatchObject({ type: 'news-tag', slug: 'oznameni' });
+    });
+
+    it('should parse canonical news page numbers only', () => {
+        expect(parseRoute('novinky/strana/2')).toMatchObject({ type: 'news-page', page: 2 });
+        expect(parseRoute('news/page/02')).toMatchObject({ type: 'news-post', slug: 'page/02' });
+    });
+
+    it('should parse series and author archives', () => {
+        expect(parseRoute('news/series/devlog')).toMatchObject({ type: 'news-series', slug: 'devlog' });
+        expect(parseRoute('novinky/autori/ambilab-team')).toMatchObject({
+            type: 'news-author',
+            slug: 'ambilab-team',
+        });
+    });
+
+    it('should parse the project index and projects', () => {
+        expect(parseRoute('projekty').type).toBe('project-index');
+        expect(parseRoute('projects/blit-tech')).toMatchObject({ type: 'project', slug: 'blit-tech' });
+    });
+
+    it('should not match prefixes that only start the same way', () => {
+        expect(parseRoute('newsletter')).toMatchObject({ type: 'page', slug: 'newsletter' });
+        expect(parseRoute('projects-archive')).toMatchObject({ type: 'page', slug: 'projects-archive' });
+    });
+});
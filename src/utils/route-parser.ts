@@ -1,15 +1,55 @@
-export type RouteType = 'news-index' | 'news-post' | 'page';
+import { ROUTES } from '@config/routes';
+import { LOCALES } from '@i18n/config';
 
-export interface ParsedRoute {
-    type: RouteType;
+export type RouteType =
+    | 'news-index'
+    | 'news-page'
+    | 'news-post'
+    | 'news-tag-index'
+    | 'news-tag'
+    | 'news-series'
+    | 'news-author'
+    | 'project-index'
+    | 'project'
+    | 'page';
+
+interface BaseParsedRoute {
     slug: string;
     requestPath: string;
 }
 
+export interface ContentRoute extends BaseParsedRoute {
+    type: Exclude<RouteType, 'news-page'>;
+}
+
+export interface NewsPageRoute extends BaseParsedRoute {
+    type: 'news-page';
+    page: number;
+}
+
+export type ParsedRoute = ContentRoute | NewsPageRoute;
+
+// Route prefixes of every locale, without the leading slash (e.g. 'news' and 'novinky').
+function getRoutePrefixes(route: keyof typeof ROUTES): string[] {
+    return [...new Set(LOCALES.map((locale) => ROUTES[route][locale].slice(1)))];
+}
+
+const NEWS_PREFIXES = getRoutePrefixes('news');
+
+const NEWS_TAGS_PREFIXES = getRoutePrefixes('newsTags');
+
+const NEWS_PAGE_PREFIXES = getRoutePrefixes('newsPage').map((prefix) => `${prefix}/`);
+
+const NEWS_SERIES_PREFIXES = getRoutePrefixes('newsSeries').map((prefix) => `${prefix}/`);
+
+const NEWS_AUTHORS_PREFIXES = getRoutePrefixes('newsAuthors').map((prefix) => `${prefix}/`);
+
+const PROJECTS_PREFIXES = getRoutePrefixes('projects');
+
 export function parseRoute(slug: string | undefined): ParsedRoute {
     const requestPath = slug || 'index';
 
-    if (requestPath === 'news' || requestPath === 'novinky') {
+    if (NEWS_PREFIXES.includes(requestPath)) {
         return {
             type: 'news-index',
             slug: 'index',
@@ -17,8 +57,89 @@ export function parseRoute(slug: string | undefined): ParsedRoute {
         };
     }
 
-    if (requestPath.startsWith('news/') || requestPath.startsWith('novinky/')) {
-        const postSlug = requestPath.replace(/^(news|novinky)\//, '');
+    const tagsPrefix = NEWS_TAGS_PREFIXES.find(
+        (prefix) => requestPath === prefix || requestPath.startsWith(`${prefix}/`),
+    );
+
+    if (tagsPrefix) {
+        const tagSlug = requestPath.slice(tagsPrefix.length + 1);
+
+        if (!tagSlug) {
+            return {
+                type: 'news-tag-index',
+                slug: 'index',
+                requestPath,
+            };
+        }
+
+        return {
+            type: 'news-tag',
+            slug: tagSlug,
+            requestPath,
+        };
+    }
+
+    const pagePrefix = NEWS_PAGE_PREFIXES.find((prefix) => requestPath.startsWith(prefix));
+    const pageNumber = pagePrefix ? requestPath.slice(pagePrefix.length) : '';
+
+    // Only canonical page numbers match; anything else falls through and 404s as an unknown post.
+    if (/^[1-9]\d*$/.test(pageNumber)) {
+        return {
+            type: 'news-page',
+            slug: 'index',
+            page: Number(pageNumber),
+            requestPath,
+        };
+    }
+
+    const seriesPrefix = NEWS_SERIES_PREFIXES.find((prefix) => requestPath.startsWith(prefix));
+    const seriesSlug = seriesPrefix ? requestPath.slice(seriesPrefix.length) : '';
+
+    if (seriesSlug) {
+        return {
+            type: 'news-series',
+            slug: seriesSlug,
+            requestPath,
+        };
+    }
+
+    const authorsPrefix = NEWS_AUTHORS_PREFIXES.find((prefix) => requestPath.startsWith(prefix));
+    const authorSlug = authorsPrefix ? requestPath.slice(authorsPrefix.length) : '';
+
+    if (authorSlug) {
+        return {
+            type: 'news-author',
+            slug: authorSlug,
+            requestPath,
+        };
+    }
+
+    const projectsPrefix = PROJECTS_PREFIXES.find(
+        (prefix) => requestPath === prefix || requestPath.startsWith(`${prefix}/`),
+    );
+
+    if (projectsPrefix) {
+        const projectSlug = requestPath.slice(projectsPrefix.length + 1);
+
+        if (!projectSlug) {
+            return {
+                type: 'project-index',
+                slug: 'index',
+                requestPath,
+            };
+        }
+
+        return {
+            type: 'project',
+            slug: projectSlug,
+            requestPath,
+        };
+    }
+
+    const newsPrefix = NEWS_PREFIXES.find((prefix) => requestPath.startsWith(`${prefix}/`));
+
+    if (newsPrefix) {
+        const postSlug = requestPath.slice(newsPrefix.length + 1);
 
         if (!postSlug) {
             return {
@@ -5,61 +5,57 @@ import { getTranslation } from '@i18n/translations';
 import type { Locale } from '@type/locale';
 import type { APIContext } from 'astro';
 
-import { loadLocaleContent, normalizeSlug, sortNewsPostsByDate } from './content-loader';
+import { loadLocaleContent } from './content-loader';
+import { buildNewsFeed, createFeedErrorResponse, type NewsFeedOptions, resolveSiteUrl } from './feed';
 import { createLogger } from './logger';
+import { collectProjectFeedEntries } from './projects';
+import { escapeXml } from './xml';
 
 const logger = createLogger({ prefix: 'RSS' });
 
-export function getNewsPostLink(postId: string, locale: Locale): string {
-    if (!postId.includes('/')) {
-        throw new Error(`Invalid post ID format: ${postId}. Expected format: "locale/slug.mdx"`);
-    }
+const PROJECT_FEED_LIMIT = 20;
 
-    return `${getRoute('news', locale)}/${normalizeSlug(postId)}`;
-}
+/**
+ * Options for the RSS feed endpoint.
+ */
+type RssFeedOptions = Pick<NewsFeedOptions, 'tag'>;
 
+/**
+ * Generates the RSS 2.0 news feed for a locale, optionally filtered to one tag.
+ *
+ * A tag feed has its own title and self link and responds with 404 when
+ * no post carries the tag.
+ */
 export async function generateRssFeed(
     context: APIContext,
     locale: Locale,
     localeLabel: string,
     languageCode: string,
+    options: RssFeedOptions = {},
 ): Promise<Response> {
     try {
-        const content = await loadLocaleContent(locale);
-        const sortedPosts = sortNewsPostsByDate(content.newsPosts);
-
-        // Filter out draft posts and limit to 20 most recent
-        const publishedPosts = sortedPosts.filter((post) => !post.data.draft);
-        const recentPosts = publishedPosts.slice(0, 20);
-
-        const t = getTranslation(locale);
-        const description = t.footer.description;
-
-        // Ensure we have a valid site URL
-        const rawSiteUrl = context.site?.toString() || SITE.URL;
-        let siteUrl: URL;
-        try {
-            siteUrl = new URL(rawSiteUrl);
-            if (siteUrl.protocol !== 'http:' && siteUrl.protocol !== 'https:') {
-                throw new Error(`Invalid protocol: ${siteUrl.protocol}`);
-            }
-        } catch {
-            throw new Error(`Invalid site URL: ${rawSiteUrl}`);
-        }
+        const feed = await buildNewsFeed(context, locale, localeLabel, languageCode, {
+            ...options,
+            fullContent: true,
+        });
 
         return rss({
-            title: `${SITE.NAME} - ${localeLabel}`,
-            description,
-            site: siteUrl.toString(),
-            items: recentPosts.map((post) => ({
-                title: post.data.title,
-                description: post.data.description,
-                pubDate: post.data.pubDate,
-                link: getNewsPostLink(post.id, locale),
-                categories: post.data.tags,
-                author: SITE.AUTHOR,
+            title: feed.title,
+            description: feed.description,
+            site: feed.links.html,
+            items: feed.items.map((item) => ({
+                title: item.title,
+                description: item.summary,
+                pubDate: item.published,
+                link: item.url,
+                categories: item.categories,
+                author: item.author.name,
+                ...(item.contentHtml ? { content: item.contentHtml } : {}),
             })),
-            customData: `<language>${languageCode}</language>`,
+            customData: [
+                `<language>${escapeXml(feed.language)}</language>`,
+                `<atom:link href="${escapeXml(feed.links.rss)}" rel="self" type="application/rss+xml"/>`,
+            ].join(''),
             xmlns: {
                 atom: 'http://www.w3.org/2005/Atom',
             },
@@ -67,19 +63,52 @@ export async function generateRssFeed(
     } catch (error) {
         logger.error(`Failed to generate RSS feed for locale ${locale}`, error);
 
+        return createFeedErrorResponse('rss', locale, error);
+    }
+}
+
+/**
+ * Generates the RSS 2.0 project updates feed for a locale.
+ *
+ * Items are project launches and the dated entries of each project's `updates`
+ * frontmatter; updates link to their anchor on the project page.
+ */
+export async function generateProjectUpdatesRssFeed(
+    context: APIContext,
+    locale: Locale,
+    localeLabel: string,
+    languageCode: string,
+): Promise<Response> {
+    try {
         const t = getTranslation(locale);
+        const content = await loadLocaleContent(locale);
+        const siteUrl = resolveSiteUrl(context);
+        const toAbsolute = (path: string): string => new URL(path, siteUrl).toString();
+        const selfUrl = toAbsolute(getRoute('projectsRss', locale));
 
-        return new Response(
-            `<?xml version="1.0" encoding="utf-8"?>
-<error>
-    <message>${t.rss.errorMessage}</message>
-</error>`,
-            {
-                status: 500,
-                headers: {
-                    'Content-Type': 'application/xml',
-                },
+        return rss({
+            title: `${SITE.NAME} - ${localeLabel} - ${t.projects.updatesFeed}`,
+            description: t.projects.description,
+            site: toAbsolute(getRoute('projects', locale)),
+            items: collectProjectFeedEntries(content.projects, locale, PROJECT_FEED_LIMIT).map((entry) => ({
+                title: entry.title,
+                description: entry.description,
+                pubDate: entry.date,
+                link: toAbsolute(entry.path),
+                categories: entry.categories,
+                author: SITE.AUTHOR,
+            })),
+            customData: [
+                `<language>${escapeXml(languageCode)}</language>`,
+                `<atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml"/>`,
+            ].join(''),
+            xmlns: {
+                atom: 'http://www.w3.org/2005/Atom',
             },
-        );
+        });
+    } catch (error) {
+        logger.error(`Failed to generate project updates RSS feed for locale ${locale}`, error);
+
+        return createFeedErrorResponse('rss', locale, error);
     }
 }
@@ -142,3 +142,89 @@ export const scrollToTop = (smooth = true): void => {
         behavior: smooth ? 'smooth' : 'auto',
     });
 };
+
+export interface HeadingPosition {
+    id: string;
+
+    /** Distance from the top of the viewport, as returned by getBoundingClientRect() */
+    top: number;
+}
+
+/**
+ * Picks the heading the reader is currently in: the last heading (in document
+ * order) whose top edge has scrolled above the offset line.
+ */
+export const getActiveHeadingId = (positions: HeadingPosition[], offset: number): string | null => {
+    let activeId: string | null = null;
+
+    for (const position of positions) {
+        if (position.top > offset) {
+            break;
+        }
+
+        activeId = position.id;
+    }
+
+    return activeId;
+};
+
+/**
+ * Tracks which heading is active while the page scrolls (scroll-spy).
+ *
+ * Calls onChange only when the active heading changes. At the bottom of the
+ * page the last heading wins, even if it never reaches the offset line.
+ *
+ * @returns Cleanup function that removes the listeners
+ */
+export const observeActiveHeading = (
+    ids: string[],
+    onChange: (id: string | null) => void,
+    offset = 0,
+): (() => void) => {
+    if (typeof window === 'undefined' || typeof document === 'undefined' || ids.length === 0) {
+        return () => undefined;
+    }
+
+    let frame: number | null = null;
+    let currentId: string | null | undefined;
+
+    const update = () => {
+        frame = null;
+
+        const positions = ids.flatMap((id) => {
+            const element = document.getElementById(id);
+
+            return element ? [{ id, top: element.getBoundingClientRect().top }] : [];
+        });
+
+        const isAtBottom =
+            window.scrollY > 0 && window.innerHeight + window.scrollY >= document.documentElement.scrollHeight - 2;
+        const lastPosition = positions[positions.length - 1];
+        const nextId = isAtBottom && lastPosition ? lastPosition.id : getActiveHeadingId(positions, offset);
+
+        if (nextId !== currentId) {
+            currentId = nextId;
+            onChange(nextId);
+        }
+    };
+
+    const scheduleUpdate = () => {
+        if (frame === null) {
+            frame = requestAnimationFrame(update);
+        }
+    };
+
+    window.addEventListener('scroll', scheduleUpdate, { passive: true });
+    window.addEventListener('resize', scheduleUpdate);
+
+    update();
+
+    return () => {
+        window.removeEventListener('scroll', scheduleUpdate);
+        window.removeEventListener('resize', scheduleUpdate);
+
+        if (frame !== null) {
+            cancelAnimationFrame(frame);
+        }
+    };
+};
@@ -0,0 +1,143 @@
+/**
+ * Search Index Loader
+ *
+ * Turns the published news and pages of a locale into search documents. The
+ * index is built at build time and prerendered as JSON per locale (see
+ * src/pages/search-index/[locale].json.ts); the search API only fetches and
+ * parses that file. Drafts and scheduled posts are never indexed, so a post
+ * becomes searchable with the first build after it goes live.
+ */
+
+import { getRoute } from '@config/routes';
+import type { Locale } from '@type/locale';
+import type { CollectionEntry } from 'astro:content';
+
+import { loadLocaleContent, normalizeSlug } from './content-loader';
+import { ConfigurationError, ContentError } from './errors';
+import { createLogger } from './logger';
+import {
+    buildSearchIndex,
+    deserializeSearchIndex,
+    markdownToPlainText,
+    type SearchDocument,
+    type SearchIndex,
+    type SerializedSearchIndex,
+} from './search';
+
+const logger = createLogger({ prefix: 'SearchIndex' });
+
+const indexCache = new Map<Locale, Promise<SearchIndex>>();
+
+function createNewsDocument(entry: CollectionEntry<'news'>, locale: Locale): SearchDocument {
+    return {
+        type: 'news',
+        url: `${getRoute('news', locale)}/${normalizeSlug(entry.id)}`,
+        title: entry.data.title,
+        description: entry.data.description,
+        tags: entry.data.tags,
+        text: markdownToPlainText(entry.body),
+        publishedAt: entry.data.pubDate,
+    };
+}
+
+function createPageDocument(entry: CollectionEntry<'pages'>): SearchDocument {
+    const slug = normalizeSlug(entry.id);
+
+    return {
+        type: 'page',
+        url: slug === 'index' ? '/' : `/${slug}`,
+        title: entry.data.title,
+        description: entry.data.description,
+        tags: [],
+        text: markdownToPlainText(entry.body),
+        publishedAt: undefined,
+    };
+}
+
+/**
+ * Fetches a static asset of the deployment by its site path.
+ */
+export type AssetFetcher = (path: string) => Promise<Response>;
+
+/**
+ * Returns the site path of the prerendered search index of a locale.
+ *
+ * @param locale - The locale of the index
+ * @returns Path such as '/search-index/en.json'
+ */
+export function getSearchIndexPath(locale: Locale): string {
+    return `/search-index/${locale}.json`;
+}
+
+/**
+ * Builds the search index of a locale from its published content.
+ *
+ * @param locale - The locale to index
+ * @returns The locale's search index
+ */
+export async function buildLocaleSearchIndex(locale: Locale): Promise<SearchIndex> {
+    const startTime = performance.now();
+    const content = await loadLocaleContent(locale);
+
+    const documents = [
+        ...content.newsPosts.map((entry) => createNewsDocument(entry, locale)),
+        ...content.pages.map((entry) => createPageDocument(entry)),
+    ];
+
+    const index = buildSearchIndex(documents, locale);
+    const duration = performance.now() - startTime;
+
+    logger.info(`Built search index with ${documents.length} documents in ${duration.toFixed(2)}ms`, {
+        locale,
+        termCount: index.postings.size,
+    });
+
+    return index;
+}
+
+async function fetchSearchIndex(locale: Locale, fetchAsset: AssetFetcher): Promise<SearchIndex> {
+    const path = getSearchIndexPath(locale);
+    const response = await fetchAsset(path);
+
+    if (!response.ok) {
+        throw new ContentError(`Search index ${path} is not available (HTTP ${response.status})`, path);
+    }
+
+    const data: SerializedSearchIndex = await response.json();
+
+    return deserializeSearchIndex(data);
+}
+
+/**
+ * Returns the search index for a locale, fetching the prerendered index on
+ * first use.
+ *
+ * In dev mode nothing is prerendered, so the index is built on every call
+ * instead and content edits show up immediately.
+ *
+ * @param locale - The locale to search
+ * @param fetchAsset - Fetcher of the deployment's static assets (the ASSETS binding)
+ * @returns The locale's search index
+ * @throws ConfigurationError when no asset fetcher is available outside dev mode
+ */
+export function getSearchIndex(locale: Locale, fetchAsset: AssetFetcher | undefined): Promise<SearchIndex> {
+    if (import.meta.env.DEV) {
+        return buildLocaleSearchIndex(locale);
+    }
+
+    let index = indexCache.get(locale);
+
+    if (!index) {
+        if (!fetchAsset) {
+            return Promise.reject(new ConfigurationError('The ASSETS binding is not available', 'ASSETS'));
+        }
+
+        index = fetchSearchIndex(locale, fetchAsset);
+
+        // Don't cache failures; the next request retries.
+        index.catch(() => indexCache.delete(locale));
+        indexCache.set(locale, index);
+    }
+
+    return index;
+}
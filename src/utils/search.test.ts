@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+    analyzeText,
+    buildSearchIndex,
+    deserializeSearchIndex,
+    foldText,
+    markdownToPlainText,
+    type SearchDocument,
+    searchIndex,
+    serializeSearchIndex,
+    stemWord,
+} from './search';
+
+function createDocument(overrides: Partial<SearchDocument>): SearchDocument {
+    return {
+        type: 'news',
+        url: '/news/post',
+        title: 'Post',
+        description: '',
+        tags: [],
+        text: '',
+        publishedAt: undefined,
+        ...overrides,
+    };
+}
+
+describe('foldText', () => {
+    it('should lowercase and strip diacritics without changing length', () => {
+        expect(foldText('Řešení Ůlů')).toBe('reseni ulu');
+        expect(foldText('Příliš žluťoučký kůň').length).toBe('Příliš žluťoučký kůň'.length);
+    });
+});
+
+describe('stemWord', () => {
+    it('should map Czech inflections to a shared stem', () => {
+        expect(stemWord('reseni', 'cs')).toBe(stemWord('resenim', 'cs'));
+        expect(stemWord('hrach', 'cs')).toBe(stemWord('hry', 'cs'));
+    });
+
+    it('should strip common English suffixes', () => {
+        expect(stemWord('games', 'en')).toBe('game');
+        expect(stemWord('stories', 'en')).toBe('story');
+        expect(stemWord('rendering', 'en')).toBe('render');
+    });
+});
+
+describe('analyzeText', () => {
+    it('should drop stop words and short tokens', () => {
+        expect(analyzeText('The engine is a pixel renderer', 'en')).toEqual(['engine', 'pixel', 'renderer']);
+    });
+});
+
+describe('markdownToPlainText', () => {
+    it('should strip MDX syntax and keep link labels', () => {
+        const body = [
+            "import Demo from '@components/Demo.svelte';",
+            '',
+            '## Hello **world**',
+            '',
+            'See [the docs](https://example.com) <Demo client:load />',
+            '',
+            '```js',
+            'const hidden = true;',
+            '```',
+        ].join('\n');
+
+        expect(markdownToPlainText(body)).toBe('Hello world See the docs');
+    });
+});
+
+describe('searchIndex', () => {
+    const documents = [
+        createDocument({
+            url: '/news/engine',
+            title: 'New pixel engine',
+            text: 'We rebuilt the renderer from scratch for faster games.',
+        }),
+        createDocument({
+            url: '/news/games',
+            title: 'Upcoming games',
+            text: 'A pixel art game built with the engine is coming soon.',
+        }),
+        createDocument({ type: 'page', url: '/about', title: 'About', text: 'Who we are.' }),
+    ];
+    const index = buildSearchIndex(documents, 'en');
+
+    it('should rank title matches above body matches', () => {
+        const results = searchIndex(index, 'engine');
+
+        expect(results.map((result) => result.url)).toEqual(['/news/engine', '/news/games']);
+    });
+
+    it('should require every query term to match', () => {
+        expect(searchIndex(index, 'renderer games').map((result) => result.url)).toEqual(['/news/engine']);
+    });
+
+    it('should match the last term as a prefix', () => {
+        expect(searchIndex(index, 'fast').map((result) => result.url)).toEqual(['/news/engine']);
+        expect(searchIndex(index, 'fast ')).toEqual([]);
+    });
+
+    it('should highlight matching words in the snippet', () => {
+        const [result] = searchIndex(index, 'renderer');
+
+        expect(result?.snippet).toEqual([
+            { text: 'We rebuilt the ', highlight: false },
+            { text: 'renderer', highlight: true },
+            { text: ' from scratch for faster games.', highlight: false },
+        ]);
+    });
+
+    it('should skip documents published after now', () => {
+        const scheduled = buildSearchIndex(
+            [createDocument({ title: 'Launch', publishedAt: new Date('2025-07-01') })],
+            'en',
+        );
+
+        expect(searchIndex(scheduled, 'launch', { now: new Date('2025-06-01') })).toEqual([]);
+        expect(searchIndex(scheduled, 'launch', { now: new Date('2025-07-02') })).toHaveLength(1);
+    });
+
+    it('should respect the result limit', () => {
+        expect(searchIndex(index, 'pixel', { limit: 1 })).toHaveLength(1);
+    });
+
+    it('should fold Czech diacritics in queries and documents', () => {
+        const czech = buildSearchIndex(
+            [createDocument({ url: '/novinky/reseni', title: 'Řešení problémů', text: 'Jak na to.' })],
+            'cs',
+        );
+
+        expect(searchIndex(czech, 'reseni').map((result) => result.url)).toEqual(['/novinky/reseni']);
+        expect(searchIndex(czech, 'řešením').map((result) => result.url)).toEqual(['/novinky/reseni']);
+    });
+});
+
+describe('serializeSearchIndex', () => {
+    const index = buildSearchIndex(
+        [
+            createDocument({ title: 'Launch day', text: 'The game is out.', publishedAt: new Date('2025-07-01') }),
+            createDocument({ type: 'page', url: '/about', title: 'About', text: 'Who we are.' }),
+        ],
+        'en',
+    );
+
+    it('should survive a JSON round trip', () => {
+        const data = JSON.parse(JSON.stringify(serializeSearchIndex(index)));
+
+        expect(deserializeSearchIndex(data)).toEqual(index);
+    });
+
+    it('should search the restored index like the original', () => {
+        const restored = deserializeSearchIndex(serializeSearchIndex(index));
+
+        expect(searchIndex(restored, 'launch')).toEqual(searchIndex(index, 'launch'));
+    });
+});
@@ -0,0 +1,515 @@
+/**
+ * Full-Text Search Engine
+ *
+ * A small in-process search engine for news posts and pages. Text is folded
+ * (lowercased, diacritics stripped) and lightly stemmed per locale, so a query
+ * like "reseni" matches both "Řešení" and "řešením". Documents are indexed into an
+ * inverted index of stems with field weights, and queries are ranked by
+ * weighted TF-IDF with prefix matching on the last query term.
+ *
+ * Everything here is pure and runtime-agnostic; content loading lives in
+ * search-index.ts.
+ */
+
+import type { Locale } from '@type/locale';
+
+// #region Type Definitions
+
+export type SearchDocumentType = 'news' | 'page';
+
+export interface SearchDocument {
+    type: SearchDocumentType;
+    url: string;
+    title: string;
+    description: string;
+    tags: string[];
+
+    /** Plain-text body used for matching and snippets */
+    text: string;
+
+    /** Publication time for news posts, used to keep scheduled posts hidden */
+    publishedAt: Date | undefined;
+}
+
+export interface SearchIndex {
+    locale: Locale;
+    documents: SearchDocument[];
+
+    /** Stem -> (document index -> weighted term frequency) */
+    postings: Map<string, Map<number, number>>;
+}
+
+/**
+ * JSON form of a search index, as prerendered at build time.
+ */
+export interface SerializedSearchIndex {
+    locale: Locale;
+    documents: (Omit<SearchDocument, 'publishedAt'> & { publishedAt: string | null })[];
+
+    /** Stem -> [document index, weighted term frequency] pairs */
+    postings: [string, [number, number][]][];
+}
+
+export interface SearchSnippetSegment {
+    text: string;
+    highlight: boolean;
+}
+
+export interface SearchResult {
+    type: SearchDocumentType;
+    url: string;
+    title: string;
+    score: number;
+    snippet: SearchSnippetSegment[];
+}
+
+export interface SearchOptions {
+    /** Maximum number of results (defaults to 10) */
+    limit?: number;
+
+    /** Current time; documents published after it are skipped */
+    now?: Date;
+}
+
+// #endregion
+
+// #region Text Analysis
+
+const FIELD_WEIGHTS = {
+    title: 5,
+    tags: 3,
+    description: 2,
+    text: 1,
+} as const;
+
+const MIN_TOKEN_LENGTH = 2;
+const SNIPPET_LENGTH = 160;
+
+/* cspell:disable */
+
+// Stop words are stored folded, matching the output of foldText.
+const STOP_WORDS: Record<Locale, ReadonlySet<string>> = {
+    en: new Set([
+        'an',
+        'and',
+        'are',
+        'as',
+        'at',
+        'be',
+        'by',
+        'for',
+        'from',
+        'in',
+        'is',
+        'it',
+        'of',
+        'on',
+        'or',
+        'that',
+        'the',
+        'this',
+        'to',
+        'with',
+    ]),
+    cs: new Set([
+        'ale',
+        'by',
+        'do',
+        'jak',
+        'je',
+        'jsou',
+        'na',
+        'od',
+        'po',
+        'pro',
+        'se',
+        'si',
+        'to',
+        'tak',
+        've',
+        'za',
+        'ze',
+    ]),
+};
+
+// Light Czech stemmer (after Dolamic & Savoy), operating on folded text.
+// Case endings are grouped by the minimum word length they apply to.
+const CS_CASE_SUFFIXES: [number, string[]][] = [
+    [7, ['atech']],
+    [6, ['etem', 'atum']],
+    [
+        5,
+        [
+            'ech',
+            'ich',
+            'eho',
+            'emi',
+            'emu',
+            'ete',
+            'eti',
+            'iho',
+            'imi',
+            'imu',
+            'ach',
+            'ata',
+            'aty',
+            'ych',
+            'ama',
+            'ami',
+            'ove',
+            'ovi',
+            'ymi',
+        ],
+    ],
+    [4, ['em', 'es', 'im', 'um', 'at', 'am', 'os', 'us', 'ym', 'mi', 'ou']],
+    [3, ['e', 'i', 'u', 'y', 'a', 'o']],
+];
+
+const CS_POSSESSIVE_SUFFIXES = ['ov', 'in', 'uv'];
+
+/* cspell:enable */
+
+function foldChar(char: string): string {
+    const folded = char
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase();
+
+    // Keep a 1:1 character mapping so offsets in folded text match the original.
+    return folded.length === 1 ? folded : char.toLowerCase().slice(0, 1) || ' ';
+}
+
+/**
+ * Lowercases text and strips diacritics while preserving string length.
+ *
+ * @param text - Text to fold
+ * @returns Folded text with the same length as the input
+ *
+ * @example
+ * foldText('Řešení') // 'reseni'
+ */
+export function foldText(text: string): string {
+    return text.split('').map(foldChar).join('');
+}
+
+function stemCzech(word: string): string {
+    let stem = word;
+
+    for (const [minLength, suffixes] of CS_CASE_SUFFIXES) {
+        const suffix = stem.length > minLength - 1 ? suffixes.find((candidate) => stem.endsWith(candidate)) : undefined;
+
+        if (suffix) {
+            stem = stem.slice(0, -suffix.length);
+            break;
+        }
+    }
+
+    if (stem.length > 5) {
+        const possessive = CS_POSSESSIVE_SUFFIXES.find((candidate) => stem.endsWith(candidate));
+
+        if (possessive) {
+            stem = stem.slice(0, -possessive.length);
+        }
+    }
+
+    return stem;
+}
+
+function stemEnglish(word: string): string {
+    if (word.length > 4 && word.endsWith('ies')) {
+        return `${word.slice(0, -3)}y`;
+    }
+
+    if (word.length > 5 && word.endsWith('ing')) {
+        return word.slice(0, -3);
+    }
+
+    if (word.length > 4 && word.endsWith('ed')) {
+        return word.slice(0, -2);
+    }
+
+    if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+        return word.slice(0, -1);
+    }
+
+    return word;
+}
+
+// Locales without a stemmer index whole words.
+const STEMMERS: Partial<Record<Locale, (word: string) => string>> = {
+    en: stemEnglish,
+    cs: stemCzech,
+};
+
+/**
+ * Reduces a folded word to its search stem.
+ *
+ * @param word - Folded word
+ * @param locale - Language of the word
+ * @returns Stem used as the index key
+ */
+export function stemWord(word: string, locale: Locale): string {
+    const stem = STEMMERS[locale];
+
+    return stem ? stem(word) : word;
+}
+
+/**
+ * Splits text into folded, stemmed search terms, dropping stop words.
+ *
+ * @param text - Text to analyze
+ * @param locale - Language of the text
+ * @returns Search terms in order of appearance
+ */
+export function analyzeText(text: string, locale: Locale): string[] {
+    const words = foldText(text).match(/[a-z0-9]+/g) ?? [];
+
+    return words
+        .filter((word) => word.length >= MIN_TOKEN_LENGTH && !STOP_WORDS[locale].has(word))
+        .map((word) => stemWord(word, locale));
+}
+
+/**
+ * Converts Markdown/MDX source to plain text for indexing.
+ *
+ * Drops ESM lines, code blocks, and JSX/HTML tags, and keeps link and image labels.
+ *
+ * @param markdown - Raw Markdown or MDX body
+ * @returns Plain text with collapsed whitespace
+ */
+export function markdownToPlainText(markdown: string): string {
+    return markdown
+        .replace(/^(import|export)\s.*$/gm, '')
+        .replace(/```[\s\S]*?```/g, ' ')
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/[#>*_~`|]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+// #endregion
+
+// #region Indexing
+
+/**
+ * Builds an inverted index over search documents.
+ *
+ * @param documents - Documents to index
+ * @param locale - Language of the documents
+ * @returns Search index ready for querying
+ */
+export function buildSearchIndex(documents: SearchDocument[], locale: Locale): SearchIndex {
+    const postings = new Map<string, Map<number, number>>();
+
+    const addTerms = (terms: string[], documentIndex: number, weight: number): void => {
+        for (const term of terms) {
+            const documentPostings = postings.get(term) ?? new Map<number, number>();
+
+            documentPostings.set(documentIndex, (documentPostings.get(documentIndex) ?? 0) + weight);
+            postings.set(term, documentPostings);
+        }
+    };
+
+    documents.forEach((document, documentIndex) => {
+        addTerms(analyzeText(document.title, locale), documentIndex, FIELD_WEIGHTS.title);
+        addTerms(analyzeText(document.tags.join(' '), locale), documentIndex, FIELD_WEIGHTS.tags);
+        addTerms(analyzeText(document.description, locale), documentIndex, FIELD_WEIGHTS.description);
+        addTerms(analyzeText(document.text, locale), documentIndex, FIELD_WEIGHTS.text);
+    });
+
+    return { locale, documents, postings };
+}
+
+/**
+ * Converts a search index to plain JSON data.
+ *
+ * @param index - Index built by buildSearchIndex
+ * @returns Data that deserializeSearchIndex turns back into the index
+ */
+export function serializeSearchIndex(index: SearchIndex): SerializedSearchIndex {
+    return {
+        locale: index.locale,
+        documents: index.documents.map((document) => ({
+            ...document,
+            publishedAt: document.publishedAt?.toISOString() ?? null,
+        })),
+        postings: [...index.postings].map(([term, documentPostings]) => [term, [...documentPostings]]),
+    };
+}
+
+/**
+ * Restores a search index from its JSON data.
+ *
+ * @param data - Data produced by serializeSearchIndex
+ * @returns Search index ready for querying
+ */
+export function deserializeSearchIndex(data: SerializedSearchIndex): SearchIndex {
+    return {
+        locale: data.locale,
+        documents: data.documents.map((document) => ({
+            ...document,
+            publishedAt: document.publishedAt === null ? undefined : new Date(document.publishedAt),
+        })),
+        postings: new Map(data.postings.map(([term, documentPostings]) => [term, new Map(documentPostings)])),
+    };
+}
+
+// #endregion
+
+// #region Querying
+
+function matchesTerm(word: string, queryTerm: string, isPrefix: boolean): boolean {
+    return isPrefix ? word.startsWith(queryTerm) : word === queryTerm;
+}
+
+function buildSnippet(
+    document: SearchDocument,
+    queryTerms: string[],
+    locale: Locale,
+    isPrefixQuery: boolean,
+): SearchSnippetSegment[] {
+    const lastIndex = queryTerms.length - 1;
+    const isMatch = (word: string): boolean => {
+        const stem = stemWord(word, locale);
+
+        return queryTerms.some((term, index) => matchesTerm(stem, term, isPrefixQuery && index === lastIndex));
+    };
+
+    const findFirstMatch = (text: string): number => {
+        for (const match of foldText(text).matchAll(/[a-z0-9]+/g)) {
+            if (isMatch(match[0])) {
+                return match.index;
+            }
+        }
+
+        return -1;
+    };
+
+    // Prefer a snippet from the body; fall back to the description.
+    const bodyMatch = findFirstMatch(document.text);
+    const useBody = bodyMatch >= 0 || !document.description;
+    const source = useBody ? document.text : document.description;
+    const firstMatch = Math.max(useBody ? bodyMatch : findFirstMatch(source), 0);
+
+    let start = Math.max(0, firstMatch - Math.floor(SNIPPET_LENGTH / 4));
+    let end = Math.min(source.length, start + SNIPPET_LENGTH);
+
+    // Snap the window to word boundaries.
+    if (start > 0) {
+        const space = source.indexOf(' ', start);
+        start = space >= 0 && space < firstMatch ? space + 1 : start;
+    }
+
+    if (end < source.length) {
+        const space = source.lastIndexOf(' ', end);
+        end = space > start ? space : end;
+    }
+
+    const window = source.slice(start, end);
+    const segments: SearchSnippetSegment[] = [];
+    let cursor = 0;
+
+    const pushText = (text: string, highlight: boolean): void => {
+        if (text) {
+            segments.push({ text, highlight });
+        }
+    };
+
+    for (const match of foldText(window).matchAll(/[a-z0-9]+/g)) {
+        if (isMatch(match[0])) {
+            pushText(window.slice(cursor, match.index), false);
+            pushText(window.slice(match.index, match.index + match[0].length), true);
+            cursor = match.index + match[0].length;
+        }
+    }
+
+    pushText(window.slice(cursor), false);
+
+    if (start > 0) {
+        segments.unshift({ text: '… ', highlight: false });
+    }
+
+    if (end < source.length) {
+        segments.push({ text: ' …', highlight: false });
+    }
+
+    return segments;
+}
+
+/**
+ * Searches an index and returns ranked results with highlighted snippets.
+ *
+ * All query terms must match. Unless the query ends with whitespace or
+ * punctuation, the last term also matches as a prefix, so results update
+ * sensibly while the user is still typing.
+ *
+ * @param index - Index built by buildSearchIndex
+ * @param query - Raw user query
+ * @param options - Result limit and clock
+ * @returns Results ordered by relevance (best first)
+ */
+export function searchIndex(index: SearchIndex, query: string, options: SearchOptions = {}): SearchResult[] {
+    const { limit = 10, now = new Date() } = options;
+    const queryTerms = [...new Set(analyzeText(query, index.locale))];
+
+    if (queryTerms.length === 0) {
+        return [];
+    }
+
+    const isPrefixQuery = /[\p{L}\p{N}]$/u.test(query);
+    const lastIndex = queryTerms.length - 1;
+    const documentCount = index.documents.length;
+    const scores = new Map<number, number>();
+
+    for (const [termIndex, queryTerm] of queryTerms.entries()) {
+        const isPrefix = isPrefixQuery && termIndex === lastIndex;
+        const termScores = new Map<number, number>();
+
+        for (const [term, documentPostings] of index.postings) {
+            if (!matchesTerm(term, queryTerm, isPrefix)) {
+                continue;
+            }
+
+            const idf = Math.log(1 + documentCount / documentPostings.size);
+
+            for (const [documentIndex, weight] of documentPostings) {
+                termScores.set(documentIndex, (termScores.get(documentIndex) ?? 0) + weight * idf);
+            }
+        }
+
+        // Intersect: a document must match every query term.
+        for (const documentIndex of termIndex === 0 ? termScores.keys() : [...scores.keys()]) {
+            const termScore = termScores.get(documentIndex);
+
+            if (termScore === undefined) {
+                scores.delete(documentIndex);
+            } else {
+                scores.set(documentIndex, (scores.get(documentIndex) ?? 0) + termScore);
+            }
+        }
+
+        if (scores.size === 0) {
+            return [];
+        }
+    }
+
+    return [...scores.entries()]
+        .flatMap(([documentIndex, score]) => {
+            const document = index.documents[documentIndex];
+
+            return document ? [{ document, score }] : [];
+        })
+        .filter(({ document }) => !document.publishedAt || document.publishedAt.getTime() <= now.getTime())
+        .sort((a, b) => b.score - a.score || a.document.title.localeCompare(b.document.title, index.locale))
+        .slice(0, limit)
+        .map(({ document, score }) => ({
+            type: document.type,
+            url: document.url,
+            title: document.title,
+            score: Math.round(score * 1000) / 1000,
+            snippet: buildSnippet(document, queryTerms, index.locale, isPrefixQuery),
+        }));
+}
+
+// #endregion
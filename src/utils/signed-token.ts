@@ -0,0 +1,106 @@
+/**
+ * Signed Tokens
+ *
+ * Tamper-proof tokens carrying a JSON payload, shared by the draft preview and
+ * newsletter tokens.
+ *
+ * A token is `<payload>.<signature>`, both base64url encoded; the signature is
+ * an HMAC-SHA256 over the encoded payload. Checking the payload's shape and
+ * expiry is left to the caller. Uses Web Crypto only, so it runs in the
+ * Cloudflare runtime and the CLI alike.
+ */
+
+import { ConfigurationError } from './errors';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte);
+    }
+
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | null {
+    if (!/^[\w-]*$/.test(value)) {
+        return null;
+    }
+
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+
+    try {
+        return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+    } catch {
+        return null;
+    }
+}
+
+async function importKey(secret: string, secretName: string): Promise<CryptoKey> {
+    if (!secret) {
+        throw new ConfigurationError(`${secretName} is empty`, secretName);
+    }
+
+    return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+        'sign',
+        'verify',
+    ]);
+}
+
+/**
+ * Signs a payload.
+ *
+ * @param payload - JSON-serializable data to encode
+ * @param secret - Signing secret
+ * @param secretName - Environment variable holding the secret, for error messages
+ * @returns Token string safe to use in a query parameter
+ * @throws ConfigurationError if the secret is empty
+ */
+export async function signToken(payload: object, secret: string, secretName: string): Promise<string> {
+    const key = await importKey(secret, secretName);
+    const encodedPayload = toBase64Url(encoder.encode(JSON.stringify(payload)));
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(encodedPayload));
+
+    return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies a token's signature and decodes its payload.
+ *
+ * @param token - Token string
+ * @param secret - Signing secret
+ * @param secretName - Environment variable holding the secret, for error messages
+ * @returns The decoded payload if the token is authentic, otherwise null
+ * @throws ConfigurationError if the secret is empty
+ */
+export async function verifyToken(token: string, secret: string, secretName: string): Promise<unknown> {
+    const key = await importKey(secret, secretName);
+    const [encodedPayload, encodedSignature, ...rest] = token.split('.');
+
+    if (!encodedPayload || !encodedSignature || rest.length > 0) {
+        return null;
+    }
+
+    const signature = fromBase64Url(encodedSignature);
+    const payloadBytes = fromBase64Url(encodedPayload);
+
+    if (!signature || !payloadBytes) {
+        return null;
+    }
+
+    const isAuthentic = await crypto.subtle.verify('HMAC', key, signature, encoder.encode(encodedPayload));
+
+    if (!isAuthentic) {
+        return null;
+    }
+
+    try {
+        return JSON.parse(decoder.decode(payloadBytes));
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest';
+
+import type { SitemapEntry } from './sitemap';
+import {
+    chunkSitemapEntries,
+    getChildSitemapPath,
+    getLatestLastmod,
+    getMaxSitemapUrls,
+    isWithinNewsSitemapWindow,
+    parseChildSitemapFile,
+    serializeSitemapIndex,
+    serializeSitemapUrlset,
+} from './sitemap-serializers';
+
+function createEntries(count: number): SitemapEntry[] {
+    return Array.from({ length: count }, (_, index) => ({ url: `https://ambilab.com/page-${index}` }));
+}
+
+describe('getChildSitemapPath', () => {
+    it('should omit the number of the first chunk', () => {
+        expect(getChildSitemapPath('en', 'news')).toBe('/sitemaps/en/news.xml');
+        expect(getChildSitemapPath('cs', 'tags', 1)).toBe('/sitemaps/cs/tags.xml');
+    });
+
+    it('should number later chunks', () => {
+        expect(getChildSitemapPath('en', 'pages', 3)).toBe('/sitemaps/en/pages-3.xml');
+    });
+});
+
+describe('parseChildSitemapFile', () => {
+    it('should parse the type and chunk number', () => {
+        expect(parseChildSitemapFile('news')).toEqual({ type: 'news', page: 1 });
+        expect(parseChildSitemapFile('pages-12')).toEqual({ type: 'pages', page: 12 });
+    });
+
+    it('should parse types containing hyphens', () => {
+        expect(parseChildSitemapFile('google-news')).toEqual({ type: 'google-news', page: 1 });
+        expect(parseChildSitemapFile('google-news-2')).toEqual({ type: 'google-news', page: 2 });
+        expect(parseChildSitemapFile('google')).toBeUndefined();
+    });
+
+    it('should reject unknown types and non-canonical chunk numbers', () => {
+        expect(parseChildSitemapFile('images')).toBeUndefined();
+        expect(parseChildSitemapFile('news-1')).toBeUndefined();
+        expect(parseChildSitemapFile('news-0')).toBeUndefined();
+        expect(parseChildSitemapFile('news-02')).toBeUndefined();
+        expect(parseChildSitemapFile('news.xml')).toBeUndefined();
+    });
+
+    it('should round-trip generated paths', () => {
+        const file = getChildSitemapPath('en', 'tags', 2).replace('/sitemaps/en/', '').replace('.xml', '');
+
+        expect(parseChildSitemapFile(file)).toEqual({ type: 'tags', page: 2 });
+    });
+});
+
+describe('getMaxSitemapUrls', () => {
+    it('should limit Google News sitemaps to 1000 URLs', () => {
+        expect(getMaxSitemapUrls('google-news')).toBe(1000);
+        expect(getMaxSitemapUrls('news')).toBe(50_000);
+    });
+});
+
+describe('isWithinNewsSitemapWindow', () => {
+    const now = new Date('2025-03-10T12:00:00Z');
+
+    it('should accept articles up to 48 hours old', () => {
+        expect(isWithinNewsSitemapWindow(new Date('2025-03-10T11:00:00Z'), now)).toBe(true);
+        expect(isWithinNewsSitemapWindow(new Date('2025-03-08T12:00:00Z'), now)).toBe(true);
+    });
+
+    it('should reject older and future articles', () => {
+        expect(isWithinNewsSitemapWindow(new Date('2025-03-08T11:59:59Z'), now)).toBe(false);
+        expect(isWithinNewsSitemapWindow(new Date('2025-03-10T12:00:01Z'), now)).toBe(false);
+    });
+});
+
+describe('chunkSitemapEntries', () => {
+    it('should keep up to the limit in a single chunk', () => {
+        expect(chunkSitemapEntries(createEntries(3), 3)).toHaveLength(1);
+    });
+
+    it('should split past the limit', () => {
+        const chunks = chunkSitemapEntries(createEntries(7), 3);
+
+        expect(chunks.map((chunk) => chunk.length)).toEqual([3, 3, 1]);
+    });
+
+    it('should sort entries by URL before splitting', () => {
+        const [first] = chunkSitemapEntries([{ url: 'https://ambilab.com/b' }, { url: 'https://ambilab.com/a' }], 1);
+
+        expect(first).toEqual([{ url: 'https://ambilab.com/a' }]);
+    });
+
+    it('should return no chunks for no entries', () => {
+        expect(chunkSitemapEntries([])).toEqual([]);
+    });
+});
+
+describe('getLatestLastmod', () => {
+    it('should return the latest date and skip entries without one', () => {
+        const latest = new Date('2025-03-01T00:00:00Z');
+
+        expect(
+            getLatestLastmod([
+                { url: 'https://ambilab.com/a', lastmod: new Date('2025-01-01T00:00:00Z') },
+                { url: 'https://ambilab.com/b' },
+                { url: 'https://ambilab.com/c', lastmod: latest },
+            ]),
+        ).toBe(latest);
+        expect(getLatestLastmod([{ url: 'https://ambilab.com/a' }])).toBeUndefined();
+    });
+});
+
+describe('serializeSitemapUrlset', () => {
+    it('should serialize entries with all optional fields', () => {
+        const xml = serializeSitemapUrlset([
+            {
+                url: 'https://ambilab.com/news/hello',
+                lastmod: new Date('2025-01-01T00:00:00Z'),
+                changefreq: 'monthly',
+                priority: 0.6,
+                alternates: [{ hreflang: 'cs', href: 'https://ambilab.cz/novinky/ahoj' }],
+            },
+        ]);
+
+        expect(xml).toContain('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"');
+        expect(xml).toContain('xmlns:xhtml="http://www.w3.org/1999/xhtml"');
+        expect(xml).toContain('<loc>https://ambilab.com/news/hello</loc>');
+        expect(xml).toContain('<xhtml:link rel="alternate" hreflang="cs" href="https://ambilab.cz/novinky/ahoj"/>');
+        expect(xml).toContain('<lastmod>2025-01-01T00:00:00.000Z</lastmod>');
+        expect(xml).toContain('<changefreq>monthly</changefreq>');
+        expect(xml).toContain('<priority>0.6</priority>');
+    });
+
+    it('should emit core elements in XSD order before extension elements', () => {
+        const xml = serializeSitemapUrlset([
+            {
+                url: 'https://ambilab.com/news/hello',
+                lastmod: new Date('2025-01-01T00:00:00Z'),
+                changefreq: 'monthly',
+                priority: 0.6,
+                alternates: [{ hreflang: 'cs', href: 'https://ambilab.cz/novinky/ahoj' }],
+                images: [{ url: 'https://ambilab.com/images/board.jpg' }],
+            },
+        ]);
+        const order = ['<loc>', '<lastmod>', '<changefreq>', '<priority>', '<xhtml:link', '<image:image>'].map((tag) =>
+            xml.indexOf(tag),
+        );
+
+        expect(order.every((position) => position > 0)).toBe(true);
+        expect([...order].sort((a, b) => a - b)).toEqual(order);
+    });
+
+    it('should serialize images in the image sitemap shape', () => {
+        const xml = serializeSitemapUrlset([
+            {
+                url: 'https://ambilab.com/projects/blit-tech',
+                images: [{ url: 'https://ambilab.com/a.png' }, { url: 'https://ambilab.com/b.png?w=1&h=2' }],
+            },
+        ]);
+
+        expect(xml).toContain('xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"');
+        expect(xml).toContain('<image:image><image:loc>https://ambilab.com/a.png</image:loc></image:image>');
+        expect(xml).toContain(
+            '<image:image><image:loc>https://ambilab.com/b.png?w=1&amp;h=2</image:loc></image:image>',
+        );
+    });
+
+    it('should serialize news details in the news sitemap shape', () => {
+        const xml = serializeSitemapUrlset([
+            {
+                url: 'https://ambilab.com/news/hello',
+                news: {
+                    publicationName: 'Ambilab',
+                    language: 'en',
+                    publicationDate: new Date('2025-03-10T08:00:00Z'),
+                    title: 'Boards & <Bits>',
+                },
+            },
+        ]);
+
+        expect(xml).toContain('xmlns:news="http://www.google.com/schemas/sitemap-news/0.9"');
+        expect(xml).toContain(`    <news:news>
+      <news:publication>
+        <news:name>Ambilab</news:name>
+        <news:language>en</news:language>
+      </news:publication>
+      <news:publication_date>2025-03-10T08:00:00.000Z</news:publication_date>
+      <news:title>Boards &amp; &lt;Bits&gt;</news:title>
+    </news:news>`);
+    });
+
+    it('should escape URLs', () => {
+        const xml = serializeSitemapUrlset([
+            {
+                url: 'https://ambilab.com/search?q=a&b=<c>',
+                alternates: [{ hreflang: 'en', href: "https://ambilab.com/it's" }],
+            },
+        ]);
+
+        expect(xml).toContain('<loc>https://ambilab.com/search?q=a&amp;b=&lt;c&gt;</loc>');
+        expect(xml).toContain('href="https://ambilab.com/it&apos;s"');
+    });
+
+    it('should leave out missing optional fields', () => {
+        const xml = serializeSitemapUrlset([{ url: 'https://ambilab.com/' }]);
+
+        expect(xml).not.toContain('<lastmod>');
+        expect(xml).not.toContain('<changefreq>');
+        expect(xml).not.toContain('<priority>');
+        expect(xml).not.toContain('<xhtml:link');
+    });
+});
+
+describe('serializeSitemapIndex', () => {
+    it('should list child sitemaps with their lastmod', () => {
+        const xml = serializeSitemapIndex([
+            { url: 'https://ambilab.com/sitemaps/en/news.xml', lastmod: new Date('2025-01-01T00:00:00Z') },
+            { url: 'https://ambilab.cz/sitemaps/cs/tags.xml' },
+        ]);
+
+        expect(xml).toContain('<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">');
+        expect(xml).toContain(`  <sitemap>
+    <loc>https://ambilab.com/sitemaps/en/news.xml</loc>
+    <lastmod>2025-01-01T00:00:00.000Z</lastmod>
+  </sitemap>`);
+        expect(xml).toContain(`  <sitemap>
+    <loc>https://ambilab.cz/sitemaps/cs/tags.xml</loc>
+  </sitemap>`);
+    });
+});
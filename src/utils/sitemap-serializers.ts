@@ -0,0 +1,265 @@
+/**
+ * Sitemap Serializers
+ *
+ * Pure helpers that split sitemap entries into child sitemaps and serialize
+ * them, together with the sitemap index pointing at them, following the
+ * sitemaps.org protocol and Google's image and news extensions. Every value
+ * is escaped on the way out.
+ */
+
+import type { Locale } from '@type/locale';
+
+import type { SitemapEntry, SitemapNews } from './sitemap';
+import { escapeXml } from './xml';
+
+// #region Type Definitions
+
+/**
+ * Most URLs a single sitemap may list (sitemaps.org protocol).
+ */
+export const MAX_SITEMAP_URLS = 50_000;
+
+/**
+ * Most URLs a Google News sitemap may list.
+ */
+export const MAX_NEWS_SITEMAP_URLS = 1000;
+
+/**
+ * Age up to which articles belong in a Google News sitemap (48 hours).
+ */
+export const NEWS_SITEMAP_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+export const SITEMAP_TYPES = ['pages', 'news', 'tags', 'google-news'] as const;
+
+/**
+ * Kind of content a child sitemap lists.
+ */
+export type SitemapType = (typeof SITEMAP_TYPES)[number];
+
+/**
+ * A child sitemap listed in a sitemap index.
+ */
+export interface SitemapIndexEntry {
+    /** Absolute URL of the child sitemap */
+    url: string;
+
+    /** Latest lastmod of the child's entries, if any has one */
+    lastmod?: Date;
+}
+
+/**
+ * Location of a child sitemap within its locale.
+ */
+export interface ChildSitemapFile {
+    type: SitemapType;
+
+    /** 1-based chunk number */
+    page: number;
+}
+
+// #endregion
+
+// #region Helper Functions
+
+const SITEMAP_NAMESPACE = 'http://www.sitemaps.org/schemas/sitemap/0.9';
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+const IMAGE_NAMESPACE = 'http://www.google.com/schemas/sitemap-image/1.1';
+const NEWS_NAMESPACE = 'http://www.google.com/schemas/sitemap-news/0.9';
+
+const DIGITS_PATTERN = /^\d+$/;
+const CHUNK_NUMBER_PATTERN = /^[1-9]\d*$/;
+
+function isSitemapType(value: string): value is SitemapType {
+    return (SITEMAP_TYPES as readonly string[]).includes(value);
+}
+
+function serializeNews(news: SitemapNews): string[] {
+    return [
+        '    <news:news>',
+        '      <news:publication>',
+        `        <news:name>${escapeXml(news.publicationName)}</news:name>`,
+        `        <news:language>${escapeXml(news.language)}</news:language>`,
+        '      </news:publication>',
+        `      <news:publication_date>${news.publicationDate.toISOString()}</news:publication_date>`,
+        `      <news:title>${escapeXml(news.title)}</news:title>`,
+        '    </news:news>',
+    ];
+}
+
+// The sitemap XSD allows extension elements only after the core ones, so they come last.
+function serializeUrl(entry: SitemapEntry): string {
+    const lines = ['  <url>', `    <loc>${escapeXml(entry.url)}</loc>`];
+
+    if (entry.lastmod) {
+        lines.push(`    <lastmod>${entry.lastmod.toISOString()}</lastmod>`);
+    }
+
+    if (entry.changefreq) {
+        lines.push(`    <changefreq>${entry.changefreq}</changefreq>`);
+    }
+
+    if (entry.priority !== undefined) {
+        lines.push(`    <priority>${entry.priority.toFixed(1)}</priority>`);
+    }
+
+    for (const alternate of entry.alternates ?? []) {
+        lines.push(
+            `    <xhtml:link rel="alternate" hreflang="${escapeXml(alternate.hreflang)}" href="${escapeXml(alternate.href)}"/>`,
+        );
+    }
+
+    for (const image of entry.images ?? []) {
+        lines.push(`    <image:image><image:loc>${escapeXml(image.url)}</image:loc></image:image>`);
+    }
+
+    if (entry.news) {
+        lines.push(...serializeNews(entry.news));
+    }
+
+    lines.push('  </url>');
+
+    return lines.join('\n');
+}
+
+// #endregion
+
+// #region Main Exports
+
+/**
+ * Builds the site-relative path of a child sitemap.
+ *
+ * The first chunk has no number, so small sites get stable, readable paths.
+ *
+ * @param locale - Locale of the listed content
+ * @param type - Kind of content listed
+ * @param page - 1-based chunk number
+ * @returns Path such as '/sitemaps/en/news.xml' or '/sitemaps/en/news-2.xml'
+ */
+export function getChildSitemapPath(locale: Locale, type: SitemapType, page = 1): string {
+    return `/sitemaps/${locale}/${page === 1 ? type : `${type}-${page}`}.xml`;
+}
+
+/**
+ * Parses the file name of a child sitemap (without the .xml extension).
+ *
+ * @param file - File name such as 'news', 'news-2' or 'google-news'
+ * @returns The type and chunk number, or undefined for unknown names
+ */
+export function parseChildSitemapFile(file: string): ChildSitemapFile | undefined {
+    // Types may contain hyphens ('google-news'), so only a numeric last part is a chunk number.
+    const separator = file.lastIndexOf('-');
+    const suffix = file.slice(separator + 1);
+    const page = separator > 0 && DIGITS_PATTERN.test(suffix) ? suffix : undefined;
+    const type = page === undefined ? file : file.slice(0, separator);
+
+    if (!isSitemapType(type)) {
+        return undefined;
+    }
+
+    // The first chunk is only served without a number, so each chunk has one URL.
+    if (page !== undefined && (!CHUNK_NUMBER_PATTERN.test(page) || page === '1')) {
+        return undefined;
+    }
+
+    return { type, page: page ? Number(page) : 1 };
+}
+
+/**
+ * Gets the most URLs a child sitemap of a type may list.
+ *
+ * @param type - Kind of content listed
+ * @returns MAX_NEWS_SITEMAP_URLS for Google News sitemaps, otherwise MAX_SITEMAP_URLS
+ */
+export function getMaxSitemapUrls(type: SitemapType): number {
+    return type === 'google-news' ? MAX_NEWS_SITEMAP_URLS : MAX_SITEMAP_URLS;
+}
+
+/**
+ * Checks whether an article is recent enough for a Google News sitemap.
+ *
+ * @param publicationDate - When the article was published
+ * @param now - Current time
+ * @returns True when published within NEWS_SITEMAP_WINDOW_MS and not in the future
+ */
+export function isWithinNewsSitemapWindow(publicationDate: Date, now: Date): boolean {
+    const age = now.getTime() - publicationDate.getTime();
+
+    return age >= 0 && age <= NEWS_SITEMAP_WINDOW_MS;
+}
+
+/**
+ * Splits entries into sitemap-sized chunks.
+ *
+ * Entries are sorted by URL first, so a URL stays in the same chunk as long as
+ * the content before it does not change.
+ *
+ * @param entries - Entries of one child sitemap type
+ * @param size - Maximum entries per chunk
+ * @returns Chunks in order; empty when there are no entries
+ */
+export function chunkSitemapEntries(entries: SitemapEntry[], size = MAX_SITEMAP_URLS): SitemapEntry[][] {
+    const sorted = [...entries].sort((a, b) => a.url.localeCompare(b.url));
+    const chunks: SitemapEntry[][] = [];
+
+    for (let start = 0; start < sorted.length; start += size) {
+        chunks.push(sorted.slice(start, start + size));
+    }
+
+    return chunks;
+}
+
+/**
+ * Finds the latest lastmod among entries.
+ *
+ * @param entries - Entries of a child sitemap
+ * @returns The latest date, or undefined when no entry has one
+ */
+export function getLatestLastmod(entries: SitemapEntry[]): Date | undefined {
+    return entries.reduce<Date | undefined>(
+        (latest, entry) => (entry.lastmod && (!latest || entry.lastmod > latest) ? entry.lastmod : latest),
+        undefined,
+    );
+}
+
+/**
+ * Serializes sitemap entries to a `<urlset>` document.
+ *
+ * Alternates are emitted as `<xhtml:link>` elements, the sitemap form of
+ * hreflang annotations, images as `<image:image>` and news details as
+ * `<news:news>`. Entries keep their given order.
+ *
+ * @param entries - Entries to serialize, at most getMaxSitemapUrls() of their type
+ * @returns The sitemap XML
+ */
+export function serializeSitemapUrlset(entries: SitemapEntry[]): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="${SITEMAP_NAMESPACE}" xmlns:xhtml="${XHTML_NAMESPACE}" xmlns:image="${IMAGE_NAMESPACE}" xmlns:news="${NEWS_NAMESPACE}">
+${entries.map(serializeUrl).join('\n')}
+</urlset>
+`;
+}
+
+/**
+ * Serializes a `<sitemapindex>` document.
+ *
+ * @param sitemaps - Child sitemaps to list
+ * @returns The sitemap index XML
+ */
+export function serializeSitemapIndex(sitemaps: SitemapIndexEntry[]): string {
+    const items = sitemaps.map((sitemap) =>
+        [
+            '  <sitemap>',
+            `    <loc>${escapeXml(sitemap.url)}</loc>`,
+            ...(sitemap.lastmod ? [`    <lastmod>${sitemap.lastmod.toISOString()}</lastmod>`] : []),
+            '  </sitemap>',
+        ].join('\n'),
+    );
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="${SITEMAP_NAMESPACE}">
+${items.join('\n')}
+</sitemapindex>
+`;
+}
+
+// #endregion
@@ -1,17 +1,43 @@
 /**
  * Sitemap Generation Utilities
  *
- * Generates sitemap entries for all pages, news posts, and special routes
- * across both English and Czech locales.
+ * Generates sitemap entries for all pages, news posts, tag and author archives, projects, and special routes
+ * across all locales. Entries with a translation list their hreflang alternates and
+ * entries embedding images list them; posts of the last 48 hours also go to a Google News sitemap.
  */
 
-import { getRoute } from '@config/routes';
+import { getRoute, PAGE_SLUGS } from '@config/routes';
+import { SITE } from '@config/site';
 import { LOCALES } from '@i18n/config';
+import { getLocaleDomain, getTranslationLocales } from '@i18n/utils';
 import type { Locale } from '@type/locale';
 import type { CollectionEntry } from 'astro:content';
 
-import { loadLocaleContent, normalizeSlug } from './content-loader';
+import { getAuthorLink, getAuthorPosts } from './authors';
+import { extractContentImages } from './content-images';
+import { loadLocaleContent, type LocaleContent, normalizeSlug } from './content-loader';
+import {
+    buildHreflangAlternates,
+    findNonReciprocalAlternates,
+    findTranslatedEntry,
+    getLocaleUrl,
+    type HreflangAlternate,
+    type LocalizedPaths,
+} from './hreflang';
 import { createLogger } from './logger';
+import { collectNewsTags, type NewsTag } from './news-tags';
+import { getProjectLastUpdated, getProjectLink } from './projects';
+import {
+    type ChildSitemapFile,
+    chunkSitemapEntries,
+    getChildSitemapPath,
+    getLatestLastmod,
+    getMaxSitemapUrls,
+    isWithinNewsSitemapWindow,
+    SITEMAP_TYPES,
+    type SitemapIndexEntry,
+    type SitemapType,
+} from './sitemap-serializers';
 
 const logger = createLogger({ prefix: 'Sitemap' });
 
@@ -20,16 +46,116 @@ export interface SitemapEntry {
     changefreq?: 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never';
     priority?: number;
     lastmod?: Date;
+
+    /** hreflang alternates, including the entry itself and x-default */
+    alternates?: HreflangAlternate[];
+
+    /** Images shown on the page, emitted as image:image */
+    images?: SitemapImage[];
+
+    /** Google News details, only set in the google-news sitemap */
+    news?: SitemapNews;
+}
+
+export interface SitemapImage {
+    /** Absolute URL of the image */
+    url: string;
+}
+
+export interface SitemapNews {
+    /** Name of the publication, the same for every article */
+    publicationName: string;
+
+    /** ISO 639 language code */
+    language: string;
+
+    publicationDate: Date;
+    title: string;
+}
+
+/**
+ * Sitemap entries of a locale, grouped by child sitemap.
+ */
+export type LocaleSitemapEntries = Record<SitemapType, SitemapEntry[]>;
+
+/**
+ * Content of another locale, used to pair entries with their translations.
+ */
+interface SitemapTranslation {
+    locale: Locale;
+    content: LocaleContent;
+}
+
+/**
+ * Builds the alternates of an entry as a spreadable partial.
+ *
+ * @param locale - Locale of the entry
+ * @param path - Site-relative path of the entry
+ * @param translations - Content of the other locales
+ * @param getTranslationPath - Path of the translation in a locale, or undefined when there is none
+ * @returns `{ alternates }` when the entry has a translation, otherwise `{}`
+ */
+function withAlternates(
+    locale: Locale,
+    path: string,
+    translations: SitemapTranslation[],
+    getTranslationPath: (translation: SitemapTranslation) => string | undefined,
+): Pick<SitemapEntry, 'alternates'> {
+    const paths: LocalizedPaths = { [locale]: path };
+
+    for (const translation of translations) {
+        const translationPath = getTranslationPath(translation);
+
+        if (translationPath !== undefined) {
+            paths[translation.locale] = translationPath;
+        }
+    }
+
+    const alternates = buildHreflangAlternates(paths);
+
+    return alternates.length > 0 ? { alternates } : {};
+}
+
+/**
+ * Builds the images of an entry as a spreadable partial.
+ *
+ * @param urls - Absolute image URLs
+ * @returns `{ images }` when there are any, otherwise `{}`
+ */
+function withImages(urls: string[]): Pick<SitemapEntry, 'images'> {
+    return urls.length > 0 ? { images: urls.map((url) => ({ url })) } : {};
+}
+
+/**
+ * Builds the site-relative path of a page from its normalized slug.
+ *
+ * @param slug - Normalized page slug
+ * @returns '/' for the home page, otherwise '/<slug>'
+ */
+function getPagePath(slug: string): string {
+    return slug === 'index' ? '/' : `/${slug}`;
 }
 
+// Frontmatter exported by each compiled page, including the remark plugin's build-time lastModified.
+const PAGE_FRONTMATTER = import.meta.glob<Record<string, unknown>>('../content/pages/**/*.mdx', {
+    eager: true,
+    import: 'frontmatter',
+});
+
 /**
- * Gets the domain for a given locale.
+ * Finds when a page last changed.
  *
- * @param locale - The locale to get the domain for
- * @returns The domain URL
+ * @param page - The page entry
+ * @returns The frontmatter updatedDate, else the source file's mtime recorded at compile time
  */
-export function getLocaleDomain(locale: Locale): string {
-    return locale === 'cs' ? 'https://ambilab.cz' : 'https://ambilab.com';
+function getPageLastModified(page: CollectionEntry<'pages'>): Date | undefined {
+    if (page.data.updatedDate) {
+        return page.data.updatedDate;
+    }
+
+    const lastModified = PAGE_FRONTMATTER[`../content/pages/${page.id}`]?.lastModified;
+
+    return typeof lastModified === 'string' ? new Date(lastModified) : undefined;
 }
 
 /**
@@ -37,20 +163,39 @@ export function getLocaleDomain(locale: Locale): string {
  *
  * @param pages - Array of page entries
  * @param locale - The locale of the pages
+ * @param translations - Content of the other locales
  * @returns Array of sitemap entries
  */
-function generatePageEntries(pages: CollectionEntry<'pages'>[], locale: Locale): SitemapEntry[] {
+function generatePageEntries(
+    pages: CollectionEntry<'pages'>[],
+    locale: Locale,
+    translations: SitemapTranslation[],
+): SitemapEntry[] {
     const domain = getLocaleDomain(locale);
     const entries: SitemapEntry[] = [];
 
     for (const page of pages) {
         const slug = normalizeSlug(page.id);
-        const url = slug === 'index' ? `${domain}/` : `${domain}/${slug}`;
+
+        // The projects page is the intro of the project index, listed with the projects.
+        if (slug === PAGE_SLUGS.projects[locale]) {
+            continue;
+        }
+        const path = getPagePath(slug);
+        const url = `${domain}${path}`;
+        const lastmod = getPageLastModified(page);
 
         entries.push({
             url,
             changefreq: 'weekly',
             priority: slug === 'index' ? 1.0 : 0.8,
+            ...(lastmod ? { lastmod } : {}),
+            ...withImages(extractContentImages(page.body, url)),
+            ...withAlternates(locale, path, translations, (translation) => {
+                const translatedPage = findTranslatedEntry(page, translation.locale, translation.content.pageMap);
+
+                return translatedPage ? getPagePath(normalizeSlug(translatedPage.id)) : undefined;
+            }),
         });
     }
 
@@ -62,70 +207,290 @@ function generatePageEntries(pages: CollectionEntry<'pages'>[], locale: Locale):
  *
  * @param posts - Array of news post entries
  * @param locale - The locale of the posts
+ * @param translations - Content of the other locales
  * @returns Array of sitemap entries
  */
-function generateNewsPostEntries(posts: CollectionEntry<'news'>[], locale: Locale): SitemapEntry[] {
+function generateNewsPostEntries(
+    posts: CollectionEntry<'news'>[],
+    locale: Locale,
+    translations: SitemapTranslation[],
+): SitemapEntry[] {
     const domain = getLocaleDomain(locale);
     const entries: SitemapEntry[] = [];
     const newsRoute = getRoute('news', locale);
 
     for (const post of posts) {
-        const slug = normalizeSlug(post.id);
-        const url = `${domain}${newsRoute}/${slug}`;
+        const path = `${newsRoute}/${normalizeSlug(post.id)}`;
+        const url = `${domain}${path}`;
 
         entries.push({
             url,
             changefreq: 'monthly',
             priority: 0.6,
             lastmod: post.data.updatedDate || post.data.pubDate,
+            ...withImages(extractContentImages(post.body, url)),
+            ...withAlternates(locale, path, translations, (translation) => {
+                const translatedPost = findTranslatedEntry(post, translation.locale, translation.content.newsPostMap);
+
+                return translatedPost
+                    ? `${getRoute('news', translation.locale)}/${normalizeSlug(translatedPost.id)}`
+                    : undefined;
+            }),
         });
     }
 
     return entries;
 }
 
+/**
+ * Generates Google News sitemap entries for the posts of the last 48 hours.
+ *
+ * @param posts - News posts of the locale
+ * @param locale - The locale of the posts
+ * @param now - Current time
+ * @returns Array of sitemap entries with news details
+ */
+function generateGoogleNewsEntries(posts: CollectionEntry<'news'>[], locale: Locale, now: Date): SitemapEntry[] {
+    const domain = getLocaleDomain(locale);
+    const newsRoute = getRoute('news', locale);
+
+    return posts
+        .filter((post) => isWithinNewsSitemapWindow(post.data.pubDate, now))
+        .map((post) => ({
+            url: `${domain}${newsRoute}/${normalizeSlug(post.id)}`,
+            news: {
+                publicationName: SITE.NAME,
+                language: locale,
+                publicationDate: post.data.pubDate,
+                title: post.data.title,
+            },
+        }));
+}
+
 /**
  * Generates sitemap entry for the news index page.
  *
+ * @param posts - News posts of the locale
  * @param locale - The locale of the news index
+ * @param translations - Content of the other locales
  * @returns Sitemap entry for the news index
  */
-function generateNewsIndexEntry(locale: Locale): SitemapEntry {
+function generateNewsIndexEntry(
+    posts: CollectionEntry<'news'>[],
+    locale: Locale,
+    translations: SitemapTranslation[],
+): SitemapEntry {
     const domain = getLocaleDomain(locale);
     const newsRoute = getRoute('news', locale);
+    const lastUpdates = posts.map((post) => (post.data.updatedDate || post.data.pubDate).getTime());
 
     return {
         url: `${domain}${newsRoute}`,
         changefreq: 'daily',
         priority: 0.7,
+        ...(lastUpdates.length > 0 ? { lastmod: new Date(Math.max(...lastUpdates)) } : {}),
+        ...withAlternates(locale, newsRoute, translations, (translation) =>
+            translation.content.newsPosts.length > 0 ? getRoute('news', translation.locale) : undefined,
+        ),
     };
 }
 
+/**
+ * Generates sitemap entries for the tag index and every tag archive.
+ *
+ * @param tags - Tags collected from the locale's news posts
+ * @param locale - The locale of the tag archives
+ * @param translations - Content of the other locales
+ * @returns Array of sitemap entries
+ */
+function generateNewsTagEntries(tags: NewsTag[], locale: Locale, translations: SitemapTranslation[]): SitemapEntry[] {
+    const domain = getLocaleDomain(locale);
+    const tagsRoute = getRoute('newsTags', locale);
+    const lastUpdates = tags.flatMap((tag) =>
+        tag.posts.map((post) => (post.data.updatedDate || post.data.pubDate).getTime()),
+    );
+
+    // Tags are written per locale, so only the tag indexes are alternates of each other.
+    const entries: SitemapEntry[] = [
+        {
+            url: `${domain}${tagsRoute}`,
+            changefreq: 'weekly',
+            priority: 0.4,
+            ...(lastUpdates.length > 0 ? { lastmod: new Date(Math.max(...lastUpdates)) } : {}),
+            ...withAlternates(locale, tagsRoute, translations, (translation) =>
+                collectNewsTags(translation.content.newsPosts, translation.locale).length > 0
+                    ? getRoute('newsTags', translation.locale)
+                    : undefined,
+            ),
+        },
+    ];
+
+    for (const tag of tags) {
+        const latestPost = tag.posts[0];
+
+        entries.push({
+            url: `${domain}${tagsRoute}/${tag.slug}`,
+            changefreq: 'weekly',
+            priority: 0.4,
+            ...(latestPost ? { lastmod: latestPost.data.updatedDate || latestPost.data.pubDate } : {}),
+        });
+    }
+
+    return entries;
+}
+
+/**
+ * Generates sitemap entries for the archives of authors with posts in the locale.
+ *
+ * @param authorIds - IDs of all authors
+ * @param posts - News posts of the locale
+ * @param locale - The locale of the author archives
+ * @param translations - Content of the other locales
+ * @returns Array of sitemap entries
+ */
+function generateNewsAuthorEntries(
+    authorIds: string[],
+    posts: CollectionEntry<'news'>[],
+    locale: Locale,
+    translations: SitemapTranslation[],
+): SitemapEntry[] {
+    const domain = getLocaleDomain(locale);
+
+    return authorIds.flatMap((authorId) => {
+        const [latestPost] = getAuthorPosts(authorId, posts);
+        const path = getAuthorLink(authorId, locale);
+
+        return latestPost
+            ? [
+                  {
+                      url: `${domain}${path}`,
+                      changefreq: 'weekly' as const,
+                      priority: 0.4,
+                      lastmod: latestPost.data.updatedDate || latestPost.data.pubDate,
+                      ...withAlternates(locale, path, translations, (translation) =>
+                          getAuthorPosts(authorId, translation.content.newsPosts).length > 0
+                              ? getAuthorLink(authorId, translation.locale)
+                              : undefined,
+                      ),
+                  },
+              ]
+            : [];
+    });
+}
+
+/**
+ * Generates sitemap entries for the project index and every project page.
+ *
+ * @param projects - Array of project entries
+ * @param locale - The locale of the projects
+ * @param translations - Content of the other locales
+ * @returns Array of sitemap entries
+ */
+function generateProjectEntries(
+    projects: CollectionEntry<'projects'>[],
+    locale: Locale,
+    translations: SitemapTranslation[],
+): SitemapEntry[] {
+    const domain = getLocaleDomain(locale);
+    const projectsRoute = getRoute('projects', locale);
+    const lastUpdates = projects.map((project) => getProjectLastUpdated(project).getTime());
+    const entries: SitemapEntry[] = [
+        {
+            url: `${domain}${projectsRoute}`,
+            changefreq: 'weekly',
+            priority: 0.8,
+            ...(lastUpdates.length > 0 ? { lastmod: new Date(Math.max(...lastUpdates)) } : {}),
+            ...withAlternates(locale, projectsRoute, translations, (translation) =>
+                getRoute('projects', translation.locale),
+            ),
+        },
+    ];
+
+    for (const project of projects) {
+        const path = getProjectLink(project.id, locale);
+        const url = `${domain}${path}`;
+        const cover = project.data.cover ? [new URL(project.data.cover.src, url).href] : [];
+
+        entries.push({
+            url,
+            changefreq: 'monthly',
+            priority: 0.7,
+            lastmod: getProjectLastUpdated(project),
+            ...withImages([...new Set([...cover, ...extractContentImages(project.body, url)])]),
+            ...withAlternates(locale, path, translations, (translation) => {
+                const translatedProject = findTranslatedEntry(
+                    project,
+                    translation.locale,
+                    translation.content.projectMap,
+                );
+
+                return translatedProject ? getProjectLink(translatedProject.id, translation.locale) : undefined;
+            }),
+        });
+    }
+
+    return entries;
+}
+
 /**
  * Generates all sitemap entries for a specific locale.
  *
  * @param locale - The locale to generate entries for
- * @returns Array of all sitemap entries for the locale
+ * @param now - Current time, which decides the posts of the Google News sitemap
+ * @returns Sitemap entries of the locale, grouped by child sitemap
  */
-export async function generateLocaleSitemapEntries(locale: Locale): Promise<SitemapEntry[]> {
+export async function generateLocaleSitemapEntries(
+    locale: Locale,
+    now: Date = new Date(),
+): Promise<LocaleSitemapEntries> {
     logger.info(`Generating sitemap entries for locale: ${locale}`);
 
     try {
-        const content = await loadLocaleContent(locale);
-        const entries: SitemapEntry[] = [];
+        const [content, translations] = await Promise.all([
+            loadLocaleContent(locale),
+            Promise.all(
+                getTranslationLocales(locale).map(
+                    async (translationLocale): Promise<SitemapTranslation> => ({
+                        locale: translationLocale,
+                        content: await loadLocaleContent(translationLocale),
+                    }),
+                ),
+            ),
+        ]);
+        const entries: LocaleSitemapEntries = { pages: [], news: [], tags: [], 'google-news': [] };
 
         // Add page entries
-        entries.push(...generatePageEntries(content.pages, locale));
+        entries.pages.push(...generatePageEntries(content.pages, locale, translations));
+
+        // Add the project index and project entries
+        entries.pages.push(...generateProjectEntries(content.projects, locale, translations));
 
         // Add news index entry (only if there are news posts)
         if (content.newsPosts.length > 0) {
-            entries.push(generateNewsIndexEntry(locale));
+            entries.news.push(generateNewsIndexEntry(content.newsPosts, locale, translations));
         }
 
         // Add news post entries
-        entries.push(...generateNewsPostEntries(content.newsPosts, locale));
+        entries.news.push(...generateNewsPostEntries(content.newsPosts, locale, translations));
+
+        // Add author archive entries (authors without posts in this locale are skipped)
+        entries.news.push(
+            ...generateNewsAuthorEntries([...content.authorMap.keys()], content.newsPosts, locale, translations),
+        );
+
+        // Add the posts of the last 48 hours to the Google News sitemap
+        entries['google-news'].push(...generateGoogleNewsEntries(content.newsPosts, locale, now));
+
+        // Add tag archive entries (only if any post is tagged)
+        const tags = collectNewsTags(content.newsPosts, locale);
+
+        if (tags.length > 0) {
+            entries.tags.push(...generateNewsTagEntries(tags, locale, translations));
+        }
+
+        const count = SITEMAP_TYPES.reduce((total, type) => total + entries[type].length, 0);
 
-        logger.info(`Generated ${entries.length} sitemap entries for locale: ${locale}`);
+        logger.info(`Generated ${count} sitemap entries for locale: ${locale}`);
 
         return entries;
     } catch (error) {
@@ -137,18 +502,28 @@ export async function generateLocaleSitemapEntries(locale: Locale): Promise<Site
 /**
  * Generates all sitemap entries for all supported locales.
  *
- * @returns Array of all sitemap entries
+ * Alternates that their target does not confirm are logged as warnings.
+ *
+ * @returns Sitemap entries keyed by locale, grouped by child sitemap
  */
-export async function generateAllSitemapEntries(): Promise<SitemapEntry[]> {
+export async function generateAllSitemapEntries(): Promise<Map<Locale, LocaleSitemapEntries>> {
     logger.info('Generating sitemap entries for all locales');
 
     const startTime = performance.now();
 
     try {
         // Generate entries for all locales in parallel
-        const localeEntriesArrays = await Promise.all(LOCALES.map((locale) => generateLocaleSitemapEntries(locale)));
+        const localeEntries = await Promise.all(
+            LOCALES.map(async (locale) => [locale, await generateLocaleSitemapEntries(locale)] as const),
+        );
+        const allEntries = localeEntries.flatMap(([, entries]) => SITEMAP_TYPES.flatMap((type) => entries[type]));
 
-        const allEntries = localeEntriesArrays.flat();
+        // Alternates must be confirmed by their targets, or search engines ignore them.
+        for (const issue of findNonReciprocalAlternates(
+            allEntries.map((entry) => ({ url: entry.url, alternates: entry.alternates ?? [] })),
+        )) {
+            logger.warn(`hreflang alternate ${issue.to} of ${issue.from} does not link back`);
+        }
 
         const duration = performance.now() - startTime;
 
@@ -156,9 +531,53 @@ export async function generateAllSitemapEntries(): Promise<SitemapEntry[]> {
             `Generated ${allEntries.length} total sitemap entries for ${LOCALES.length} locales in ${duration.toFixed(2)}ms`,
         );
 
-        return allEntries;
+        return new Map(localeEntries);
     } catch (error) {
         logger.error('Failed to generate sitemap entries', error);
         throw error;
     }
 }
+
+/**
+ * Lists the child sitemaps of the given locales for a sitemap index.
+ *
+ * Each child sitemap is served from its locale's own domain. Types without
+ * entries are left out; types past getMaxSitemapUrls() are split into numbered chunks.
+ *
+ * @param locales - Locales to include
+ * @returns Child sitemaps with the latest lastmod of their entries
+ */
+export async function generateSitemapIndexEntries(locales: readonly Locale[]): Promise<SitemapIndexEntry[]> {
+    const entriesByLocale = await generateAllSitemapEntries();
+
+    return locales.flatMap((locale) =>
+        SITEMAP_TYPES.flatMap((type) =>
+            chunkSitemapEntries(entriesByLocale.get(locale)?.[type] ?? [], getMaxSitemapUrls(type)).map(
+                (chunk, index) => {
+                    const lastmod = getLatestLastmod(chunk);
+
+                    return {
+                        url: getLocaleUrl(locale, getChildSitemapPath(locale, type, index + 1)),
+                        ...(lastmod ? { lastmod } : {}),
+                    };
+                },
+            ),
+        ),
+    );
+}
+
+/**
+ * Generates the entries of one child sitemap.
+ *
+ * @param locale - Locale of the child sitemap
+ * @param file - Type and chunk number of the child sitemap
+ * @returns The chunk's entries sorted by URL, or undefined when the chunk does not exist
+ */
+export async function generateChildSitemapEntries(
+    locale: Locale,
+    file: ChildSitemapFile,
+): Promise<SitemapEntry[] | undefined> {
+    const entries = await generateLocaleSitemapEntries(locale);
+
+    return chunkSitemapEntries(entries[file.type], getMaxSitemapUrls(file.type))[file.page - 1];
+}
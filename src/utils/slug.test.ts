@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import { createSlugger, DEFAULT_SLUG, slugify, transliterate } from './slug';
+
+/* cspell:disable */
+
+describe('transliterate', () => {
+    it('should strip Czech diacritics', () => {
+        expect(transliterate('Příliš žluťoučký kůň úpěl ďábelské ódy')).toBe('prilis zlutoucky kun upel dabelske ody');
+    });
+
+    it('should transliterate letters that do not decompose', () => {
+        expect(transliterate('Łódź Straße Øresund')).toBe('lodz strasse oresund');
+    });
+});
+
+describe('slugify', () => {
+    it('should transliterate Czech headings instead of dropping letters', () => {
+        expect(slugify('Přehled řešení')).toBe('prehled-reseni');
+        expect(slugify('Čeština a ŘEŠENÍ')).toBe('cestina-a-reseni');
+    });
+
+    it('should handle English punctuation', () => {
+        expect(slugify('What’s new in v2.0?')).toBe('what-s-new-in-v2-0');
+        expect(slugify('Tips & Tricks')).toBe('tips-tricks');
+        expect(slugify('  --Leading and trailing--  ')).toBe('leading-and-trailing');
+    });
+
+    it('should keep digits', () => {
+        expect(slugify('Část 2: WebGPU 101')).toBe('cast-2-webgpu-101');
+    });
+
+    it('should treat precomposed and decomposed input alike', () => {
+        expect(slugify('Řeš'.normalize('NFC'))).toBe(slugify('Řeš'.normalize('NFD')));
+    });
+
+    it('should return an empty string when nothing is sluggable', () => {
+        expect(slugify('🚀 ✨')).toBe('');
+        expect(slugify('')).toBe('');
+    });
+});
+
+describe('createSlugger', () => {
+    it('should suffix repeated slugs', () => {
+        const slugger = createSlugger();
+
+        expect(slugger.slug('Úvod')).toBe('uvod');
+        expect(slugger.slug('Uvod')).toBe('uvod-2');
+        expect(slugger.slug('ÚVOD')).toBe('uvod-3');
+    });
+
+    it('should fall back to the default slug for empty headings', () => {
+        const slugger = createSlugger();
+
+        expect(slugger.slug('🚀')).toBe(DEFAULT_SLUG);
+        expect(slugger.slug('')).toBe(`${DEFAULT_SLUG}-2`);
+    });
+
+    it('should avoid reserved IDs', () => {
+        const slugger = createSlugger();
+
+        slugger.reserve('setup');
+        slugger.reserve('setup-2');
+
+        expect(slugger.slug('Setup')).toBe('setup-3');
+    });
+
+    it('should not collide with a generated suffix that matches a real heading', () => {
+        const slugger = createSlugger();
+
+        expect(slugger.slug('Step 2')).toBe('step-2');
+        expect(slugger.slug('Step')).toBe('step');
+        expect(slugger.slug('Step')).toBe('step-3');
+    });
+
+    it('should start over after a reset', () => {
+        const slugger = createSlugger();
+
+        slugger.slug('Shrnutí');
+        slugger.reset();
+
+        expect(slugger.slug('Shrnutí')).toBe('shrnuti');
+    });
+});
+
+/* cspell:enable */
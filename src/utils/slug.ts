@@ -0,0 +1,122 @@
+/**
+ * Slug Utilities
+ *
+ * One slugger for every generated identifier: heading anchors (rendered on the
+ * server by the rehype plugin and added on the client by HeadingLinks) and tag
+ * routes. Both sides import this module, so a heading always gets the same
+ * anchor no matter where it was generated.
+ *
+ * Diacritics are transliterated to ASCII ("Přehled řešení" -> "prehled-reseni"),
+ * keeping anchors and URLs readable without percent-encoding.
+ */
+
+/**
+ * Fallback used when a heading has no characters that survive slugify().
+ */
+export const DEFAULT_SLUG = 'section';
+
+// Letters that NFD normalization does not decompose into base letter + diacritic.
+const TRANSLITERATIONS: Record<string, string> = {
+    æ: 'ae',
+    đ: 'd',
+    ð: 'd',
+    ħ: 'h',
+    ı: 'i',
+    ł: 'l',
+    ø: 'o',
+    œ: 'oe',
+    ß: 'ss',
+    þ: 'th',
+};
+
+// Keys of TRANSLITERATIONS, escaped.
+const TRANSLITERATION_PATTERN = /[\u00e6\u0111\u00f0\u0127\u0131\u0142\u00f8\u0153\u00df\u00fe]/g;
+
+/**
+ * Lowercases text and converts accented letters to their ASCII base letters.
+ *
+ * @param text - Text to transliterate
+ * @returns Lowercase text with diacritics removed
+ *
+ * @example
+ * transliterate('Žluťoučký kůň') // 'zlutoucky kun'
+ */
+export function transliterate(text: string): string {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(TRANSLITERATION_PATTERN, (char) => TRANSLITERATIONS[char] ?? char);
+}
+
+/**
+ * Converts text into a URL- and anchor-safe slug.
+ *
+ * @param text - Heading text, tag label or title
+ * @returns Lowercase ASCII words joined by dashes, or an empty string
+ *
+ * @example
+ * slugify('Přehled řešení') // 'prehled-reseni'
+ * slugify('What’s new in v2.0?') // 'what-s-new-in-v2-0'
+ */
+export function slugify(text: string): string {
+    return transliterate(text)
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '');
+}
+
+/**
+ * Stateful slugger that keeps slugs unique within one document.
+ */
+export interface Slugger {
+    /**
+     * Returns a unique slug for the text, suffixing repeats with -2, -3, ...
+     * Text without any sluggable characters falls back to DEFAULT_SLUG.
+     */
+    slug(text: string): string;
+
+    /** Marks an existing ID as taken so generated slugs never collide with it */
+    reserve(id: string): void;
+
+    /** Forgets all slugs, e.g. before processing a new page */
+    reset(): void;
+}
+
+/**
+ * Creates a slugger for a single document.
+ *
+ * @returns A fresh slugger with no reserved slugs
+ *
+ * @example
+ * const slugger = createSlugger();
+ * slugger.slug('Úvod'); // 'uvod'
+ * slugger.slug('Úvod'); // 'uvod-2'
+ */
+export function createSlugger(): Slugger {
+    const used = new Set<string>();
+
+    return {
+        slug(text) {
+            const base = slugify(text) || DEFAULT_SLUG;
+            let candidate = base;
+            let counter = 2;
+
+            while (used.has(candidate)) {
+                candidate = `${base}-${counter}`;
+                counter++;
+            }
+
+            used.add(candidate);
+
+            return candidate;
+        },
+
+        reserve(id) {
+            used.add(id);
+        },
+
+        reset() {
+            used.clear();
+        },
+    };
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+    buildArticle,
+    buildBreadcrumbList,
+    buildOrganization,
+    buildStructuredDataGraph,
+    buildWebSite,
+    serializeJsonLd,
+} from './structured-data';
+
+const siteUrl = 'https://ambilab.com';
+
+const articleOptions = {
+    siteUrl,
+    locale: 'en' as const,
+    url: 'https://ambilab.com/news/hello-world',
+    headline: 'Hello World',
+    description: 'First post',
+    image: 'https://ambilab.com/og-default.png',
+    published: new Date('2025-01-01T00:00:00Z'),
+};
+
+describe('buildOrganization', () => {
+    it('should describe the site owner with a stable ID and logo', () => {
+        expect(buildOrganization(siteUrl)).toEqual({
+            '@type': 'Organization',
+            '@id': 'https://ambilab.com/#organization',
+            name: 'Ambilab',
+            url: 'https://ambilab.com',
+            logo: { '@type': 'ImageObject', url: 'https://ambilab.com/logo-placeholder.png' },
+            sameAs: ['https://github.com/ambilab'],
+        });
+    });
+});
+
+describe('buildWebSite', () => {
+    it('should reference the organization and expose a search action', () => {
+        const website = buildWebSite('https://ambilab.cz', 'cs');
+
+        expect(website).toMatchObject({
+            '@type': 'WebSite',
+            '@id': 'https://ambilab.cz/#website',
+            url: 'https://ambilab.cz',
+            inLanguage: 'cs-CZ',
+            publisher: { '@id': 'https://ambilab.cz/#organization' },
+        });
+        expect(website.potentialAction).toEqual({
+            '@type': 'SearchAction',
+            target: { '@type': 'EntryPoint', urlTemplate: 'https://ambilab.cz/?q={search_term_string}' },
+            'query-input': 'required name=search_term_string',
+        });
+    });
+});
+
+describe('buildBreadcrumbList', () => {
+    it('should number list items from 1 in trail order', () => {
+        expect(
+            buildBreadcrumbList([
+                { name: 'Home', url: 'https://ambilab.com/' },
+                { name: 'News', url: 'https://ambilab.com/news' },
+                { name: 'Hello World', url: 'https://ambilab.com/news/hello-world' },
+            ]),
+        ).toEqual({
+            '@type': 'BreadcrumbList',
+            itemListElement: [
+                { '@type': 'ListItem', position: 1, name: 'Home', item: 'https://ambilab.com/' },
+                { '@type': 'ListItem', position: 2, name: 'News', item: 'https://ambilab.com/news' },
+                {
+                    '@type': 'ListItem',
+                    position: 3,
+                    name: 'Hello World',
+                    item: 'https://ambilab.com/news/hello-world',
+                },
+            ],
+        });
+    });
+});
+
+describe('buildArticle', () => {
+    it('should build a BlogPosting authored by the organization by default', () => {
+        expect(buildArticle(articleOptions)).toEqual({
+            '@type': 'BlogPosting',
+            headline: 'Hello World',
+            description: 'First post',
+            url: 'https://ambilab.com/news/hello-world',
+            mainEntityOfPage: 'https://ambilab.com/news/hello-world',
+            inLanguage: 'en-US',
+            datePublished: '2025-01-01T00:00:00.000Z',
+            dateModified: '2025-01-01T00:00:00.000Z',
+            image: 'https://ambilab.com/og-default.png',
+            author: { '@id': 'https://ambilab.com/#organization' },
+            publisher: { '@id': 'https://ambilab.com/#organization' },
+            isPartOf: { '@id': 'https://ambilab.com/#website' },
+        });
+    });
+
+    it('should include a named author, the modified date and keywords', () => {
+        const article = buildArticle({
+            ...articleOptions,
+            type: 'Article',
+            updated: new Date('2025-02-01T00:00:00Z'),
+            author: { name: 'Jane Doe', url: 'https://ambilab.com/news/authors/jane-doe' },
+            keywords: ['astro', 'svelte'],
+        });
+
+        expect(article['@type']).toBe('Article');
+        expect(article.dateModified).toBe('2025-02-01T00:00:00.000Z');
+        expect(article.author).toEqual({
+            '@type': 'Person',
+            name: 'Jane Doe',
+            url: 'https://ambilab.com/news/authors/jane-doe',
+        });
+        expect(article.keywords).toEqual(['astro', 'svelte']);
+    });
+
+    it('should omit empty keywords', () => {
+        expect(buildArticle({ ...articleOptions, keywords: [] })).not.toHaveProperty('keywords');
+    });
+});
+
+describe('buildStructuredDataGraph', () => {
+    it('should wrap nodes in a schema.org graph', () => {
+        const organization = buildOrganization(siteUrl);
+
+        expect(buildStructuredDataGraph([organization])).toEqual({
+            '@context': 'https://schema.org',
+            '@graph': [organization],
+        });
+    });
+});
+
+describe('serializeJsonLd', () => {
+    it('should escape markup that could close the script element', () => {
+        const json = serializeJsonLd(
+            buildStructuredDataGraph([buildArticle({ ...articleOptions, headline: '</script><b>x</b>' })]),
+        );
+
+        expect(json).not.toContain('</script>');
+        expect(JSON.parse(json)['@graph'][0].headline).toBe('</script><b>x</b>');
+    });
+});
@@ -0,0 +1,276 @@
+/**
+ * Structured Data (JSON-LD)
+ *
+ * Typed builders for the schema.org nodes BaseHead embeds in every page: the
+ * Organization behind the site, the WebSite with its search action, a
+ * BreadcrumbList for nested pages and an Article/BlogPosting for news posts.
+ *
+ * All nodes of a page are emitted as one `@graph`. The Organization and the
+ * WebSite carry stable `@id`s, so the other nodes reference them instead of
+ * repeating their details.
+ */
+
+import { SITE } from '@config/site';
+import { LOCALE_TO_INTL } from '@i18n/config';
+import type { Locale } from '@type/locale';
+
+// #region Type Definitions
+
+const SCHEMA_CONTEXT = 'https://schema.org';
+
+/**
+ * Reference to a node defined elsewhere in the graph.
+ */
+export interface NodeReference {
+    '@id': string;
+}
+
+export interface ImageObjectSchema {
+    '@type': 'ImageObject';
+    url: string;
+}
+
+export interface OrganizationSchema {
+    '@type': 'Organization';
+    '@id': string;
+    name: string;
+    url: string;
+    logo: ImageObjectSchema;
+    sameAs: string[];
+}
+
+export interface PersonSchema {
+    '@type': 'Person';
+    name: string;
+    url: string;
+}
+
+export interface SearchActionSchema {
+    '@type': 'SearchAction';
+    target: {
+        '@type': 'EntryPoint';
+        urlTemplate: string;
+    };
+    'query-input': string;
+}
+
+export interface WebSiteSchema {
+    '@type': 'WebSite';
+    '@id': string;
+    name: string;
+    description: string;
+    url: string;
+    inLanguage: string;
+    publisher: NodeReference;
+    potentialAction: SearchActionSchema;
+}
+
+export interface ListItemSchema {
+    '@type': 'ListItem';
+    position: number;
+    name: string;
+    item: string;
+}
+
+export interface BreadcrumbListSchema {
+    '@type': 'BreadcrumbList';
+    itemListElement: ListItemSchema[];
+}
+
+export interface ArticleSchema {
+    '@type': 'Article' | 'BlogPosting';
+    headline: string;
+    description: string;
+    url: string;
+    mainEntityOfPage: string;
+    inLanguage: string;
+    datePublished: string;
+    dateModified: string;
+    image: string;
+    author: PersonSchema | NodeReference;
+    publisher: NodeReference;
+    isPartOf: NodeReference;
+    keywords?: string[];
+}
+
+export type StructuredDataNode = OrganizationSchema | WebSiteSchema | BreadcrumbListSchema | ArticleSchema;
+
+export interface StructuredDataGraph {
+    '@context': typeof SCHEMA_CONTEXT;
+    '@graph': StructuredDataNode[];
+}
+
+/**
+ * A breadcrumb step with an absolute URL.
+ */
+export interface Breadcrumb {
+    name: string;
+    url: string;
+}
+
+export interface ArticleOptions {
+    /** Defaults to 'BlogPosting' */
+    type?: ArticleSchema['@type'];
+
+    siteUrl: string;
+    locale: Locale;
+
+    /** Canonical absolute URL of the article */
+    url: string;
+
+    headline: string;
+    description: string;
+    image: string;
+    published: Date;
+    updated?: Date | undefined;
+
+    /** Named author; the Organization is the author when omitted */
+    author?: { name: string; url: string } | undefined;
+
+    keywords?: string[] | undefined;
+}
+
+// #endregion
+
+// #region Helper Functions
+
+/**
+ * Placeholder the SearchAction target uses for the query (see schema.org/SearchAction).
+ */
+const SEARCH_TERM_PLACEHOLDER = 'search_term_string';
+
+function getOrganizationId(siteUrl: string): string {
+    return `${siteUrl}/#organization`;
+}
+
+function getWebSiteId(siteUrl: string): string {
+    return `${siteUrl}/#website`;
+}
+
+// #endregion
+
+// #region Main Exports
+
+/**
+ * Builds the Organization node for the site owner.
+ *
+ * @param siteUrl - Site origin without a trailing slash
+ * @returns The Organization node
+ */
+export function buildOrganization(siteUrl: string): OrganizationSchema {
+    return {
+        '@type': 'Organization',
+        '@id': getOrganizationId(siteUrl),
+        name: SITE.NAME,
+        url: siteUrl,
+        logo: {
+            '@type': 'ImageObject',
+            url: `${siteUrl}/logo-placeholder.png`,
+        },
+        sameAs: Object.values(SITE.SOCIAL),
+    };
+}
+
+/**
+ * Builds the WebSite node with a sitelinks search box action.
+ *
+ * The search target is the home page with a `q` parameter, which opens the
+ * site search prefilled with the query.
+ *
+ * @param siteUrl - Site origin without a trailing slash
+ * @param locale - Language of the site
+ * @returns The WebSite node
+ */
+export function buildWebSite(siteUrl: string, locale: Locale): WebSiteSchema {
+    return {
+        '@type': 'WebSite',
+        '@id': getWebSiteId(siteUrl),
+        name: SITE.NAME,
+        description: SITE.DESCRIPTION,
+        url: siteUrl,
+        inLanguage: LOCALE_TO_INTL[locale],
+        publisher: { '@id': getOrganizationId(siteUrl) },
+        potentialAction: {
+            '@type': 'SearchAction',
+            target: {
+                '@type': 'EntryPoint',
+                urlTemplate: `${siteUrl}/?q={${SEARCH_TERM_PLACEHOLDER}}`,
+            },
+            'query-input': `required name=${SEARCH_TERM_PLACEHOLDER}`,
+        },
+    };
+}
+
+/**
+ * Builds a BreadcrumbList from the trail of a page.
+ *
+ * @param breadcrumbs - Steps from the home page down to the current page
+ * @returns The BreadcrumbList node, positions starting at 1
+ */
+export function buildBreadcrumbList(breadcrumbs: Breadcrumb[]): BreadcrumbListSchema {
+    return {
+        '@type': 'BreadcrumbList',
+        itemListElement: breadcrumbs.map((breadcrumb, index) => ({
+            '@type': 'ListItem',
+            position: index + 1,
+            name: breadcrumb.name,
+            item: breadcrumb.url,
+        })),
+    };
+}
+
+/**
+ * Builds an Article or BlogPosting node.
+ *
+ * @param options - Article details
+ * @returns The article node; dateModified falls back to datePublished
+ */
+export function buildArticle(options: ArticleOptions): ArticleSchema {
+    const { type = 'BlogPosting', siteUrl, locale, url, published, updated, author, keywords } = options;
+
+    return {
+        '@type': type,
+        headline: options.headline,
+        description: options.description,
+        url,
+        mainEntityOfPage: url,
+        inLanguage: LOCALE_TO_INTL[locale],
+        datePublished: published.toISOString(),
+        dateModified: (updated ?? published).toISOString(),
+        image: options.image,
+        author: author
+            ? { '@type': 'Person', name: author.name, url: author.url }
+            : { '@id': getOrganizationId(siteUrl) },
+        publisher: { '@id': getOrganizationId(siteUrl) },
+        isPartOf: { '@id': getWebSiteId(siteUrl) },
+        ...(keywords && keywords.length > 0 ? { keywords } : {}),
+    };
+}
+
+/**
+ * Wraps nodes into a single JSON-LD graph.
+ *
+ * @param nodes - Nodes of the page
+ * @returns The graph document
+ */
+export function buildStructuredDataGraph(nodes: StructuredDataNode[]): StructuredDataGraph {
+    return {
+        '@context': SCHEMA_CONTEXT,
+        '@graph': nodes,
+    };
+}
+
+/**
+ * Serializes JSON-LD for an inline `<script>` element.
+ *
+ * `<` is escaped so content such as a title containing `</script>` cannot end
+ * the element early.
+ *
+ * @param data - The JSON-LD document
+ * @returns JSON safe to embed with set:html
+ */
+export function serializeJsonLd(data: StructuredDataGraph): string {
+    return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+// #endregion
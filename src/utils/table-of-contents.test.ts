@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildTableOfContents, type ContentHeading } from './table-of-contents';
+
+const heading = (depth: number, text: string): ContentHeading => ({
+    depth,
+    slug: text.toLowerCase().replace(/\s+/g, '-'),
+    text,
+});
+
+describe('buildTableOfContents', () => {
+    it('should nest subheadings under their parent section', () => {
+        const toc = buildTableOfContents([
+            heading(2, 'Setup'),
+            heading(3, 'Install'),
+            heading(3, 'Configure'),
+            heading(2, 'Usage'),
+        ]);
+
+        expect(toc.map((item) => item.slug)).toEqual(['setup', 'usage']);
+        expect(toc[0]?.children.map((item) => item.slug)).toEqual(['install', 'configure']);
+        expect(toc[1]?.children).toEqual([]);
+    });
+
+    it('should nest skipped levels under the closest shallower heading', () => {
+        const toc = buildTableOfContents([heading(2, 'Intro'), heading(4, 'Detail'), heading(3, 'Aside')], {
+            maxDepth: 4,
+        });
+
+        expect(toc).toHaveLength(1);
+        expect(toc[0]?.children.map((item) => item.slug)).toEqual(['detail', 'aside']);
+    });
+
+    it('should keep a leading deeper heading at the top level', () => {
+        const toc = buildTableOfContents([heading(3, 'Preface'), heading(2, 'Chapter'), heading(3, 'Section')]);
+
+        expect(toc.map((item) => item.slug)).toEqual(['preface', 'chapter']);
+        expect(toc[1]?.children.map((item) => item.slug)).toEqual(['section']);
+    });
+
+    it('should ignore headings outside the depth range', () => {
+        const toc = buildTableOfContents(
+            [heading(1, 'Title'), heading(2, 'One'), heading(3, 'Two'), heading(4, 'Deep'), heading(2, 'Three')],
+            { maxDepth: 3 },
+        );
+
+        expect(toc.map((item) => item.slug)).toEqual(['one', 'three']);
+        expect(toc[0]?.children.map((item) => item.slug)).toEqual(['two']);
+        expect(toc[0]?.children[0]?.children).toEqual([]);
+    });
+
+    it('should return an empty list when there are too few headings', () => {
+        const headings = [heading(2, 'One'), heading(2, 'Two')];
+
+        expect(buildTableOfContents(headings, { minHeadings: 3 })).toEqual([]);
+        expect(buildTableOfContents(headings, { minHeadings: 2 })).toHaveLength(2);
+    });
+
+    it('should skip headings without a slug or text', () => {
+        const toc = buildTableOfContents(
+            [heading(2, 'One'), { depth: 2, slug: '', text: 'Empty' }, heading(2, 'Two')],
+            { minHeadings: 1 },
+        );
+
+        expect(toc.map((item) => item.slug)).toEqual(['one', 'two']);
+    });
+});
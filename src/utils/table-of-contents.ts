@@ -0,0 +1,98 @@
+/**
+ * Table of Contents Builder
+ *
+ * Turns the flat heading list returned by `entry.render()` into a nested
+ * table of contents for server rendering.
+ */
+
+import { COMPONENT_CONFIG } from '@config/components';
+
+/**
+ * Heading as returned by Astro's `entry.render()`.
+ */
+export interface ContentHeading {
+    depth: number;
+    slug: string;
+    text: string;
+}
+
+/**
+ * A table of contents entry with its nested subheadings.
+ */
+export interface TableOfContentsItem {
+    depth: number;
+    slug: string;
+    text: string;
+    children: TableOfContentsItem[];
+}
+
+export interface TableOfContentsOptions {
+    /** Shallowest heading level to include (defaults to 2, since h1 is the page title) */
+    minDepth?: number;
+
+    /** Deepest heading level to include */
+    maxDepth?: number;
+
+    /** Minimum number of included headings before a table of contents is worth showing */
+    minHeadings?: number;
+}
+
+/**
+ * Builds a nested table of contents from rendered headings.
+ *
+ * Headings that skip a level (e.g. h2 followed by h4) nest under the closest
+ * shallower heading, so the tree never has empty intermediate levels.
+ *
+ * @param headings - Headings from `entry.render()`
+ * @param options - Depth range and minimum heading count
+ * @returns Top-level items, or an empty array when there are too few headings
+ *
+ * @example
+ * buildTableOfContents(rendered.headings, { maxDepth: 2 });
+ */
+export function buildTableOfContents(
+    headings: ContentHeading[],
+    options: TableOfContentsOptions = {},
+): TableOfContentsItem[] {
+    const {
+        minDepth = 2,
+        maxDepth = COMPONENT_CONFIG.tableOfContents.maxDepth,
+        minHeadings = COMPONENT_CONFIG.tableOfContents.minHeadings,
+    } = options;
+
+    const included = headings.filter(
+        (heading) => heading.depth >= minDepth && heading.depth <= maxDepth && heading.slug && heading.text,
+    );
+
+    if (included.length < minHeadings) {
+        return [];
+    }
+
+    const root: TableOfContentsItem[] = [];
+    const stack: TableOfContentsItem[] = [];
+
+    for (const heading of included) {
+        const item: TableOfContentsItem = {
+            depth: heading.depth,
+            slug: heading.slug,
+            text: heading.text,
+            children: [],
+        };
+
+        while (stack.length > 0 && (stack[stack.length - 1]?.depth ?? 0) >= item.depth) {
+            stack.pop();
+        }
+
+        const parent = stack[stack.length - 1];
+
+        if (parent) {
+            parent.children.push(item);
+        } else {
+            root.push(item);
+        }
+
+        stack.push(item);
+    }
+
+    return root;
+}
@@ -0,0 +1,26 @@
+/**
+ * XML Utilities
+ *
+ * Minimal helpers for emitting well-formed XML by hand.
+ */
+
+const XML_ESCAPES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&apos;',
+};
+
+/**
+ * Escapes a string for use in XML text content or attribute values.
+ *
+ * @param value - The raw string
+ * @returns The string with XML special characters replaced by entities
+ *
+ * @example
+ * escapeXml('Tom & Jerry <3') // 'Tom &amp; Jerry &lt;3'
+ */
+export function escapeXml(value: string): string {
+    return value.replace(/[&<>"']/g, (char) => XML_ESCAPES[char] ?? char);
+}
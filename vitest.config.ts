@@ -12,6 +12,8 @@ export default defineConfig({
             '@utils': path.resolve(__dirname, './src/utils'),
             '@type': path.resolve(__dirname, './src/types'),
             '@i18n': path.resolve(__dirname, './src/i18n'),
+            'astro:content': path.resolve(__dirname, './src/test/astro-content.ts'),
+            'astro:middleware': 'astro/middleware',
         },
     },
     test: {